@@ -2,14 +2,23 @@
 
 pragma solidity ^0.8.24;
 
-import "fhevm/lib/TFHE.sol";
+import { FHE, euint32, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 /**
  * @title FHEAdd
  * @notice Demonstrates encrypted addition operations
  * @dev Shows how to perform arithmetic operations on encrypted values
+ * @custom:example fhe-add
+ * @custom:title FHE Addition
+ * @custom:category basic
+ * @custom:difficulty beginner
+ * @custom:concepts arithmetic, fhe-add, operations
+ * @custom:tags arithmetic, add, operations
+ * @custom:chapter Arithmetic Operations
+ * @custom:prerequisites fhe-counter
  */
-contract FHEAdd {
+contract FHEAdd is ZamaEthereumConfig {
     // State variables for encrypted values
     euint32 private encryptedSum;
     uint256 public additionCount;
@@ -25,14 +34,14 @@ contract FHEAdd {
      */
     function add(externalEuint32 inputEuint32, bytes calldata inputProof) external {
         // Decrypt input from external format
-        euint32 encryptedInput = TFHE.fromExternal(inputEuint32, inputProof);
+        euint32 encryptedInput = FHE.fromExternal(inputEuint32, inputProof);
 
         // Perform addition on encrypted values
-        encryptedSum = TFHE.add(encryptedSum, encryptedInput);
+        encryptedSum = FHE.add(encryptedSum, encryptedInput);
 
         // Grant permissions for decryption
-        TFHE.allowThis(encryptedSum);
-        TFHE.allow(encryptedSum, msg.sender);
+        FHE.allowThis(encryptedSum);
+        FHE.allow(encryptedSum, msg.sender);
 
         // Track operation count
         additionCount++;
@@ -47,8 +56,8 @@ contract FHEAdd {
      */
     function getSum() external returns (euint32) {
         euint32 value = encryptedSum;
-        TFHE.allowThis(value);
-        TFHE.allow(value, msg.sender);
+        FHE.allowThis(value);
+        FHE.allow(value, msg.sender);
         return value;
     }
 
@@ -56,7 +65,8 @@ contract FHEAdd {
      * @notice Reset the sum to zero
      */
     function resetSum() external {
-        encryptedSum = TFHE.asEuint32(0);
+        encryptedSum = FHE.asEuint32(0);
+        FHE.allowThis(encryptedSum);
     }
 
     /**
@@ -65,11 +75,11 @@ contract FHEAdd {
      */
     function addMultiple(euint32[] calldata values) external {
         for (uint256 i = 0; i < values.length; i++) {
-            encryptedSum = TFHE.add(encryptedSum, values[i]);
+            encryptedSum = FHE.add(encryptedSum, values[i]);
         }
 
-        TFHE.allowThis(encryptedSum);
-        TFHE.allow(encryptedSum, msg.sender);
+        FHE.allowThis(encryptedSum);
+        FHE.allow(encryptedSum, msg.sender);
         additionCount++;
     }
 }
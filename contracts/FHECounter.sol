@@ -10,6 +10,15 @@ import { ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 ///   - Store encrypted values on-chain
 ///   - Perform arithmetic operations on encrypted data
 ///   - Manage permissions correctly (FHE.allowThis + FHE.allow)
+/// @custom:example fhe-counter
+/// @custom:title FHE Counter
+/// @custom:category basic
+/// @custom:difficulty beginner
+/// @custom:concepts encryption, arithmetic, permissions, state-management
+/// @custom:tags counter, basic, arithmetic
+/// @custom:chapter Getting Started
+/// @custom:objectives Store encrypted values on-chain; Perform arithmetic on encrypted data;
+///   Manage FHE permissions (allowThis + allow)
 contract FHECounter is ZamaEthereumConfig {
     // ============== State Variables ==============
 
@@ -2,14 +2,23 @@
 
 pragma solidity ^0.8.24;
 
-import "fhevm/lib/TFHE.sol";
+import { FHE, ebool, euint32, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 /**
  * @title FHEEq
  * @notice Demonstrates encrypted equality comparison
  * @dev Shows how to compare encrypted values without decryption
+ * @custom:example fhe-eq
+ * @custom:title FHE Equality Comparison
+ * @custom:category basic
+ * @custom:difficulty beginner
+ * @custom:concepts comparison, fhe-eq, privacy
+ * @custom:tags comparison, equality, operations
+ * @custom:chapter Comparison Operations
+ * @custom:prerequisites fhe-counter
  */
-contract FHEEq {
+contract FHEEq is ZamaEthereumConfig {
     // Encrypted secret value
     euint32 private encryptedSecret;
     uint256 public comparisonCount;
@@ -25,7 +34,7 @@ contract FHEEq {
      * @param secretProof Zero-knowledge proof
      */
     function setSecret(externalEuint32 secretEuint32, bytes calldata secretProof) external {
-        euint32 encryptedInput = TFHE.fromExternal(secretEuint32, secretProof);
+        euint32 encryptedInput = FHE.fromExternal(secretEuint32, secretProof);
         encryptedSecret = encryptedInput;
         emit SecretSet(msg.sender);
     }
@@ -38,14 +47,14 @@ contract FHEEq {
      */
     function checkEqual(externalEuint32 guessEuint32, bytes calldata guessProof) external returns (ebool) {
         // Convert external encrypted value
-        euint32 encryptedGuess = TFHE.fromExternal(guessEuint32, guessProof);
+        euint32 encryptedGuess = FHE.fromExternal(guessEuint32, guessProof);
 
         // Perform encrypted equality comparison
-        ebool result = TFHE.eq(encryptedSecret, encryptedGuess);
+        ebool result = FHE.eq(encryptedSecret, encryptedGuess);
 
         // Grant permissions for result
-        TFHE.allowThis(result);
-        TFHE.allow(result, msg.sender);
+        FHE.allowThis(result);
+        FHE.allow(result, msg.sender);
 
         // Track operation
         comparisonCount++;
@@ -62,13 +71,13 @@ contract FHEEq {
     function compareValues(externalEuint32 value1, bytes calldata proof1,
                           externalEuint32 value2, bytes calldata proof2)
                           external returns (ebool) {
-        euint32 encryptedVal1 = TFHE.fromExternal(value1, proof1);
-        euint32 encryptedVal2 = TFHE.fromExternal(value2, proof2);
+        euint32 encryptedVal1 = FHE.fromExternal(value1, proof1);
+        euint32 encryptedVal2 = FHE.fromExternal(value2, proof2);
 
-        ebool result = TFHE.eq(encryptedVal1, encryptedVal2);
+        ebool result = FHE.eq(encryptedVal1, encryptedVal2);
 
-        TFHE.allowThis(result);
-        TFHE.allow(result, msg.sender);
+        FHE.allowThis(result);
+        FHE.allow(result, msg.sender);
 
         comparisonCount++;
 
@@ -84,9 +93,9 @@ contract FHEEq {
         results = new ebool[](values.length);
 
         for (uint256 i = 0; i < values.length; i++) {
-            results[i] = TFHE.eq(encryptedSecret, values[i]);
-            TFHE.allowThis(results[i]);
-            TFHE.allow(results[i], msg.sender);
+            results[i] = FHE.eq(encryptedSecret, values[i]);
+            FHE.allowThis(results[i]);
+            FHE.allow(results[i], msg.sender);
         }
 
         comparisonCount++;
@@ -99,8 +108,8 @@ contract FHEEq {
      */
     function getSecret() external returns (euint32) {
         euint32 value = encryptedSecret;
-        TFHE.allowThis(value);
-        TFHE.allow(value, msg.sender);
+        FHE.allowThis(value);
+        FHE.allow(value, msg.sender);
         return value;
     }
 }
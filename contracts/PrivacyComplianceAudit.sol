@@ -4,6 +4,21 @@ pragma solidity ^0.8.24;
 import { FHE, euint8, euint16, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
+/**
+ * @title PrivacyComplianceAudit
+ * @notice Privacy-preserving compliance audit system supporting GDPR, HIPAA, CCPA, SOX, PCI-DSS and ISO27001
+ * with encrypted scoring, risk assessment and access control
+ * @custom:example privacy-compliance-audit
+ * @custom:title Privacy Compliance Audit
+ * @custom:category compliance
+ * @custom:difficulty advanced
+ * @custom:concepts encryption, permissions, access-control, comparison
+ * @custom:tags compliance, audit, privacy, access-control
+ * @custom:chapter Advanced Applications
+ * @custom:prerequisites fhe-counter, fhe-eq
+ * @custom:objectives Store several encrypted fields per record;
+ * Share encrypted results with auditors and audited entities; Compare encrypted scores without revealing them
+ */
 contract PrivacyComplianceAudit is SepoliaConfig {
 
     address public owner;
@@ -9,6 +9,7 @@ import type { HardhatUserConfig } from "hardhat/config";
 import { vars } from "hardhat/config";
 import "solidity-coverage";
 
+import { SOLIDITY_CONFIG } from "./scripts/lib/compiler-settings";
 import "./tasks/accounts";
 import "./tasks/PrivacyComplianceAudit";
 
@@ -64,23 +65,7 @@ const config: HardhatUserConfig = {
     sources: "./contracts",
     tests: "./test",
   },
-  solidity: {
-    version: "0.8.27",
-    settings: {
-      metadata: {
-        // Not including the metadata hash
-        // https://github.com/paulrberg/hardhat-template/issues/31
-        bytecodeHash: "none",
-      },
-      // Disable the optimizer when debugging
-      // https://hardhat.org/hardhat-network/#solidity-optimizer-support
-      optimizer: {
-        enabled: true,
-        runs: 800,
-      },
-      evmVersion: "cancun",
-    },
-  },
+  solidity: SOLIDITY_CONFIG,
   typechain: {
     outDir: "types",
     target: "ethers-v6",
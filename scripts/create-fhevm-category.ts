@@ -3,13 +3,27 @@
 /**
  * create-fhevm-category - CLI tool to generate FHEVM projects with multiple examples from a category
  *
- * Usage: ts-node scripts/create-fhevm-category.ts <category> [output-dir]
+ * Usage: ts-node scripts/create-fhevm-category.ts <category|bundle-file> [output-dir] [--collisions <strategy>]
+ *        ts-node scripts/create-fhevm-category.ts <category|bundle-file> [output-dir] --workspace
  *
  * Example: ts-node scripts/create-fhevm-category.ts compliance ./output/compliance-examples
+ *          ts-node scripts/create-fhevm-category.ts workshop.yaml
+ *
+ * A bundle file (.yaml, .yml or .json) defines a custom category from example
+ * names, tags or a query; see lib/bundles.ts. --workspace writes an npm
+ * workspace with one standalone package per example instead; see
+ * lib/workspace.ts.
+ *
+ * The generator itself lives in lib/category.ts; this script only parses
+ * arguments and prints progress.
  */
 
-import * as fs from 'fs';
 import * as path from 'path';
+import { isBundleFile, loadBundle } from './lib/bundles';
+import { CollisionStrategy, createCategory } from './lib/category';
+import { Logger } from './lib/logger';
+import { CATEGORIES } from './lib/registry';
+import { createWorkspace } from './lib/workspace';
 
 // Color codes for terminal output
 enum Color {
@@ -39,253 +53,79 @@ function info(message: string): void {
   log(`ℹ️  ${message}`, Color.Blue);
 }
 
-// Contract item interface
-interface ContractItem {
-  path: string;
-  test: string;
-  fixture?: string;
-  additionalFiles?: string[];
-}
-
-// Category configuration interface
-interface CategoryConfig {
-  name: string;
-  description: string;
-  contracts: ContractItem[];
-  additionalDeps?: Record<string, string>;
-}
-
-// Category definitions
-const CATEGORIES: Record<string, CategoryConfig> = {
-  compliance: {
-    name: 'Privacy Compliance Examples',
-    description: 'Privacy-preserving compliance and audit systems using FHEVM',
-    contracts: [
-      { path: 'contracts/PrivacyComplianceAudit.sol', test: 'test/PrivacyComplianceAudit.test.ts' },
-    ],
-  },
-  basic: {
-    name: 'Basic FHEVM Examples',
-    description: 'Fundamental FHEVM operations including encryption, decryption, and basic FHE operations',
-    contracts: [
-      { path: 'contracts/FHECounter.sol', test: 'test/FHECounter.test.ts' },
-      { path: 'contracts/FHEAdd.sol', test: 'test/FHEAdd.test.ts' },
-      { path: 'contracts/FHEEq.sol', test: 'test/FHEEq.test.ts' },
-    ],
-  },
+const consoleLogger: Logger = {
+  step: message => log(`\n${message}`, Color.Cyan),
+  success,
+  info,
+  warn: message => log(`⚠️  Warning: ${message}`, Color.Yellow),
+  detail: message => log(`  ✓ ${message}`, Color.Green),
 };
 
-function copyDirectoryRecursive(source: string, destination: string, excludeDirs: string[] = []): void {
-  if (!fs.existsSync(destination)) {
-    fs.mkdirSync(destination, { recursive: true });
-  }
-
-  const items = fs.readdirSync(source);
-
-  items.forEach(item => {
-    const sourcePath = path.join(source, item);
-    const destPath = path.join(destination, item);
-    const stat = fs.statSync(sourcePath);
-
-    if (stat.isDirectory()) {
-      if (excludeDirs.includes(item)) {
-        return;
+// Main execution
+async function main(): Promise<void> {
+  const args: string[] = [];
+  let collisions: CollisionStrategy | undefined;
+  let workspace = false;
+  const argv = process.argv.slice(2);
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--collisions') {
+      const value = argv[++i];
+      if (value !== 'fail' && value !== 'namespace') {
+        error('--collisions must be fail or namespace');
       }
-      copyDirectoryRecursive(sourcePath, destPath, excludeDirs);
+      collisions = value;
+    } else if (argv[i] === '--workspace') {
+      workspace = true;
     } else {
-      fs.copyFileSync(sourcePath, destPath);
+      args.push(argv[i]);
     }
-  });
-}
-
-function getContractName(contractPath: string): string | null {
-  const content = fs.readFileSync(contractPath, 'utf-8');
-  const match = content.match(/^\s*contract\s+(\w+)(?:\s+is\s+|\s*\{)/m);
-  return match ? match[1] : null;
-}
-
-function generateCategoryReadme(category: CategoryConfig, contractNames: string[]): string {
-  return `# ${category.name}
-
-${category.description}
-
-## Included Examples
-
-${contractNames.map(name => `- **${name}**: See \`contracts/${name}.sol\``).join('\n')}
-
-## Quick Start
-
-### Prerequisites
-
-- **Node.js**: Version 20 or higher
-- **npm**: Package manager
-
-### Installation
-
-1. **Install dependencies**
-
-   \`\`\`bash
-   npm install
-   \`\`\`
-
-2. **Set up environment variables**
-
-   \`\`\`bash
-   npx hardhat vars set MNEMONIC
-   npx hardhat vars set INFURA_API_KEY
-   # Optional: Set Etherscan API key for contract verification
-   npx hardhat vars set ETHERSCAN_API_KEY
-   \`\`\`
-
-3. **Compile and test**
-
-   \`\`\`bash
-   npm run compile
-   npm run test
-   \`\`\`
-
-## Testing
-
-Run all tests:
-
-\`\`\`bash
-npm run test
-\`\`\`
-
-For Sepolia testnet testing:
-
-\`\`\`bash
-npm run test:sepolia
-\`\`\`
-
-## Deployment
-
-Deploy to local network:
-
-\`\`\`bash
-npx hardhat node
-npx hardhat deploy --network localhost
-\`\`\`
-
-Deploy to Sepolia:
-
-\`\`\`bash
-npx hardhat deploy --network sepolia
-npx hardhat verify --network sepolia <CONTRACT_ADDRESS>
-\`\`\`
-
-## Documentation
-
-- [FHEVM Documentation](https://docs.zama.ai/fhevm)
-- [FHEVM Examples](https://docs.zama.org/protocol/examples)
-- [FHEVM Hardhat Plugin](https://docs.zama.ai/protocol/solidity-guides/development-guide/hardhat)
-
-## License
-
-This project is licensed under the BSD-3-Clause-Clear License.
-
----
-
-**Built with FHEVM by Zama**
-`;
-}
-
-function createCategory(categoryName: string, outputDir: string): void {
-  const rootDir = process.cwd();
-
-  // Check if category exists
-  if (!CATEGORIES[categoryName]) {
-    error(`Unknown category: ${categoryName}\n\nAvailable categories:\n${Object.keys(CATEGORIES).map(k => `  - ${k}: ${CATEGORIES[k].name}`).join('\n')}`);
   }
 
-  const category = CATEGORIES[categoryName];
-
-  info(`Creating FHEVM category: ${categoryName}`);
-  info(`Output directory: ${outputDir}`);
-
-  // Step 1: Create output directory
-  log('\n📋 Step 1: Creating project structure...', Color.Cyan);
-  if (fs.existsSync(outputDir)) {
-    error(`Output directory already exists: ${outputDir}`);
+  if (args.length === 0 || args[0] === '--help' || args[0] === '-h') {
+    log('FHEVM Category Generator', Color.Cyan);
+    log('\nUsage: ts-node scripts/create-fhevm-category.ts <category|bundle-file> [output-dir] [options]\n');
+    log('Options:', Color.Yellow);
+    log('  --collisions <strategy>  Examples sharing a file or contract name: fail (default) or namespace');
+    log('  --workspace              Write an npm workspace with one standalone package per example\n');
+    log('Available categories:', Color.Yellow);
+    Object.entries(CATEGORIES).forEach(([name, info]) => {
+      log(`  ${name}`, Color.Green);
+      log(`    ${info.description}`, Color.Reset);
+      log(`    Contracts: ${info.examples.length}`, Color.Reset);
+    });
+    log('\nBundle files (.yaml, .yml, .json) pick examples by name, tag or query:', Color.Yellow);
+    log('  name: decryption-deep-dive');
+    log('  examples: [fhe-counter]');
+    log('  tags: [decryption]');
+    log('  query: difficulty=beginner AND concept=permissions');
+    log('\nExamples:', Color.Yellow);
+    log('  ts-node scripts/create-fhevm-category.ts compliance ./output/compliance-examples');
+    log('  ts-node scripts/create-fhevm-category.ts workshop.yaml');
+    log('  ts-node scripts/create-fhevm-category.ts basic ./output/basic-workspace --workspace\n');
+    process.exit(0);
   }
-  fs.mkdirSync(outputDir, { recursive: true });
-  const contractsDir = path.join(outputDir, 'contracts');
-  const testDir = path.join(outputDir, 'test');
-  fs.mkdirSync(contractsDir, { recursive: true });
-  fs.mkdirSync(testDir, { recursive: true });
-  success('Project structure created');
 
-  // Step 2: Copy contracts and tests
-  log('\n📄 Step 2: Copying contracts and tests...', Color.Cyan);
-  const contractNames: string[] = [];
-
-  category.contracts.forEach((item, index) => {
-    const contractPath = path.join(rootDir, item.path);
-    const testPath = path.join(rootDir, item.test);
-
-    if (!fs.existsSync(contractPath)) {
-      log(`⚠️  Warning: Contract not found: ${item.path}`, Color.Yellow);
-      return;
-    }
-
-    const contractName = getContractName(contractPath);
-    if (!contractName) {
-      log(`⚠️  Warning: Could not extract contract name from ${item.path}`, Color.Yellow);
-      return;
-    }
-
-    contractNames.push(contractName);
-
-    // Copy contract
-    const destContractPath = path.join(contractsDir, `${contractName}.sol`);
-    fs.copyFileSync(contractPath, destContractPath);
-    log(`  ✓ Copied contract: ${contractName}.sol`, Color.Green);
-
-    // Copy test if exists
-    if (fs.existsSync(testPath)) {
-      const destTestPath = path.join(testDir, path.basename(testPath));
-      fs.copyFileSync(testPath, destTestPath);
-      log(`  ✓ Copied test: ${path.basename(testPath)}`, Color.Green);
-    }
-
-    // Copy fixture if exists
-    if (item.fixture) {
-      const fixturePath = path.join(rootDir, item.fixture);
-      if (fs.existsSync(fixturePath)) {
-        const destFixturePath = path.join(testDir, path.basename(item.fixture));
-        fs.copyFileSync(fixturePath, destFixturePath);
-        log(`  ✓ Copied fixture: ${path.basename(item.fixture)}`, Color.Green);
-      }
-    }
-
-    // Copy additional files if any
-    if (item.additionalFiles) {
-      item.additionalFiles.forEach(filePath => {
-        const additionalFilePath = path.join(rootDir, filePath);
-        if (fs.existsSync(additionalFilePath)) {
-          const destAdditionalPath = path.join(testDir, path.basename(filePath));
-          fs.copyFileSync(additionalFilePath, destAdditionalPath);
-          log(`  ✓ Copied additional file: ${path.basename(filePath)}`, Color.Green);
-        }
-      });
-    }
-  });
-
-  success(`Copied ${contractNames.length} contracts and tests`);
+  const category = isBundleFile(args[0]) ? loadBundle(args[0]) : args[0];
+  const categoryName = typeof category === 'string' ? category : category.name;
+  const outputDir = args[1] || path.join(process.cwd(), 'output', `fhevm-category-${categoryName}`);
 
-  // Step 3: Generate README
-  log('\n📝 Step 3: Generating README...', Color.Cyan);
-  const readme = generateCategoryReadme(category, contractNames);
-  fs.writeFileSync(path.join(outputDir, 'README.md'), readme);
-  success('README.md generated');
+  if (typeof category !== 'string') {
+    info(`Bundle ${categoryName}: ${category.examples.join(', ')}`);
+  }
+  if (workspace && collisions) {
+    error('--collisions does not apply to --workspace, where every example has its own package');
+  }
+  const result = workspace
+    ? await createWorkspace(category, outputDir, { logger: consoleLogger })
+    : createCategory(category, outputDir, { logger: consoleLogger, collisions });
 
   // Final summary
   log('\n' + '='.repeat(60), Color.Green);
-  success(`FHEVM category "${categoryName}" created successfully!`);
+  success(`FHEVM ${workspace ? 'workspace' : 'category'} "${categoryName}" created successfully!`);
   log('='.repeat(60), Color.Green);
 
   log('\n📦 Next steps:', Color.Yellow);
-  log(`  cd ${path.relative(process.cwd(), outputDir)}`);
+  log(`  cd ${path.relative(process.cwd(), result.outputPath)}`);
   log('  npm install');
   log('  npm run compile');
   log('  npm run test');
@@ -293,28 +133,6 @@ function createCategory(categoryName: string, outputDir: string): void {
   log('\n🎉 Happy coding with FHEVM!', Color.Cyan);
 }
 
-// Main execution
-function main(): void {
-  const args = process.argv.slice(2);
-
-  if (args.length === 0 || args[0] === '--help' || args[0] === '-h') {
-    log('FHEVM Category Generator', Color.Cyan);
-    log('\nUsage: ts-node scripts/create-fhevm-category.ts <category> [output-dir]\n');
-    log('Available categories:', Color.Yellow);
-    Object.entries(CATEGORIES).forEach(([name, info]) => {
-      log(`  ${name}`, Color.Green);
-      log(`    ${info.description}`, Color.Reset);
-      log(`    Contracts: ${info.contracts.length}`, Color.Reset);
-    });
-    log('\nExample:', Color.Yellow);
-    log('  ts-node scripts/create-fhevm-category.ts compliance ./output/compliance-examples\n');
-    process.exit(0);
-  }
-
-  const categoryName = args[0];
-  const outputDir = args[1] || path.join(process.cwd(), 'output', `fhevm-category-${categoryName}`);
-
-  createCategory(categoryName, outputDir);
+if (require.main === module) {
+  main().catch(err => error(err instanceof Error ? err.message : String(err)));
 }
-
-main();
@@ -3,13 +3,35 @@
 /**
  * create-fhevm-example - CLI tool to generate standalone FHEVM example repositories
  *
- * Usage: ts-node scripts/create-fhevm-example.ts <example-name> [output-dir]
+ * Usage: ts-node scripts/create-fhevm-example.ts <example-name> [output-dir] [--update] [--verify [--offline] [--npm-cache <dir>]]
+ *        ts-node scripts/create-fhevm-example.ts --all | --category <name> [output-root] [--verify [--concurrency <n>]]
  *
  * Example: ts-node scripts/create-fhevm-example.ts privacy-compliance-audit ./my-example
+ *
+ * With --verify the generated repo is installed from the npm cache, compiled and
+ * tested before the script reports success.
+ *
+ * --update refreshes an existing output: the files recorded in its manifest at
+ * generation time are three-way merged with the user's copy and the new output.
+ *
+ * --all / --category generate every matching example into its own folder under
+ * the output root, keep going past failures, and finish with a summary table
+ * and a JSON report. Writing the files is synchronous, so --concurrency only
+ * overlaps the --verify installs, compiles and test runs.
+ *
+ * The generator itself lives in lib/example.ts; this script only parses
+ * arguments and prints progress.
  */
 
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
+import { formatBatchTable, runBatch } from './lib/batch';
+import { createExample, CreateExampleOptions, CreateExampleResult } from './lib/example';
+import { Logger } from './lib/logger';
+import { EXAMPLES_MAP, getCategory, getExamplesByCategory } from './lib/registry';
+import { UpdateReport } from './lib/update';
+import { formatCompileError, VerificationResult } from './lib/verify';
 
 // Color codes for terminal output
 enum Color {
@@ -38,274 +60,65 @@ function info(message: string): void {
   log(`ℹ️  ${message}`, Color.Blue);
 }
 
-// Example configuration interface
-interface ExampleConfig {
-  contract: string;
-  test: string;
-  description: string;
-}
-
-// Map of example names to their contract and test paths
-const EXAMPLES_MAP: Record<string, ExampleConfig> = {
-  'privacy-compliance-audit': {
-    contract: 'contracts/PrivacyComplianceAudit.sol',
-    test: 'test/PrivacyComplianceAudit.test.ts',
-    description: 'Privacy-preserving compliance audit system with encrypted scoring and risk assessment',
-  },
-  'fhe-counter': {
-    contract: 'contracts/FHECounter.sol',
-    test: 'test/FHECounter.test.ts',
-    description: 'A simple FHE counter demonstrating basic encrypted operations',
-  },
-  'fhe-add': {
-    contract: 'contracts/FHEAdd.sol',
-    test: 'test/FHEAdd.test.ts',
-    description: 'Demonstrates FHE addition operations',
-  },
-  'fhe-eq': {
-    contract: 'contracts/FHEEq.sol',
-    test: 'test/FHEEq.test.ts',
-    description: 'Demonstrates FHE equality comparison operations',
-  },
+const consoleLogger: Logger = {
+  step: message => log(`\n${message}`, Color.Cyan),
+  success,
+  info,
+  warn: message => log(`⚠️  Warning: ${message}`, Color.Yellow),
+  detail: message => log(`  ✓ ${message}`, Color.Green),
 };
 
-function copyDirectoryRecursive(source: string, destination: string): void {
-  if (!fs.existsSync(destination)) {
-    fs.mkdirSync(destination, { recursive: true });
-  }
-
-  const items = fs.readdirSync(source);
+// File written to the output root after a batch run
+const BATCH_REPORT_FILE = 'batch-report.json';
 
-  items.forEach(item => {
-    const sourcePath = path.join(source, item);
-    const destPath = path.join(destination, item);
-    const stat = fs.statSync(sourcePath);
-
-    if (stat.isDirectory()) {
-      // Skip node_modules, artifacts, cache, etc.
-      if (['node_modules', 'artifacts', 'cache', 'coverage', 'types', 'dist'].includes(item)) {
-        return;
-      }
-      copyDirectoryRecursive(sourcePath, destPath);
-    } else {
-      fs.copyFileSync(sourcePath, destPath);
-    }
-  });
+function logCheck(passed: boolean, message: string): void {
+  log(`  ${passed ? '✓' : '✗'} ${message}`, passed ? Color.Green : Color.Red);
 }
 
-function getContractName(contractPath: string): string | null {
-  const content = fs.readFileSync(contractPath, 'utf-8');
-  const match = content.match(/^\s*contract\s+(\w+)(?:\s+is\s+|\s*\{)/m);
-  return match ? match[1] : null;
+function reportUpdate(update: UpdateReport): void {
+  const groups: [string, string[], Color][] = [
+    ['Added', update.added, Color.Green],
+    ['Updated', update.updated, Color.Green],
+    ['Merged', update.merged, Color.Green],
+    ['Removed', update.removed, Color.Green],
+    ['Kept local changes', update.kept, Color.Reset],
+    ['Conflicts', update.conflicts, Color.Red],
+  ];
+  groups
+    .filter(([, files]) => files.length > 0)
+    .forEach(([label, files, color]) => log(`  ${label}: ${files.join(', ')}`, color));
 }
 
-function updateDeployScript(outputDir: string, contractName: string): void {
-  const deployDir = path.join(outputDir, 'deploy');
-  if (!fs.existsSync(deployDir)) {
-    fs.mkdirSync(deployDir, { recursive: true });
+function reportVerification(verification: VerificationResult): void {
+  logCheck(verification.installed, 'Dependencies installed');
+  logCheck(verification.compiled, 'Contracts compiled');
+  verification.compileErrors.forEach(compileError => log(`    ${formatCompileError(compileError)}`, Color.Red));
+  if (verification.compiled) {
+    const { passed, failed, pending } = verification.tests;
+    logCheck(failed === 0, `Tests: ${passed} passing, ${failed} failing, ${pending} pending`);
   }
-
-  const deployScriptPath = path.join(deployDir, 'deploy.ts');
-
-  const deployScript = `import { DeployFunction } from "hardhat-deploy/types";
-import { HardhatRuntimeEnvironment } from "hardhat/types";
-
-const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
-  const { deployer } = await hre.getNamedAccounts();
-  const { deploy } = hre.deployments;
-
-  const deployed${contractName} = await deploy("${contractName}", {
-    from: deployer,
-    log: true,
-  });
-
-  console.log(\`${contractName} contract: \`, deployed${contractName}.address);
-};
-export default func;
-func.id = "deploy_${contractName.toLowerCase()}";
-func.tags = ["${contractName}"];
-`;
-
-  fs.writeFileSync(deployScriptPath, deployScript);
+  verification.testFailures.forEach(failure => log(`    ${failure.title}: ${failure.message}`, Color.Red));
+  verification.errors.forEach(message => log(`    ${message}`, Color.Red));
 }
 
-function updatePackageJson(outputDir: string, exampleName: string, description: string): void {
-  const packageJsonPath = path.join(outputDir, 'package.json');
-
-  if (!fs.existsSync(packageJsonPath)) {
-    const packageJson = {
-      name: `fhevm-example-${exampleName}`,
-      description: description,
-      version: "1.0.0",
-      homepage: `https://github.com/fhevm-examples/${exampleName}`,
-    };
-    fs.writeFileSync(packageJsonPath, JSON.stringify(packageJson, null, 2));
-  } else {
-    const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
-    packageJson.name = `fhevm-example-${exampleName}`;
-    packageJson.description = description;
-    packageJson.homepage = `https://github.com/fhevm-examples/${exampleName}`;
-    fs.writeFileSync(packageJsonPath, JSON.stringify(packageJson, null, 2));
+function reportResult(exampleName: string, result: CreateExampleResult): void {
+  if (result.update) {
+    reportUpdate(result.update);
   }
-}
-
-function generateReadme(exampleName: string, description: string, contractName: string): string {
-  return `# FHEVM Example: ${exampleName}
-
-${description}
-
-## Quick Start
-
-### Prerequisites
-
-- **Node.js**: Version 20 or higher
-- **npm**: Package manager
-
-### Installation
-
-1. **Install dependencies**
-
-   \`\`\`bash
-   npm install
-   \`\`\`
-
-2. **Set up environment variables**
-
-   \`\`\`bash
-   npx hardhat vars set MNEMONIC
-   npx hardhat vars set INFURA_API_KEY
-   # Optional: Set Etherscan API key for contract verification
-   npx hardhat vars set ETHERSCAN_API_KEY
-   \`\`\`
-
-3. **Compile and test**
-
-   \`\`\`bash
-   npm run compile
-   npm run test
-   \`\`\`
-
-## Contract
-
-The main contract is \`${contractName}\` located in \`contracts/${contractName}.sol\`.
-
-## Testing
-
-Run the test suite:
-
-\`\`\`bash
-npm run test
-\`\`\`
-
-For Sepolia testnet testing:
-
-\`\`\`bash
-npm run test:sepolia
-\`\`\`
-
-## Deployment
-
-Deploy to local network:
-
-\`\`\`bash
-npx hardhat node
-npx hardhat deploy --network localhost
-\`\`\`
-
-Deploy to Sepolia:
-
-\`\`\`bash
-npx hardhat deploy --network sepolia
-npx hardhat verify --network sepolia <CONTRACT_ADDRESS>
-\`\`\`
-
-## Documentation
-
-- [FHEVM Documentation](https://docs.zama.ai/fhevm)
-- [FHEVM Examples](https://docs.zama.org/protocol/examples)
-- [FHEVM Hardhat Plugin](https://docs.zama.ai/protocol/solidity-guides/development-guide/hardhat)
-
-## License
-
-This project is licensed under the BSD-3-Clause-Clear License.
-
----
-
-**Built with FHEVM by Zama**
-`;
-}
-
-function createExample(exampleName: string, outputDir: string): void {
-  const rootDir = process.cwd();
-
-  // Check if example exists
-  if (!EXAMPLES_MAP[exampleName]) {
-    error(`Unknown example: ${exampleName}\n\nAvailable examples:\n${Object.keys(EXAMPLES_MAP).map(k => `  - ${k}`).join('\n')}`);
-  }
-
-  const example = EXAMPLES_MAP[exampleName];
-  const contractPath = path.join(rootDir, example.contract);
-  const testPath = path.join(rootDir, example.test);
-
-  // Validate paths exist
-  if (!fs.existsSync(contractPath)) {
-    error(`Contract not found: ${example.contract}`);
-  }
-  if (!fs.existsSync(testPath)) {
-    error(`Test not found: ${example.test}`);
+  if (result.verification) {
+    reportVerification(result.verification);
   }
-
-  info(`Creating FHEVM example: ${exampleName}`);
-  info(`Output directory: ${outputDir}`);
-
-  // Step 1: Create output directory
-  log('\n📋 Step 1: Creating project structure...', Color.Cyan);
-  if (fs.existsSync(outputDir)) {
-    error(`Output directory already exists: ${outputDir}`);
+  if (!result.success) {
+    error(result.message);
   }
-  fs.mkdirSync(outputDir, { recursive: true });
-  success('Project structure created');
-
-  // Step 2: Copy contract
-  log('\n📄 Step 2: Copying contract...', Color.Cyan);
-  const contractName = getContractName(contractPath);
-  if (!contractName) {
-    error('Could not extract contract name from contract file');
-  }
-
-  const contractsDir = path.join(outputDir, 'contracts');
-  fs.mkdirSync(contractsDir, { recursive: true });
-  const destContractPath = path.join(contractsDir, `${contractName}.sol`);
-  fs.copyFileSync(contractPath, destContractPath);
-  success(`Contract copied: ${contractName}.sol`);
-
-  // Step 3: Copy test
-  log('\n🧪 Step 3: Copying test...', Color.Cyan);
-  const testDir = path.join(outputDir, 'test');
-  fs.mkdirSync(testDir, { recursive: true });
-  const destTestPath = path.join(testDir, path.basename(testPath));
-  fs.copyFileSync(testPath, destTestPath);
-  success(`Test copied: ${path.basename(testPath)}`);
-
-  // Step 4: Update configuration files
-  log('\n⚙️  Step 4: Updating configuration...', Color.Cyan);
-  updateDeployScript(outputDir, contractName);
-  updatePackageJson(outputDir, exampleName, example.description);
-  success('Configuration updated');
-
-  // Step 5: Generate README
-  log('\n📝 Step 5: Generating README...', Color.Cyan);
-  const readme = generateReadme(exampleName, example.description, contractName);
-  fs.writeFileSync(path.join(outputDir, 'README.md'), readme);
-  success('README.md generated');
 
   // Final summary
   log('\n' + '='.repeat(60), Color.Green);
-  success(`FHEVM example "${exampleName}" created successfully!`);
+  success(`FHEVM example "${exampleName}" ${result.update ? 'updated' : 'created'} successfully!`);
   log('='.repeat(60), Color.Green);
 
   log('\n📦 Next steps:', Color.Yellow);
-  log(`  cd ${path.relative(process.cwd(), outputDir)}`);
+  log(`  cd ${path.relative(process.cwd(), result.outputPath)}`);
   log('  npm install');
   log('  npm run compile');
   log('  npm run test');
@@ -313,13 +126,85 @@ function createExample(exampleName: string, outputDir: string): void {
   log('\n🎉 Happy coding with FHEVM!', Color.Cyan);
 }
 
+async function createBatch(
+  exampleNames: string[],
+  outputRoot: string,
+  concurrency: number,
+  options: CreateExampleOptions,
+): Promise<boolean> {
+  info(`Generating ${exampleNames.length} examples into ${outputRoot} (concurrency ${concurrency})`);
+
+  // Batch runs interleave, so only one line per example is printed
+  const report = await runBatch(
+    exampleNames,
+    concurrency,
+    async name => {
+      const result = await createExample(name, path.join(outputRoot, `fhevm-example-${name}`), options);
+      return { success: result.success, outputPath: result.outputPath, errors: result.errors };
+    },
+    result => logCheck(result.success, result.name),
+  );
+
+  fs.mkdirSync(outputRoot, { recursive: true });
+  const reportPath = path.join(outputRoot, BATCH_REPORT_FILE);
+  fs.writeFileSync(reportPath, JSON.stringify(report, null, 2) + '\n');
+
+  log('\n' + formatBatchTable(report));
+  log(`\n${report.succeeded}/${report.total} examples generated`, report.failed === 0 ? Color.Green : Color.Red);
+  info(`JSON report: ${reportPath}`);
+
+  return report.failed === 0;
+}
+
 // Main execution
-function main(): void {
+async function main(): Promise<void> {
   const args = process.argv.slice(2);
+  const options: CreateExampleOptions = {};
+  const positional: string[] = [];
+  let batch: { all: boolean; category?: string } | null = null;
+  let concurrency = os.cpus().length;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--all') {
+      batch = { all: true };
+    } else if (args[i] === '--category') {
+      batch = { all: false, category: args[++i] };
+      if (!batch.category) {
+        error('--category requires a category name');
+      }
+    } else if (args[i] === '--concurrency') {
+      concurrency = Number(args[++i]);
+      if (!Number.isInteger(concurrency) || concurrency < 1) {
+        error('--concurrency requires a positive integer');
+      }
+    } else if (args[i] === '--update') {
+      options.update = true;
+    } else if (args[i] === '--verify') {
+      options.verify = true;
+    } else if (args[i] === '--offline') {
+      options.offline = true;
+    } else if (args[i] === '--npm-cache') {
+      options.npmCache = args[++i];
+      if (!options.npmCache) {
+        error('--npm-cache requires a directory');
+      }
+    } else {
+      positional.push(args[i]);
+    }
+  }
 
-  if (args.length === 0 || args[0] === '--help' || args[0] === '-h') {
+  if ((positional.length === 0 && !batch) || positional[0] === '--help' || positional[0] === '-h') {
     log('FHEVM Example Generator', Color.Cyan);
-    log('\nUsage: ts-node scripts/create-fhevm-example.ts <example-name> [output-dir]\n');
+    log('\nUsage: ts-node scripts/create-fhevm-example.ts <example-name> [output-dir] [options]');
+    log('       ts-node scripts/create-fhevm-example.ts --all | --category <name> [output-root] [options]\n');
+    log('Options:', Color.Yellow);
+    log('  --all               Generate every registered example');
+    log('  --category <name>   Generate every example of a category');
+    log('  --concurrency <n>   With --verify, batch repos verified at once (default: CPU count)');
+    log('  --update            Refresh an existing output, merging in local edits');
+    log('  --verify            Install, compile and test the generated repo');
+    log('  --offline           With --verify, install from the npm cache only');
+    log('  --npm-cache <dir>   With --verify, npm cache or offline mirror to install from\n');
     log('Available examples:', Color.Yellow);
     Object.entries(EXAMPLES_MAP).forEach(([name, info]) => {
       log(`  ${name}`, Color.Green);
@@ -330,10 +215,26 @@ function main(): void {
     process.exit(0);
   }
 
-  const exampleName = args[0];
-  const outputDir = args[1] || path.join(process.cwd(), 'output', `fhevm-example-${exampleName}`);
+  if (batch) {
+    let exampleNames = Object.keys(EXAMPLES_MAP);
+    if (batch.category) {
+      if (!getCategory(batch.category)) {
+        error(`Unknown category: ${batch.category}`);
+      }
+      exampleNames = getExamplesByCategory(batch.category).map(example => example.name);
+    }
+    const outputRoot = path.resolve(positional[0] || path.join(process.cwd(), 'output'));
+    const allSucceeded = await createBatch(exampleNames, outputRoot, concurrency, options);
+    process.exit(allSucceeded ? 0 : 1);
+  }
 
-  createExample(exampleName, outputDir);
+  const exampleName = positional[0];
+  const outputDir = path.resolve(positional[1] || path.join(process.cwd(), 'output', `fhevm-example-${exampleName}`));
+
+  const result = await createExample(exampleName, outputDir, { ...options, logger: consoleLogger });
+  reportResult(exampleName, result);
 }
 
-main();
+if (require.main === module) {
+  main().catch(err => error(err instanceof Error ? err.message : String(err)));
+}
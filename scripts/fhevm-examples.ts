@@ -0,0 +1,508 @@
+#!/usr/bin/env ts-node
+
+/**
+ * fhevm-examples - Single CLI for generating, documenting and browsing the FHEVM examples
+ *
+ * Usage: fhevm-examples <command> [options]
+ *
+ * Commands: create, category, docs, list, search, validate, completion.
+ * Every command accepts --json (machine-readable result only) and --quiet
+ * (errors and the final result only); generators accept --out and --force.
+ *
+ * Example: fhevm-examples create fhe-counter --out ./my-counter --verify
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { formatBatchTable, runBatch } from './lib/batch';
+import {
+  CommandSpec,
+  completionScript,
+  formatCommandHelp,
+  formatHelp,
+  getCommand,
+  ParsedArgs,
+  parseArgs,
+  UsageError,
+} from './lib/cli';
+import { discoverExamples } from './lib/discovery';
+import type * as API from './lib';
+
+// Color codes for terminal output
+enum Color {
+  Reset = '\x1b[0m',
+  Green = '\x1b[32m',
+  Blue = '\x1b[34m',
+  Yellow = '\x1b[33m',
+  Red = '\x1b[31m',
+  Cyan = '\x1b[36m',
+}
+
+const BINARY = 'fhevm-examples';
+const DIFFICULTIES: API.Difficulty[] = ['beginner', 'intermediate', 'advanced'];
+const COLLISION_STRATEGIES: API.CollisionStrategy[] = ['fail', 'namespace'];
+
+// Set from --json / --quiet before a command runs
+let jsonOutput = false;
+let quiet = false;
+
+function log(message: string, color: Color = Color.Reset): void {
+  if (!jsonOutput) {
+    console.log(`${color}${message}${Color.Reset}`);
+  }
+}
+
+function error(message: string, exitCode = 1): never {
+  if (jsonOutput) {
+    console.log(JSON.stringify({ error: message }, null, 2));
+  } else {
+    console.error(`${Color.Red}❌ Error: ${message}${Color.Reset}`);
+  }
+  process.exit(exitCode);
+}
+
+function success(message: string): void {
+  log(`✅ ${message}`, Color.Green);
+}
+
+function info(message: string): void {
+  log(`ℹ️  ${message}`, Color.Blue);
+}
+
+function warn(message: string): void {
+  log(`⚠️  Warning: ${message}`, Color.Yellow);
+}
+
+function printJson(value: unknown): void {
+  console.log(JSON.stringify(value, null, 2));
+}
+
+function createLogger(api: typeof API): API.Logger {
+  if (jsonOutput || quiet) {
+    return api.silentLogger;
+  }
+  return {
+    step: message => log(`\n${message}`, Color.Cyan),
+    success,
+    info,
+    warn,
+    detail: message => log(`  ✓ ${message}`, Color.Green),
+  };
+}
+
+// The registry validates itself on load, so it is imported only once a command needs it
+async function loadApi(): Promise<typeof API> {
+  return import('./lib');
+}
+
+function stringFlag(args: ParsedArgs, name: string): string | undefined {
+  const value = args.flags[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function parseDifficulty(value: string | undefined): API.Difficulty | undefined {
+  if (value !== undefined && !DIFFICULTIES.includes(value as API.Difficulty)) {
+    throw new UsageError(`--difficulty must be one of: ${DIFFICULTIES.join(', ')}`);
+  }
+  return value as API.Difficulty | undefined;
+}
+
+function parseCollisions(value: string | undefined): API.CollisionStrategy | undefined {
+  if (value !== undefined && !COLLISION_STRATEGIES.includes(value as API.CollisionStrategy)) {
+    throw new UsageError(`--collisions must be one of: ${COLLISION_STRATEGIES.join(', ')}`);
+  }
+  return value as API.CollisionStrategy | undefined;
+}
+
+// --force clears the output before generating into it
+function prepareOutput(outputDir: string, force: boolean): void {
+  if (force && fs.existsSync(outputDir)) {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  }
+}
+
+function printExampleTable(examples: API.ExampleConfig[]): void {
+  if (examples.length === 0) {
+    log('No examples found', Color.Yellow);
+    return;
+  }
+  const width = Math.max(...examples.map(example => example.name.length));
+  examples.forEach(example => {
+    const columns = [example.name.padEnd(width), example.difficulty.padEnd(12), example.category.padEnd(12)];
+    log(`  ${columns.join('  ')}  ${example.title}`);
+  });
+}
+
+// ============== COMMANDS ==============
+
+async function runCreate(args: ParsedArgs): Promise<boolean> {
+  const api = await loadApi();
+  const force = args.flags.force === true;
+  const update = args.flags.update === true;
+  if (force && update) {
+    throw new UsageError('--force and --update cannot be combined');
+  }
+
+  const options: API.CreateExampleOptions = {
+    update,
+    verify: args.flags.verify === true,
+    offline: args.flags.offline === true,
+    npmCache: stringFlag(args, 'npm-cache'),
+  };
+
+  const category = stringFlag(args, 'category');
+  let names = args.positional;
+  if (args.flags.all) {
+    names = Object.keys(api.EXAMPLES_MAP);
+  } else if (category) {
+    if (!api.getCategory(category)) {
+      throw new api.UnknownCategoryError(category, Object.keys(api.CATEGORIES));
+    }
+    names = api.getExamplesByCategory(category).map(example => example.name);
+  }
+  if (names.length === 0) {
+    throw new UsageError('Name an example, or pass --all or --category <name>');
+  }
+
+  // A single named example goes straight into --out
+  if (names.length === 1 && !args.flags.all && !category) {
+    const outputDir = path.resolve(stringFlag(args, 'out') || path.join('output', `fhevm-example-${names[0]}`));
+    prepareOutput(outputDir, force);
+    const result = await api.createExample(names[0], outputDir, { ...options, logger: createLogger(api) });
+
+    if (jsonOutput) {
+      printJson(result);
+    } else if (result.success) {
+      success(result.message);
+      info(`Output: ${result.outputPath}`);
+    } else {
+      result.errors.forEach(message => log(`  ${message}`, Color.Red));
+      log(`❌ ${result.message}`, Color.Red);
+    }
+    return result.success;
+  }
+
+  const concurrency = Number(stringFlag(args, 'concurrency') || os.cpus().length);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new UsageError('--concurrency requires a positive integer');
+  }
+
+  const outputRoot = path.resolve(stringFlag(args, 'out') || 'output');
+  if (!quiet) {
+    info(`Generating ${names.length} examples into ${outputRoot} (concurrency ${concurrency})`);
+  }
+  const report = await runBatch(
+    names,
+    concurrency,
+    async name => {
+      const outputDir = path.join(outputRoot, `fhevm-example-${name}`);
+      prepareOutput(outputDir, force);
+      const result = await api.createExample(name, outputDir, options);
+      return { success: result.success, outputPath: result.outputPath, errors: result.errors };
+    },
+    result => {
+      if (!quiet) {
+        log(`  ${result.success ? '✓' : '✗'} ${result.name}`, result.success ? Color.Green : Color.Red);
+      }
+    },
+  );
+
+  fs.mkdirSync(outputRoot, { recursive: true });
+  const reportPath = path.join(outputRoot, 'batch-report.json');
+  fs.writeFileSync(reportPath, JSON.stringify(report, null, 2) + '\n');
+
+  if (jsonOutput) {
+    printJson(report);
+  } else {
+    log('\n' + formatBatchTable(report));
+    log(`\n${report.succeeded}/${report.total} examples generated`, report.failed === 0 ? Color.Green : Color.Red);
+    info(`JSON report: ${reportPath}`);
+  }
+  return report.failed === 0;
+}
+
+async function runCategory(args: ParsedArgs): Promise<boolean> {
+  const api = await loadApi();
+  const [argument] = args.positional;
+  if (!argument) {
+    throw new UsageError('Name a category or a bundle file');
+  }
+  const collisions = parseCollisions(stringFlag(args, 'collisions'));
+  const workspace = args.flags.workspace === true;
+  if (workspace && collisions) {
+    throw new UsageError('--collisions does not apply to --workspace');
+  }
+
+  // A .yaml, .yml or .json argument is a bundle definition rather than a category name
+  const category = api.isBundleFile(argument) ? api.loadBundle(argument) : argument;
+  const categoryName = typeof category === 'string' ? category : category.name;
+  const outputDir = path.resolve(stringFlag(args, 'out') || path.join('output', `fhevm-category-${categoryName}`));
+  prepareOutput(outputDir, args.flags.force === true);
+
+  if (workspace) {
+    const result = await api.createWorkspace(category, outputDir, { logger: createLogger(api) });
+    if (jsonOutput) {
+      printJson({
+        outputPath: result.outputPath,
+        packages: result.packages.map(pkg => ({ name: pkg.name, directory: pkg.directory })),
+        sharedDevDependencies: result.sharedDevDependencies,
+      });
+    } else {
+      success(`Workspace "${categoryName}" created with ${result.packages.length} packages`);
+      info(`Output: ${result.outputPath}`);
+    }
+    return true;
+  }
+
+  const result = api.createCategory(category, outputDir, { logger: createLogger(api), collisions });
+  if (jsonOutput) {
+    printJson(result);
+  } else {
+    success(`Category "${categoryName}" created with ${result.contracts.length} contracts`);
+    info(`Output: ${result.outputPath}`);
+  }
+  return true;
+}
+
+// One example at a time: each run installs and tests a whole generated repo.
+// A failed measurement is printed and skipped; the names of the failed examples are returned.
+async function measureCosts(api: typeof API, args: ParsedArgs, names: string[]): Promise<string[]> {
+  const options = { offline: args.flags.offline === true, npmCache: stringFlag(args, 'npm-cache') };
+  const failed: string[] = [];
+  for (const name of names) {
+    if (!quiet) {
+      info(`Measuring costs of ${name}...`);
+    }
+    try {
+      const report = await api.measureCosts(name, options);
+      if (!quiet) {
+        success(`${report.functions.length} functions measured for ${name}`);
+      }
+    } catch (err) {
+      if (!(err instanceof api.CostMeasurementError)) {
+        throw err;
+      }
+      log(`  ✗ ${err.message}`, Color.Red);
+      failed.push(name);
+    }
+  }
+  return failed;
+}
+
+async function runDocs(args: ParsedArgs): Promise<boolean> {
+  const api = await loadApi();
+  const logger = createLogger(api);
+
+  if (args.flags.costs && args.flags.check) {
+    throw new UsageError('--costs and --check cannot be combined');
+  }
+
+  if (args.flags.check) {
+    const result = api.checkDocs({ api: args.flags.api === true, format: stringFlag(args, 'format'), logger });
+    if (jsonOutput) {
+      printJson(result);
+    } else if (result.stale.length === 0) {
+      success(`All ${result.checked.length} pages are up to date`);
+    } else {
+      result.stale.filter(page => !page.missing).forEach(page => log(page.diff));
+      result.stale.filter(page => page.missing).forEach(page => log(`  ${page.path} (missing)`, Color.Red));
+      const summary = `${result.stale.length} of ${result.checked.length} pages are out of date`;
+      log(`${summary}. Run "${BINARY} docs --all" to regenerate them.`, Color.Red);
+    }
+    return result.stale.length === 0;
+  }
+
+  if (args.flags.all) {
+    const unmeasured = args.flags.costs ? await measureCosts(api, args, Object.keys(api.EXAMPLES_MAP)) : [];
+    const result = api.generateAllDocs({ api: args.flags.api === true, format: stringFlag(args, 'format'), logger });
+    if (jsonOutput) {
+      printJson(args.flags.costs ? { ...result, unmeasured } : result);
+    } else {
+      result.failed.forEach(failure => log(`  ✗ ${failure.example}: ${failure.error}`, Color.Red));
+      success(`Documentation generated for ${result.generated.length} examples`);
+      if (unmeasured.length > 0) {
+        log(`The costs of ${unmeasured.join(', ')} could not be measured`, Color.Red);
+      }
+    }
+    return result.failed.length === 0 && unmeasured.length === 0;
+  }
+
+  const [exampleName] = args.positional;
+  if (!exampleName) {
+    throw new UsageError('Name an example, or pass --all');
+  }
+  const unmeasured = args.flags.costs ? await measureCosts(api, args, [exampleName]) : [];
+  const result = api.generateDocs(exampleName, {
+    output: stringFlag(args, 'out'),
+    noSummary: args.flags['no-summary'] === true,
+    api: args.flags.api === true,
+    format: stringFlag(args, 'format'),
+    logger,
+  });
+
+  if (jsonOutput) {
+    printJson(args.flags.costs ? { ...result, unmeasured } : result);
+  } else {
+    success(`Documentation written to ${result.outputPath}`);
+    (result.apiPages || []).forEach(page => info(`API reference: ${page}`));
+  }
+  return unmeasured.length === 0;
+}
+
+async function runList(args: ParsedArgs): Promise<boolean> {
+  const api = await loadApi();
+  const category = stringFlag(args, 'category');
+  const difficulty = parseDifficulty(stringFlag(args, 'difficulty'));
+  const query = stringFlag(args, 'query');
+
+  let examples = difficulty ? api.getExamplesByDifficulty(difficulty) : Object.values(api.EXAMPLES_MAP);
+  if (query) {
+    const matching = api.selectExamples(query).map(example => example.name);
+    examples = examples.filter(example => matching.includes(example.name));
+  }
+  if (category) {
+    if (!api.getCategory(category)) {
+      throw new api.UnknownCategoryError(category, Object.keys(api.CATEGORIES));
+    }
+    examples = examples.filter(example => example.category === category);
+  }
+  examples = [...examples].sort((a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name));
+
+  if (jsonOutput) {
+    printJson(examples);
+  } else {
+    printExampleTable(examples);
+  }
+  return true;
+}
+
+async function runSearch(args: ParsedArgs): Promise<boolean> {
+  const api = await loadApi();
+  const query = args.positional.join(' ');
+  if (!query) {
+    throw new UsageError('Give a search query');
+  }
+  const difficulty = parseDifficulty(stringFlag(args, 'difficulty'));
+  const limit = Number(stringFlag(args, 'limit') || Infinity);
+  if (limit !== Infinity && (!Number.isInteger(limit) || limit < 1)) {
+    throw new UsageError('--limit requires a positive integer');
+  }
+
+  // Ranked like the static site, over the same catalog
+  const examples = api
+    .searchCatalog(api.buildCatalog(), query)
+    .map(result => api.EXAMPLES_MAP[result.example.name])
+    .filter(example => !difficulty || example.difficulty === difficulty)
+    .slice(0, limit);
+
+  if (jsonOutput) {
+    printJson(examples);
+  } else {
+    printExampleTable(examples);
+  }
+  return true;
+}
+
+async function runValidate(): Promise<boolean> {
+  const discovery = discoverExamples(path.resolve(__dirname, '..'));
+  let problems: string[] = [];
+  try {
+    await loadApi();
+  } catch (err) {
+    const registryProblems = (err as { problems?: string[] }).problems;
+    problems = registryProblems || [err instanceof Error ? err.message : String(err)];
+  }
+
+  if (jsonOutput) {
+    printJson({
+      valid: problems.length === 0,
+      examples: Object.keys(discovery.examples),
+      orphanedTests: discovery.orphanedTests,
+      contractsWithoutMetadata: discovery.contractsWithoutMetadata,
+      problems,
+    });
+    return problems.length === 0;
+  }
+
+  if (!quiet) {
+    Object.values(discovery.examples).forEach(example => {
+      log(`  ${example.name}`, Color.Green);
+      log(`    ${example.contractFile} ↔ ${example.testFile} (${example.category}, ${example.difficulty})`);
+    });
+    discovery.orphanedTests.forEach(file => warn(`Test is not paired with any example: ${file}`));
+    discovery.contractsWithoutMetadata.forEach(file => warn(`Contract has no @custom:example metadata: ${file}`));
+  }
+  problems.forEach(problem => log(`  ✗ ${problem}`, Color.Red));
+  if (problems.length === 0) {
+    success(`Registry is valid (${Object.keys(discovery.examples).length} examples)`);
+  }
+  return problems.length === 0;
+}
+
+async function runCompletion(args: ParsedArgs): Promise<boolean> {
+  const shell = args.positional[0] || 'bash';
+  if (shell !== 'bash' && shell !== 'zsh') {
+    throw new UsageError('Supported shells: bash, zsh');
+  }
+  const api = await loadApi();
+  process.stdout.write(
+    completionScript(BINARY, shell, {
+      examples: Object.keys(api.EXAMPLES_MAP),
+      categories: Object.keys(api.CATEGORIES),
+    }),
+  );
+  return true;
+}
+
+const HANDLERS: Record<string, (args: ParsedArgs) => Promise<boolean>> = {
+  create: runCreate,
+  category: runCategory,
+  docs: runDocs,
+  list: runList,
+  search: runSearch,
+  validate: runValidate,
+  completion: runCompletion,
+};
+
+// Main execution
+async function main(): Promise<void> {
+  const [commandName, ...rest] = process.argv.slice(2);
+
+  if (!commandName || commandName === '--help' || commandName === '-h' || commandName === 'help') {
+    console.log(formatHelp(BINARY));
+    process.exit(0);
+  }
+
+  const command: CommandSpec | undefined = getCommand(commandName);
+  if (!command) {
+    error(`Unknown command: ${commandName}\n\n${formatHelp(BINARY)}`, 2);
+  }
+
+  let args: ParsedArgs;
+  try {
+    args = parseArgs(rest, command);
+  } catch (err) {
+    error(err instanceof Error ? err.message : String(err), 2);
+  }
+  if (args.flags.help) {
+    console.log(formatCommandHelp(BINARY, command));
+    process.exit(0);
+  }
+  jsonOutput = args.flags.json === true;
+  quiet = args.flags.quiet === true;
+
+  try {
+    const ok = await HANDLERS[command.name](args);
+    process.exit(ok ? 0 : 1);
+  } catch (err) {
+    if (err instanceof UsageError) {
+      error(`${err.message}\n\n${formatCommandHelp(BINARY, command)}`, 2);
+    }
+    error(err instanceof Error ? err.message : String(err));
+  }
+}
+
+if (require.main === module) {
+  main().catch(err => error(err instanceof Error ? err.message : String(err)));
+}
@@ -1,15 +1,50 @@
 #!/usr/bin/env ts-node
 
 /**
- * generate-docs - Generates GitBook-formatted documentation from contracts and tests
+ * generate-docs - Generates documentation from contracts and tests
  *
  * Usage: ts-node scripts/generate-docs.ts <example-name> [options]
  *
  * Example: ts-node scripts/generate-docs.ts privacy-compliance-audit --output docs/
+ *
+ * Pages are GitBook markdown unless --format picks another renderer:
+ * gfm, docusaurus or html. `--check` renders every page in memory, prints a
+ * unified diff for each committed page (or SUMMARY.md) that is out of date and
+ * exits non-zero, for CI. `--costs` first runs the example's tests with gas
+ * reporting and stores the cost table's numbers in docs/costs/; an example
+ * whose costs cannot be measured is reported at the end and makes the run
+ * exit non-zero, after every other example was measured and documented.
+ *
+ * The generator itself lives in lib/docs.ts; this script only parses
+ * arguments and prints progress.
  */
 
-import * as fs from 'fs';
-import * as path from 'path';
+import { CommandSpec, ParsedArgs, parseArgs } from './lib/cli';
+import { measureCosts, MeasureCostsOptions } from './lib/costs';
+import { checkDocs, generateAllDocs, generateDocs, GenerateDocsOptions } from './lib/docs';
+import { CostMeasurementError } from './lib/errors';
+import { Logger } from './lib/logger';
+import { EXAMPLES_MAP } from './lib/registry';
+import { DOCS_FORMATS } from './lib/renderers';
+import { MANUAL_END, MANUAL_START, SUMMARY_PATH } from './lib/summary';
+
+// Options of this script, parsed like the fhevm-examples subcommands so their order does not matter
+const DOCS_COMMAND: CommandSpec = {
+  name: 'generate-docs',
+  args: '<example-name>',
+  summary: 'Generate documentation from contracts and tests',
+  flags: {
+    output: { type: 'string', value: '<path>', description: 'Specify output file path' },
+    'no-summary': { type: 'boolean', description: 'Skip updating SUMMARY.md' },
+    all: { type: 'boolean', description: 'Generate docs for all examples' },
+    check: { type: 'boolean', description: 'Diff every committed page and SUMMARY.md against a fresh render' },
+    api: { type: 'boolean', description: 'Compile the contract and write API reference pages to docs/api/' },
+    format: { type: 'string', value: '<format>', description: 'Output format' },
+    costs: { type: 'boolean', description: 'Run the tests with gas reporting first' },
+    offline: { type: 'boolean', description: 'With --costs, install from the npm cache only' },
+    'npm-cache': { type: 'string', value: '<dir>', description: 'With --costs, npm cache or mirror to use' },
+  },
+};
 
 // Color codes for terminal output
 enum Color {
@@ -38,243 +73,81 @@ function error(message: string): never {
   process.exit(1);
 }
 
-// Documentation configuration interface
-interface DocsConfig {
-  title: string;
-  description: string;
-  contract: string;
-  test: string;
-  output: string;
-  category: string;
-}
-
-// Example configurations
-const EXAMPLES_CONFIG: Record<string, DocsConfig> = {
-  'privacy-compliance-audit': {
-    title: 'Privacy Compliance Audit',
-    description: 'This example demonstrates a privacy-preserving compliance audit system using FHEVM. It supports multiple compliance standards (GDPR, HIPAA, CCPA, SOX, PCI-DSS, ISO27001) with encrypted scoring, risk assessment, and access control.',
-    contract: 'contracts/PrivacyComplianceAudit.sol',
-    test: 'test/PrivacyComplianceAudit.test.ts',
-    output: 'docs/privacy-compliance-audit.md',
-    category: 'Advanced',
-  },
-  'fhe-counter': {
-    title: 'FHE Counter',
-    description: 'This example demonstrates how to build a confidential counter using FHEVM, in comparison to a simple counter.',
-    contract: 'contracts/FHECounter.sol',
-    test: 'test/FHECounter.test.ts',
-    output: 'docs/fhe-counter.md',
-    category: 'Basic',
-  },
-  'fhe-add': {
-    title: 'FHE Add Operation',
-    description: 'This example demonstrates how to perform addition operations on encrypted values.',
-    contract: 'contracts/FHEAdd.sol',
-    test: 'test/FHEAdd.test.ts',
-    output: 'docs/fhe-add.md',
-    category: 'Basic',
-  },
-  'fhe-eq': {
-    title: 'FHE Equality Comparison',
-    description: 'This example demonstrates how to perform equality comparison operations on encrypted values.',
-    contract: 'contracts/FHEEq.sol',
-    test: 'test/FHEEq.test.ts',
-    output: 'docs/fhe-eq.md',
-    category: 'Basic',
-  },
+const consoleLogger: Logger = {
+  step: message => log(`\n${message}`, Color.Cyan),
+  success,
+  info,
+  warn: message => log(`⚠️  Warning: ${message}`, Color.Yellow),
+  detail: message => log(`  ✓ ${message}`, Color.Green),
 };
 
-function readFile(filePath: string): string {
-  const fullPath = path.join(process.cwd(), filePath);
-  if (!fs.existsSync(fullPath)) {
-    error(`File not found: ${filePath}`);
-  }
-  return fs.readFileSync(fullPath, 'utf-8');
-}
-
-function getContractName(content: string): string {
-  const match = content.match(/^\s*contract\s+(\w+)(?:\s+is\s+|\s*\{)/m);
-  return match ? match[1] : 'Contract';
-}
-
-function extractDescription(content: string): string {
-  // Extract description from first multi-line comment or @notice
-  const commentMatch = content.match(/\/\*\*\s*\n\s*\*\s*(.+?)\s*\n/);
-  const noticeMatch = content.match(/@notice\s+(.+)/);
-
-  return commentMatch ? commentMatch[1] : (noticeMatch ? noticeMatch[1] : '');
-}
-
-function generateGitBookMarkdown(config: DocsConfig, contractContent: string, testContent: string): string {
-  const contractName = getContractName(contractContent);
-  const description = config.description || extractDescription(contractContent);
-
-  let markdown = `# ${config.title}\n\n`;
-  markdown += `${description}\n\n`;
-
-  // Add hint block
-  markdown += `{% hint style="info" %}\n`;
-  markdown += `To run this example correctly, make sure the files are placed in the following directories:\n\n`;
-  markdown += `- \`.sol\` file → \`<your-project-root-dir>/contracts/\`\n`;
-  markdown += `- \`.ts\` file → \`<your-project-root-dir>/test/\`\n\n`;
-  markdown += `This ensures Hardhat can compile and test your contracts as expected.\n`;
-  markdown += `{% endhint %}\n\n`;
-
-  // Add tabs for contract and test
-  markdown += `{% tabs %}\n\n`;
-
-  // Contract tab
-  markdown += `{% tab title="${contractName}.sol" %}\n\n`;
-  markdown += `\`\`\`solidity\n`;
-  markdown += contractContent;
-  markdown += `\n\`\`\`\n\n`;
-  markdown += `{% endtab %}\n\n`;
-
-  // Test tab
-  const testFileName = path.basename(config.test);
-  markdown += `{% tab title="${testFileName}" %}\n\n`;
-  markdown += `\`\`\`typescript\n`;
-  markdown += testContent;
-  markdown += `\n\`\`\`\n\n`;
-  markdown += `{% endtab %}\n\n`;
-
-  markdown += `{% endtabs %}\n`;
-
-  return markdown;
-}
-
-function updateSummary(exampleName: string, config: DocsConfig): void {
-  const docsDir = path.join(process.cwd(), 'docs');
-  if (!fs.existsSync(docsDir)) {
-    fs.mkdirSync(docsDir, { recursive: true });
-  }
-
-  const summaryPath = path.join(docsDir, 'SUMMARY.md');
-
-  if (!fs.existsSync(summaryPath)) {
-    log('Creating new SUMMARY.md', Color.Yellow);
-    const summary = `# Summary\n\n## Table of Contents\n\n`;
-    fs.writeFileSync(summaryPath, summary);
-  }
-
-  const summary = fs.readFileSync(summaryPath, 'utf-8');
-  const outputFileName = path.basename(config.output);
-  const linkText = config.title;
-  const link = `- [${linkText}](${outputFileName})`;
-
-  // Check if already in summary
-  if (summary.includes(outputFileName)) {
-    info('Example already in SUMMARY.md');
-    return;
-  }
-
-  // Add to appropriate category
-  const categoryHeader = `## ${config.category}`;
-  let updatedSummary: string;
-
-  if (summary.includes(categoryHeader)) {
-    // Add under existing category
-    const lines = summary.split('\n');
-    const categoryIndex = lines.findIndex(line => line.includes(categoryHeader));
-    lines.splice(categoryIndex + 1, 0, link);
-    updatedSummary = lines.join('\n');
-  } else {
-    // Create new category
-    updatedSummary = summary + `\n${categoryHeader}\n\n${link}\n`;
-  }
-
-  fs.writeFileSync(summaryPath, updatedSummary);
-  success('Updated SUMMARY.md');
+function printDiff(diff: string): void {
+  diff
+    .trimEnd()
+    .split('\n')
+    .forEach(line => {
+      const color = line.startsWith('@@')
+        ? Color.Cyan
+        : line.startsWith('+')
+          ? Color.Green
+          : line.startsWith('-')
+            ? Color.Red
+            : Color.Reset;
+      log(line, color);
+    });
 }
 
-function generateDocs(exampleName: string, options: { output?: string; noSummary?: boolean } = {}): void {
-  if (!EXAMPLES_CONFIG[exampleName]) {
-    error(`Unknown example: ${exampleName}\n\nAvailable examples:\n${Object.keys(EXAMPLES_CONFIG).map(k => `  - ${k}`).join('\n')}`);
-  }
-
-  const config = EXAMPLES_CONFIG[exampleName];
-
-  info(`Generating documentation for: ${config.title}`);
-
-  // Read contract and test files
-  log('\n📖 Reading source files...', Color.Cyan);
-  const contractContent = readFile(config.contract);
-  const testContent = readFile(config.test);
-  success('Source files read');
-
-  // Generate markdown
-  log('\n📝 Generating GitBook markdown...', Color.Cyan);
-  const markdown = generateGitBookMarkdown(config, contractContent, testContent);
-  success('Markdown generated');
-
-  // Create docs directory if it doesn't exist
-  const outputPath = options.output || config.output;
-  const outputDir = path.dirname(path.join(process.cwd(), outputPath));
-
-  if (!fs.existsSync(outputDir)) {
-    fs.mkdirSync(outputDir, { recursive: true });
-  }
-
-  // Write documentation file
-  log('\n💾 Writing documentation file...', Color.Cyan);
-  fs.writeFileSync(path.join(process.cwd(), outputPath), markdown);
-  success(`Documentation written to: ${outputPath}`);
-
-  // Update SUMMARY.md
-  if (!options.noSummary) {
-    log('\n📚 Updating SUMMARY.md...', Color.Cyan);
-    updateSummary(exampleName, config);
-  }
-
-  // Final summary
-  log('\n' + '='.repeat(60), Color.Green);
-  success(`Documentation generated successfully!`);
-  log('='.repeat(60), Color.Green);
-
-  log(`\n📄 Output file: ${outputPath}`, Color.Cyan);
+function stringFlag(args: ParsedArgs, name: string): string | undefined {
+  const value = args.flags[name];
+  return typeof value === 'string' ? value : undefined;
 }
 
-function generateAllDocs(): void {
-  info('Generating documentation for all examples...\n');
-
-  const examples = Object.keys(EXAMPLES_CONFIG);
-  examples.forEach((exampleName, index) => {
-    log(`\n[${index + 1}/${examples.length}] Processing: ${exampleName}`, Color.Yellow);
-    try {
-      generateDocs(exampleName, { noSummary: true });
-    } catch (err) {
-      log(`⚠️  Warning: Failed to generate docs for ${exampleName}: ${err}`, Color.Yellow);
-    }
-  });
-
-  // Update SUMMARY.md once at the end
-  log('\n📚 Updating SUMMARY.md...', Color.Cyan);
-  examples.forEach(exampleName => {
+// Each measurement installs and tests a whole generated repo, so examples go one at a time.
+// A failed measurement does not stop the others; the failures are returned for the final report.
+async function measureAll(exampleNames: string[], options: MeasureCostsOptions): Promise<CostMeasurementError[]> {
+  const failures: CostMeasurementError[] = [];
+  for (const exampleName of exampleNames) {
+    consoleLogger.step(`⛽ Measuring costs of ${exampleName}...`);
     try {
-      updateSummary(exampleName, EXAMPLES_CONFIG[exampleName]);
+      const report = await measureCosts(exampleName, { ...options, logger: consoleLogger });
+      consoleLogger.success(`${report.functions.length} functions measured`);
     } catch (err) {
-      log(`⚠️  Warning: Failed to update SUMMARY for ${exampleName}`, Color.Yellow);
+      if (!(err instanceof CostMeasurementError)) {
+        throw err;
+      }
+      consoleLogger.warn(err.message);
+      failures.push(err);
     }
-  });
+  }
+  return failures;
+}
 
-  log('\n' + '='.repeat(60), Color.Green);
-  success(`All documentation generated successfully!`);
-  log('='.repeat(60), Color.Green);
+function reportMeasurementFailures(failures: CostMeasurementError[]): void {
+  log(`
+The costs of ${failures.length} examples could not be measured:`, Color.Red);
+  failures.forEach(failure => log(`  ${failure.exampleName}: ${failure.errors.join('; ')}`, Color.Red));
 }
 
 // Main execution
-function main(): void {
-  const args = process.argv.slice(2);
+async function main(): Promise<void> {
+  const argv = process.argv.slice(2);
+  const args = parseArgs(argv, DOCS_COMMAND);
 
-  if (args.length === 0 || args[0] === '--help' || args[0] === '-h') {
+  if (argv.length === 0 || args.flags.help) {
     log('FHEVM Documentation Generator', Color.Cyan);
     log('\nUsage: ts-node scripts/generate-docs.ts <example-name> [options]\n');
     log('Options:', Color.Yellow);
     log('  --output <path>    Specify output file path');
     log('  --no-summary       Skip updating SUMMARY.md');
     log('  --all              Generate docs for all examples');
+    log('  --check            Diff every committed page and SUMMARY.md against a fresh render (writes nothing)');
+    log('  --api              Compile the contract and write API reference pages to docs/api/');
+    log(`  --format <format>  Output format: ${DOCS_FORMATS.join(', ')} (default: gitbook)`);
+    log('  --costs            Run the tests with gas reporting first and store docs/costs/<example>.json');
+    log('  --offline          With --costs, install from the npm cache only');
+    log('  --npm-cache <dir>  With --costs, npm cache or offline mirror to install from');
     log('\nAvailable examples:', Color.Yellow);
-    Object.entries(EXAMPLES_CONFIG).forEach(([name, info]) => {
+    Object.entries(EXAMPLES_MAP).forEach(([name, info]) => {
       log(`  ${name}`, Color.Green);
       log(`    ${info.description.substring(0, 80)}...`, Color.Reset);
     });
@@ -283,24 +156,82 @@ function main(): void {
     process.exit(0);
   }
 
-  if (args[0] === '--all') {
-    generateAllDocs();
+  const format = stringFlag(args, 'format');
+  const costOptions: MeasureCostsOptions = {
+    offline: args.flags.offline === true,
+    npmCache: stringFlag(args, 'npm-cache'),
+  };
+
+  if (args.flags.check) {
+    const result = checkDocs({ api: args.flags.api === true, format });
+    // A missing page's diff is the whole page; listing it below is enough
+    result.stale.filter(page => !page.missing).forEach(page => printDiff(page.diff));
+    result.failed.forEach(failure => consoleLogger.warn(`Could not render ${failure.example}: ${failure.error}`));
+
+    if (result.stale.length > 0) {
+      log(`\n${result.stale.length} of ${result.checked.length} pages are out of date:`, Color.Red);
+      result.stale.forEach(page => log(`  ${page.path}${page.missing ? ' (missing)' : ''}`, Color.Red));
+      log('Run "npm run generate-docs -- --all" to regenerate them.', Color.Yellow);
+      if (result.stale.some(page => page.path === SUMMARY_PATH)) {
+        log(`Hand-written SUMMARY.md sections must sit between ${MANUAL_START} and ${MANUAL_END}.`, Color.Yellow);
+      }
+      process.exit(1);
+    }
+    success(`All ${result.checked.length} pages are up to date`);
     return;
   }
 
-  const exampleName = args[0];
-  const options: { output?: string; noSummary?: boolean } = {};
-
-  for (let i = 1; i < args.length; i++) {
-    if (args[i] === '--output' && i + 1 < args.length) {
-      options.output = args[i + 1];
-      i++;
-    } else if (args[i] === '--no-summary') {
-      options.noSummary = true;
+  if (args.flags.all) {
+    const unmeasured = args.flags.costs ? await measureAll(Object.keys(EXAMPLES_MAP), costOptions) : [];
+    info('Generating documentation for all examples...');
+    const result = generateAllDocs({ api: args.flags.api === true, format, logger: consoleLogger });
+
+    const complete = result.failed.length === 0 && unmeasured.length === 0;
+    log('\n' + '='.repeat(60), complete ? Color.Green : Color.Yellow);
+    success(`Documentation generated for ${result.generated.length} of ${Object.keys(EXAMPLES_MAP).length} examples`);
+    log('='.repeat(60), complete ? Color.Green : Color.Yellow);
+    if (result.failed.length > 0) {
+      log(`\n${result.failed.length} examples could not be rendered:`, Color.Red);
+      result.failed.forEach(failure => log(`  ${failure.example}`, Color.Red));
+    }
+    if (unmeasured.length > 0) {
+      reportMeasurementFailures(unmeasured);
+    }
+    if (!complete) {
+      process.exit(1);
     }
+    return;
+  }
+
+  const [exampleName] = args.positional;
+  if (!exampleName) {
+    error('Name an example, or pass --all');
   }
+  const options: GenerateDocsOptions = {
+    output: stringFlag(args, 'output'),
+    noSummary: args.flags['no-summary'] === true,
+    api: args.flags.api === true,
+    format,
+    logger: consoleLogger,
+  };
+  const unmeasured = args.flags.costs ? await measureAll([exampleName], costOptions) : [];
+
+  const result = generateDocs(exampleName, options);
+
+  // Final summary
+  log('\n' + '='.repeat(60), Color.Green);
+  success(`Documentation generated successfully!`);
+  log('='.repeat(60), Color.Green);
+
+  log(`\n📄 Output file: ${result.outputPath}`, Color.Cyan);
+  (result.apiPages || []).forEach(page => log(`📘 API reference: ${page}`, Color.Cyan));
 
-  generateDocs(exampleName, options);
+  if (unmeasured.length > 0) {
+    reportMeasurementFailures(unmeasured);
+    process.exit(1);
+  }
 }
 
-main();
+if (require.main === module) {
+  main().catch(err => error(err instanceof Error ? err.message : String(err)));
+}
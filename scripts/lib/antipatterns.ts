@@ -0,0 +1,174 @@
+/**
+ * antipatterns - Broken vs. fixed sections for anti-pattern example pages
+ *
+ * An anti-pattern example names its corrected counterpart with
+ * `@custom:fixed-by`. Its page then shows the diff from the broken contract to
+ * the fixed one, the errors the broken version produces in its tests (read
+ * from revertedWith, revertedWithCustomError, rejectedWith, ... assertions)
+ * and both contracts side by side. `@custom:error` describes what goes wrong
+ * when no test can assert it, e.g. a value that silently stays undecryptable.
+ */
+
+import * as path from 'path';
+import * as ts from 'typescript';
+import { unifiedDiff } from './diff';
+import type { Block } from './document';
+import { NarrativeSuite, parseTestNarrative } from './narrative';
+import type { ExampleConfig } from './registry';
+
+// ============== TYPES ==============
+
+// The corrected counterpart of an anti-pattern example
+export interface AntiPattern {
+  fixed: ExampleConfig;
+  fixedContract: string; // Source of the fixed example's contract
+  expectedError?: string; // The broken example's @custom:error
+}
+
+export interface ExpectedError {
+  test: string; // Describe path and test title, joined by ' › '
+  matcher: string; // Assertion, e.g. revertedWithCustomError
+  error: string; // Revert reason, custom error or description of the failure
+  code: string; // The asserting statement, on one line
+}
+
+// ============== CONSTANTS ==============
+
+// Chai, hardhat-chai-matchers and chai-as-promised assertions that expect a failure
+const ERROR_MATCHERS = [
+  'revertedWith',
+  'revertedWithCustomError',
+  'revertedWithPanic',
+  'revertedWithoutReason',
+  'reverted',
+  'rejectedWith',
+  'rejected',
+  'throw',
+];
+
+// ============== TEST ASSERTIONS ==============
+
+function argumentText(argument: ts.Expression | undefined, source: ts.SourceFile): string {
+  if (!argument) {
+    return '';
+  }
+  return ts.isStringLiteralLike(argument) ? argument.text : argument.getText(source);
+}
+
+function describeError(matcher: string, args: ts.NodeArray<ts.Expression> | undefined, source: ts.SourceFile): string {
+  const [first, second] = args || [];
+  switch (matcher) {
+    case 'revertedWithCustomError':
+      return argumentText(second, source) || 'Custom error';
+    case 'revertedWithPanic':
+      return first ? `Panic(${argumentText(first, source)})` : 'Panic';
+    case 'revertedWithoutReason':
+      return 'Revert without reason';
+    case 'reverted':
+      return 'Revert';
+    default:
+      return argumentText(first, source) || (matcher.startsWith('reject') ? 'Rejected promise' : 'Thrown error');
+  }
+}
+
+function findInTest(test: string, code: string): ExpectedError[] {
+  const source = ts.createSourceFile('test.ts', code, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+  const errors: ExpectedError[] = [];
+
+  const visit = (node: ts.Node, statement: ts.Statement) => {
+    if (ts.isPropertyAccessExpression(node) && ERROR_MATCHERS.includes(node.name.text)) {
+      const matcher = node.name.text;
+      const call = ts.isCallExpression(node.parent) && node.parent.expression === node ? node.parent : undefined;
+      errors.push({
+        test,
+        matcher,
+        error: describeError(matcher, call && call.arguments, source),
+        code: statement.getText(source).replace(/\s*\n\s*/g, ' '),
+      });
+    }
+    ts.forEachChild(node, child => visit(child, statement));
+  };
+  source.statements.forEach(statement => visit(statement, statement));
+  return errors;
+}
+
+function collectErrors(suite: NarrativeSuite, titles: string[]): ExpectedError[] {
+  return [
+    ...suite.tests.flatMap(test => findInTest([...titles, test.title].join(' › '), test.code)),
+    ...suite.suites.flatMap(child => collectErrors(child, [...titles, child.title])),
+  ];
+}
+
+/**
+ * Every assertion in a mocha test file that expects a revert, rejection or
+ * thrown error, in source order. Tests marked `docs:exclude` are skipped.
+ */
+export function findExpectedErrors(testSource: string, fileName: string = 'test.ts'): ExpectedError[] {
+  return collectErrors(parseTestNarrative(testSource, fileName), []);
+}
+
+// ============== DOCUMENT ==============
+
+/**
+ * `## Broken vs. Fixed` section for an anti-pattern page: the diff to the
+ * fixed contract, what goes wrong and both contracts in tabs. The fixed page
+ * is linked as a sibling with `extension`.
+ */
+export function buildAntiPatternBlocks(
+  contractFile: string,
+  contractContent: string,
+  testContent: string,
+  antiPattern: AntiPattern,
+  extension: string = '.md',
+): Block[] {
+  const { fixed, fixedContract } = antiPattern;
+  const fixedLink = `[${fixed.title}](${fixed.name}${extension})`;
+  const blocks: Block[] = [
+    { type: 'heading', level: 2, text: 'Broken vs. Fixed' },
+    {
+      type: 'paragraph',
+      text:
+        `This example shows a mistake on purpose; ${fixedLink} is the corrected version. ` +
+        'The diff goes from the broken contract to the fixed one.',
+    },
+  ];
+
+  const diff = unifiedDiff(
+    contractContent.replace(/\r\n/g, '\n'),
+    fixedContract.replace(/\r\n/g, '\n'),
+    { before: `a/${contractFile}`, after: `b/${fixed.contractFile}` },
+  );
+  if (diff) {
+    blocks.push({ type: 'code', language: 'diff', code: diff.replace(/\n$/, '') });
+  }
+
+  const errors = findExpectedErrors(testContent);
+  if (antiPattern.expectedError || errors.length > 0) {
+    const items = errors.map(error => `_${error.test}_ → \`${error.error}\``);
+    blocks.push(
+      { type: 'heading', level: 3, text: 'What Goes Wrong' },
+      {
+        type: 'hint',
+        style: 'danger',
+        blocks: [
+          ...(antiPattern.expectedError ? [{ type: 'paragraph', text: antiPattern.expectedError } as Block] : []),
+          ...(items.length > 0 ? [{ type: 'list', items } as Block] : []),
+        ],
+      },
+    );
+  }
+
+  const source = (code: string): Block[] => [{ type: 'code', language: 'solidity', code }];
+  blocks.push(
+    { type: 'heading', level: 3, text: 'The Fix' },
+    {
+      type: 'tabs',
+      tabs: [
+        { title: `❌ ${path.posix.basename(contractFile)}`, blocks: source(contractContent) },
+        { title: `✅ ${path.posix.basename(fixed.contractFile)}`, blocks: source(fixedContract) },
+      ],
+    },
+  );
+
+  return blocks;
+}
@@ -0,0 +1,120 @@
+/**
+ * search.js - Client-side search of the static docs site
+ *
+ * writeSiteIndex copies this file next to index.html, which holds the pages
+ * and the catalog's search index as JSON in #site-data. tokenize, editDistance
+ * and searchIndex mirror search.ts, so example pages are ranked exactly like
+ * the CLI ranks them; search.test.ts runs both on the same index.
+ */
+
+'use strict';
+
+function tokenize(text) {
+  const terms = new Set();
+  text.split(/[^A-Za-z0-9]+/).forEach(word => {
+    const parts = word.split(/(?<=[a-z0-9])(?=[A-Z])/);
+    [word, ...(parts.length > 1 ? parts : [])].forEach(term => {
+      if (term.length > 1) {
+        terms.add(term.toLowerCase());
+      }
+    });
+  });
+  return [...terms];
+}
+
+function editDistance(a, b, max) {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    if (Math.min(...current) > max) {
+      return max + 1;
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function searchIndex(index, query, limit = 0) {
+  const queryTerms = tokenize(query);
+  if (queryTerms.length === 0) {
+    return [];
+  }
+
+  const indexed = Object.keys(index.terms);
+  const hits = new Map();
+
+  queryTerms.forEach(queryTerm => {
+    const allowed = queryTerm.length >= 8 ? 2 : queryTerm.length >= 4 ? 1 : 0;
+    const best = new Map();
+
+    indexed.forEach(term => {
+      let quality = 0;
+      if (term === queryTerm) {
+        quality = 1;
+      } else if (term.startsWith(queryTerm)) {
+        quality = 0.75;
+      } else if (allowed > 0) {
+        const distance = editDistance(queryTerm, term, allowed);
+        quality = distance <= allowed ? 0.5 / distance : 0;
+      }
+      if (quality === 0) {
+        return;
+      }
+      index.terms[term].forEach(([position, weight]) => {
+        const score = quality * weight;
+        const current = best.get(position);
+        if (!current || score > current.score) {
+          best.set(position, { score, term });
+        }
+      });
+    });
+
+    best.forEach(({ score, term }, position) => {
+      const hit = hits.get(position) || { score: 0, terms: new Set(), matched: 0 };
+      hit.score += score;
+      hit.terms.add(term);
+      hit.matched += 1;
+      hits.set(position, hit);
+    });
+  });
+
+  const results = [...hits.entries()]
+    .filter(([, hit]) => hit.matched === queryTerms.length)
+    .map(([position, hit]) => ({
+      id: index.ids[position],
+      score: Math.round(hit.score * 100) / 100,
+      terms: [...hit.terms].sort(),
+    }))
+    .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+  return limit > 0 ? results.slice(0, limit) : results;
+}
+
+// Only in the browser; the tests load the functions above without a page
+if (typeof document !== 'undefined') {
+  const { pages, index } = JSON.parse(document.getElementById('site-data').textContent);
+  const search = document.getElementById('search');
+  const results = document.getElementById('results');
+  const items = [...results.children];
+
+  search.addEventListener('input', () => {
+    const terms = search.value.toLowerCase().split(/\s+/).filter(Boolean);
+    const ranked = index && terms.length > 0 ? searchIndex(index, search.value).map(hit => hit.id) : [];
+    const rank = pages.map(page => (page.example ? ranked.indexOf(page.example) : -1));
+    items.forEach((item, position) => {
+      const page = pages[position];
+      const haystack = (page.title + ' ' + page.description + ' ' + page.text).toLowerCase();
+      const matches = page.example ? rank[position] !== -1 : terms.every(term => haystack.includes(term));
+      item.hidden = terms.length > 0 && !matches;
+    });
+    // Ranked examples first, best first; the other pages keep their order after them
+    const order = position => (rank[position] === -1 ? items.length + position : rank[position]);
+    [...items.keys()].sort((a, b) => order(a) - order(b)).forEach(position => results.append(items[position]));
+  });
+}
@@ -0,0 +1,114 @@
+/**
+ * batch - Runs many generations with a concurrency limit and reports on all of them
+ *
+ * A failing item never stops the batch: every item ends up in the report as a
+ * success or a failure with its errors, so one broken example does not block
+ * publishing the others. Only the asynchronous part of a task overlaps with
+ * other items; for generation that is the --verify step.
+ */
+
+// ============== TYPES ==============
+
+export interface BatchItemResult {
+  name: string;
+  success: boolean;
+  outputPath?: string;
+  durationMs: number;
+  errors: string[];
+}
+
+export interface BatchReport {
+  startedAt: string; // ISO timestamp
+  durationMs: number;
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: BatchItemResult[]; // In input order, regardless of completion order
+}
+
+// ============== PUBLIC API ==============
+
+/**
+ * Map `items` through `worker` with at most `limit` calls in flight. Results
+ * keep the order of `items`.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  async function lane(): Promise<void> {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  }
+
+  const lanes = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, () => lane());
+  await Promise.all(lanes);
+  return results;
+}
+
+/**
+ * Run `task` for every name and collect a report. A task that throws is
+ * recorded as a failure with the thrown message.
+ */
+export async function runBatch(
+  names: string[],
+  limit: number,
+  task: (name: string) => Promise<Omit<BatchItemResult, 'name' | 'durationMs'>>,
+  onDone?: (result: BatchItemResult) => void,
+): Promise<BatchReport> {
+  const startedAt = new Date();
+
+  const results = await mapWithConcurrency(names, limit, async name => {
+    const start = Date.now();
+    let result: BatchItemResult;
+    try {
+      result = { name, ...(await task(name)), durationMs: Date.now() - start };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      result = { name, success: false, errors: [message], durationMs: Date.now() - start };
+    }
+    if (onDone) {
+      onDone(result);
+    }
+    return result;
+  });
+
+  const succeeded = results.filter(result => result.success).length;
+  return {
+    startedAt: startedAt.toISOString(),
+    durationMs: Date.now() - startedAt.getTime(),
+    total: results.length,
+    succeeded,
+    failed: results.length - succeeded,
+    results,
+  };
+}
+
+/**
+ * Plain-text table of the report, one row per item.
+ */
+export function formatBatchTable(report: BatchReport): string {
+  const rows = report.results.map(result => [
+    result.name,
+    result.success ? 'OK' : 'FAILED',
+    `${(result.durationMs / 1000).toFixed(1)}s`,
+    result.success ? result.outputPath || '' : result.errors[0] || '',
+  ]);
+  const header = ['Example', 'Status', 'Time', 'Output / Error'];
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map(row => row[column].split('\n')[0].length)),
+  );
+  const format = (row: string[]) =>
+    row
+      .map((cell, column) => cell.split('\n')[0].padEnd(widths[column]))
+      .join('  ')
+      .trimEnd();
+
+  return [format(header), widths.map(width => '-'.repeat(width)).join('  '), ...rows.map(format)].join('\n');
+}
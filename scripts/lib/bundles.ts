@@ -0,0 +1,328 @@
+/**
+ * bundles - Custom categories defined in a YAML or JSON file
+ *
+ * A bundle picks examples for a workshop or training without touching the
+ * registry: by name, by tag, or with a query such as
+ * `difficulty=beginner AND concept=permissions`. Every selector adds to the
+ * bundle; listed names come first, then matches in registry order. The result
+ * is a Category that createCategory generates like a built-in one.
+ *
+ *   name: decryption-deep-dive
+ *   title: Decryption Deep Dive
+ *   examples: [fhe-counter]
+ *   tags: [decryption]
+ *   query: difficulty=beginner AND NOT category=compliance
+ */
+
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+import * as path from 'path';
+import { BundleDefinitionError, ExampleQueryError } from './errors';
+import { Category, Difficulty, EXAMPLES_MAP, ExampleConfig } from './registry';
+
+// ============== TYPES ==============
+
+export interface BundleDefinition {
+  name: string; // kebab-case; also the deploy tag of the whole bundle
+  title?: string; // Defaults to the name in title case
+  description?: string;
+  difficulty?: Difficulty; // Defaults to the hardest selected example
+  examples?: string[]; // Example names
+  tags?: string[]; // Examples carrying any of these tags
+  query?: string; // e.g. difficulty=beginner AND concept=permissions
+  additionalDeps?: Record<string, string>;
+}
+
+export type QueryField = 'name' | 'title' | 'category' | 'difficulty' | 'concept' | 'tag' | 'chapter';
+
+export type ExampleQuery =
+  | { type: 'and' | 'or'; operands: ExampleQuery[] }
+  | { type: 'not'; operand: ExampleQuery }
+  | { type: 'match'; field: QueryField; value: string; negated: boolean }; // negated for `!=`
+
+// ============== CONSTANTS ==============
+
+const DIFFICULTIES: Difficulty[] = ['beginner', 'intermediate', 'advanced'];
+
+const DEFINITION_FIELDS = ['name', 'title', 'description', 'difficulty', 'examples', 'tags', 'query', 'additionalDeps'];
+
+// Field names accepted in queries; plurals read naturally for list fields
+const QUERY_FIELDS: Record<string, QueryField> = {
+  name: 'name',
+  title: 'title',
+  category: 'category',
+  difficulty: 'difficulty',
+  concept: 'concept',
+  concepts: 'concept',
+  tag: 'tag',
+  tags: 'tag',
+  chapter: 'chapter',
+};
+
+// ============== QUERIES ==============
+
+// Words, quoted strings, parentheses and comparison operators
+function tokenizeQuery(query: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /\s*(?:("(?:[^"\\]|\\.)*")|(!=|=|\(|\))|([^\s()=!"]+))/gy;
+  let match: RegExpExecArray | null;
+  while (pattern.lastIndex < query.length && (match = pattern.exec(query)) !== null) {
+    tokens.push(match[1] || match[2] || match[3]);
+  }
+  if (pattern.lastIndex < query.trimEnd().length) {
+    throw new ExampleQueryError(query, `unexpected "${query.slice(pattern.lastIndex).trim()[0]}"`);
+  }
+  return tokens;
+}
+
+/**
+ * Parse a query: `field=value` and `field!=value` comparisons joined with
+ * NOT, AND and OR (binding in that order) and grouped with parentheses.
+ * Keywords and values are case-insensitive; quote values with spaces. Throws
+ * ExampleQueryError for malformed queries and unknown fields.
+ */
+export function parseExampleQuery(query: string): ExampleQuery {
+  const tokens = tokenizeQuery(query);
+  let position = 0;
+
+  const peekKeyword = (keyword: string) => (tokens[position] || '').toUpperCase() === keyword;
+  const fail = (message: string): never => {
+    throw new ExampleQueryError(query, message);
+  };
+
+  const parseOr = (): ExampleQuery => {
+    const operands = [parseAnd()];
+    while (peekKeyword('OR')) {
+      position++;
+      operands.push(parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { type: 'or', operands };
+  };
+
+  const parseAnd = (): ExampleQuery => {
+    const operands = [parseNot()];
+    while (peekKeyword('AND')) {
+      position++;
+      operands.push(parseNot());
+    }
+    return operands.length === 1 ? operands[0] : { type: 'and', operands };
+  };
+
+  const parseNot = (): ExampleQuery => {
+    if (peekKeyword('NOT')) {
+      position++;
+      return { type: 'not', operand: parseNot() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): ExampleQuery => {
+    const token = tokens[position++];
+    if (token === undefined) {
+      return fail('expected a comparison such as difficulty=beginner');
+    }
+    if (token === '(') {
+      const inner = parseOr();
+      if (tokens[position++] !== ')') {
+        fail('missing ")"');
+      }
+      return inner;
+    }
+
+    const field = QUERY_FIELDS[token.toLowerCase()];
+    if (!field) {
+      return fail(`unknown field "${token}" (use ${Object.keys(QUERY_FIELDS).join(', ')})`);
+    }
+    const operator = tokens[position++];
+    if (operator !== '=' && operator !== '!=') {
+      return fail(`expected = or != after "${token}"`);
+    }
+    const value = tokens[position++];
+    if (value === undefined || ['(', ')', '=', '!='].includes(value)) {
+      return fail(`expected a value after "${token}${operator}"`);
+    }
+    const unquoted = value.startsWith('"') ? value.slice(1, -1).replace(/\\(.)/g, '$1') : value;
+    return { type: 'match', field, value: unquoted.toLowerCase(), negated: operator === '!=' };
+  };
+
+  const parsed = parseOr();
+  if (position < tokens.length) {
+    fail(`unexpected "${tokens[position]}"`);
+  }
+  return parsed;
+}
+
+function fieldValues(example: ExampleConfig, field: QueryField): string[] {
+  switch (field) {
+    case 'concept':
+      return example.concepts;
+    case 'tag':
+      return example.tags;
+    case 'chapter':
+      return example.chapter ? [example.chapter] : [];
+    default:
+      return [example[field]];
+  }
+}
+
+export function matchesQuery(example: ExampleConfig, query: ExampleQuery): boolean {
+  switch (query.type) {
+    case 'and':
+      return query.operands.every(operand => matchesQuery(example, operand));
+    case 'or':
+      return query.operands.some(operand => matchesQuery(example, operand));
+    case 'not':
+      return !matchesQuery(example, query.operand);
+    case 'match': {
+      const found = fieldValues(example, query.field).some(value => value.toLowerCase() === query.value);
+      return found !== query.negated;
+    }
+  }
+}
+
+/**
+ * Examples matching `query`, in registry order. Throws ExampleQueryError for
+ * malformed queries.
+ */
+export function selectExamples(
+  query: string,
+  examples: Record<string, ExampleConfig> = EXAMPLES_MAP,
+): ExampleConfig[] {
+  const parsed = parseExampleQuery(query);
+  return Object.values(examples).filter(example => matchesQuery(example, parsed));
+}
+
+// ============== DEFINITIONS ==============
+
+function titleCase(name: string): string {
+  return name
+    .split('-')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+// Shape problems of a parsed definition file; an empty list means it can be resolved
+function definitionProblems(raw: unknown): string[] {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return ['The definition must be a mapping of fields'];
+  }
+  const definition = raw as Record<string, unknown>;
+  const problems = Object.keys(definition)
+    .filter(key => !DEFINITION_FIELDS.includes(key))
+    .map(key => `Unknown field "${key}"`);
+
+  if (typeof definition.name !== 'string' || !/^[a-z0-9]+(-[a-z0-9]+)*$/.test(definition.name)) {
+    problems.push('"name" must be a kebab-case string');
+  }
+  ['title', 'description', 'query'].forEach(field => {
+    if (definition[field] !== undefined && typeof definition[field] !== 'string') {
+      problems.push(`"${field}" must be a string`);
+    }
+  });
+  ['examples', 'tags'].forEach(field => {
+    if (definition[field] !== undefined && !isStringList(definition[field])) {
+      problems.push(`"${field}" must be a list of strings`);
+    }
+  });
+  if (definition.difficulty !== undefined && !DIFFICULTIES.includes(definition.difficulty as Difficulty)) {
+    problems.push(`"difficulty" must be one of: ${DIFFICULTIES.join(', ')}`);
+  }
+  const deps = definition.additionalDeps;
+  if (
+    deps !== undefined &&
+    (typeof deps !== 'object' || deps === null || Object.values(deps).some(version => typeof version !== 'string'))
+  ) {
+    problems.push('"additionalDeps" must map package names to version ranges');
+  }
+  if (definition.examples === undefined && definition.tags === undefined && definition.query === undefined) {
+    problems.push('Select examples with "examples", "tags" or "query"');
+  }
+  return problems;
+}
+
+/**
+ * Turn a definition into a Category over `examples`. Throws
+ * BundleDefinitionError listing every unknown name, bad query or empty
+ * selection.
+ */
+export function resolveBundle(
+  definition: BundleDefinition,
+  examples: Record<string, ExampleConfig> = EXAMPLES_MAP,
+  source: string = definition.name,
+): Category {
+  const problems: string[] = [];
+  const selected: string[] = [];
+  const select = (name: string) => !selected.includes(name) && selected.push(name);
+
+  (definition.examples || []).forEach(name => {
+    if (examples[name]) {
+      select(name);
+    } else {
+      problems.push(`Unknown example "${name}"`);
+    }
+  });
+
+  const tags = (definition.tags || []).map(tag => tag.toLowerCase());
+  let query: ExampleQuery | null = null;
+  if (definition.query !== undefined) {
+    try {
+      query = parseExampleQuery(definition.query);
+    } catch (err) {
+      problems.push(err instanceof Error ? err.message : String(err));
+    }
+  }
+  Object.values(examples).forEach(example => {
+    const tagged = example.tags.some(tag => tags.includes(tag.toLowerCase()));
+    if (tagged || (query && matchesQuery(example, query))) {
+      select(example.name);
+    }
+  });
+
+  if (problems.length === 0 && selected.length === 0) {
+    problems.push('The bundle selects no examples');
+  }
+  if (problems.length > 0) {
+    throw new BundleDefinitionError(source, problems);
+  }
+
+  const hardest = Math.max(...selected.map(name => DIFFICULTIES.indexOf(examples[name].difficulty)));
+  const title = definition.title || titleCase(definition.name);
+  return {
+    name: definition.name,
+    title,
+    description: definition.description || `${selected.length} FHEVM examples bundled for ${title}`,
+    examples: selected,
+    difficulty: definition.difficulty || DIFFICULTIES[hardest],
+    ...(definition.additionalDeps ? { additionalDeps: definition.additionalDeps } : {}),
+  };
+}
+
+// Bundle files are told apart from category names by their extension
+export function isBundleFile(argument: string): boolean {
+  return /\.(ya?ml|json)$/i.test(argument);
+}
+
+/**
+ * Read a YAML or JSON bundle definition and resolve it against the registry.
+ * Throws BundleDefinitionError when the file is unreadable, malformed or
+ * selects unknown or no examples.
+ */
+export function loadBundle(filePath: string, examples: Record<string, ExampleConfig> = EXAMPLES_MAP): Category {
+  let raw: unknown;
+  try {
+    const content = fs.readFileSync(filePath, 'utf-8');
+    raw = path.extname(filePath).toLowerCase() === '.json' ? JSON.parse(content) : yaml.load(content);
+  } catch (err) {
+    throw new BundleDefinitionError(filePath, [err instanceof Error ? err.message : String(err)]);
+  }
+
+  const problems = definitionProblems(raw);
+  if (problems.length > 0) {
+    throw new BundleDefinitionError(filePath, problems);
+  }
+  return resolveBundle(raw as BundleDefinition, examples, filePath);
+}
@@ -0,0 +1,211 @@
+/**
+ * catalog - Versioned JSON catalog of the examples and its search index
+ *
+ * The catalog lists every example with its registry metadata, the public
+ * functions of its contract, hashes of its files and the URL of its page, for
+ * tools that should not import the registry. catalog-index.json is the
+ * prebuilt search index from search.ts over the same entries. Both are written
+ * by the docs build next to the pages and contain no timestamps, so they only
+ * change with the examples; `schemaVersion` changes when their shape does.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger, silentLogger } from './logger';
+import { EXAMPLES_MAP, ExampleConfig, resolveExamplePath } from './registry';
+import { getRenderer } from './renderers';
+import { buildSearchIndex, SearchIndex, searchIndex } from './search';
+import { analyzeSolidity, findMainContract } from './solidity';
+
+// ============== TYPES ==============
+
+export interface CatalogFunction {
+  name: string;
+  signature: string; // e.g. add(externalEuint32,bytes)
+  stateMutability: string;
+}
+
+export interface CatalogEntry {
+  name: string;
+  title: string;
+  description: string;
+  category: string;
+  difficulty: string;
+  concepts: string[];
+  tags: string[];
+  chapter?: string;
+  prerequisites: string[];
+  learningObjectives: string[];
+  fixedBy?: string;
+  contract: { file: string; name: string | null; functions: CatalogFunction[] };
+  testFile: string;
+  hashes: Record<string, string>; // File path → sha256 of its content with LF line endings
+  docUrl: string; // Page path relative to the repository, or under baseUrl
+}
+
+export interface Catalog {
+  schemaVersion: number;
+  revision: string; // Hash of every entry; changes whenever any example does
+  examples: CatalogEntry[]; // Sorted by name
+}
+
+export interface CatalogOptions {
+  format?: string; // Renderer whose pages docUrl points at; defaults to gitbook
+  baseUrl?: string; // Published docs root, e.g. https://docs.example.com/fhevm
+  examples?: Record<string, ExampleConfig>;
+}
+
+export interface CatalogSearchResult {
+  example: CatalogEntry;
+  score: number;
+  terms: string[]; // Indexed terms that matched the query
+}
+
+// ============== CONSTANTS ==============
+
+export const CATALOG_SCHEMA_VERSION = 1;
+export const CATALOG_FILE = 'catalog.json';
+export const CATALOG_INDEX_FILE = 'catalog-index.json';
+
+// Names and titles rank above what an example merely mentions
+const FIELD_WEIGHTS: Record<string, number> = {
+  name: 5,
+  title: 5,
+  concepts: 4,
+  tags: 4,
+  description: 2,
+  functions: 2,
+  category: 1,
+  learningObjectives: 1,
+};
+
+// ============== CATALOG ==============
+
+function hash(content: string): string {
+  return crypto.createHash('sha256').update(content.replace(/\r\n/g, '\n')).digest('hex');
+}
+
+function hashFiles(files: string[]): Record<string, string> {
+  const hashes: Record<string, string> = {};
+  files.forEach(file => {
+    hashes[file] = hash(fs.readFileSync(resolveExamplePath(file), 'utf-8'));
+  });
+  return hashes;
+}
+
+function docUrl(example: ExampleConfig, options: CatalogOptions): string {
+  const renderer = getRenderer(options.format || 'gitbook');
+  const page = `${example.name}${renderer.extension}`;
+  return options.baseUrl ? `${options.baseUrl.replace(/\/+$/, '')}/${page}` : `${renderer.outputDir}/${page}`;
+}
+
+function buildEntry(example: ExampleConfig, options: CatalogOptions): CatalogEntry {
+  const source = fs.readFileSync(resolveExamplePath(example.contractFile), 'utf-8');
+  const contract = findMainContract(analyzeSolidity(source, example.contractFile));
+  const files = [example.contractFile, example.testFile, example.fixture, ...(example.additionalFiles || [])];
+
+  // Optional fields are left out rather than null, in interface order
+  return {
+    name: example.name,
+    title: example.title,
+    description: example.description,
+    category: example.category,
+    difficulty: example.difficulty,
+    concepts: example.concepts,
+    tags: example.tags,
+    ...(example.chapter ? { chapter: example.chapter } : {}),
+    prerequisites: example.prerequisites || [],
+    learningObjectives: example.learningObjectives || [],
+    ...(example.fixedBy ? { fixedBy: example.fixedBy } : {}),
+    contract: {
+      file: example.contractFile,
+      name: contract ? contract.name : null,
+      functions: (contract ? contract.functions : []).map(fn => ({
+        name: fn.name,
+        signature: fn.signature,
+        stateMutability: fn.stateMutability,
+      })),
+    },
+    testFile: example.testFile,
+    hashes: hashFiles(files.filter((file): file is string => Boolean(file))),
+    docUrl: docUrl(example, options),
+  };
+}
+
+/**
+ * Describe every example of the registry (or `options.examples`). Throws
+ * when a contract cannot be read or parsed.
+ */
+export function buildCatalog(options: CatalogOptions = {}): Catalog {
+  const examples = Object.values(options.examples || EXAMPLES_MAP).sort((a, b) => a.name.localeCompare(b.name));
+  const entries = examples.map(example => buildEntry(example, options));
+  return {
+    schemaVersion: CATALOG_SCHEMA_VERSION,
+    revision: hash(JSON.stringify(entries)).slice(0, 12),
+    examples: entries,
+  };
+}
+
+export function buildCatalogIndex(catalog: Catalog): SearchIndex {
+  const documents = catalog.examples.map(example => ({
+    id: example.name,
+    fields: {
+      name: example.name,
+      title: example.title,
+      concepts: example.concepts,
+      tags: example.tags,
+      description: example.description,
+      functions: example.contract.functions.map(fn => fn.name),
+      category: example.category,
+      learningObjectives: example.learningObjectives,
+    },
+  }));
+  return buildSearchIndex(documents, FIELD_WEIGHTS);
+}
+
+// ============== SEARCH ==============
+
+/**
+ * Rank the catalog's examples against `query` (fuzzy, every word must match).
+ * Pass the prebuilt `index` to skip indexing the catalog again.
+ */
+export function searchCatalog(
+  catalog: Catalog,
+  query: string,
+  options: { limit?: number; index?: SearchIndex } = {},
+): CatalogSearchResult[] {
+  const index = options.index || buildCatalogIndex(catalog);
+  const byName = new Map(catalog.examples.map(example => [example.name, example]));
+  return searchIndex(index, query, options.limit)
+    .filter(hit => byName.has(hit.id))
+    .map(hit => ({ example: byName.get(hit.id) as CatalogEntry, score: hit.score, terms: hit.terms }));
+}
+
+// ============== FILES ==============
+
+// The catalog and its index as written to disk, paths relative to the docs directory
+export function renderCatalogFiles(catalog: Catalog): { path: string; content: string }[] {
+  return [
+    { path: CATALOG_FILE, content: `${JSON.stringify(catalog, null, 2)}\n` },
+    { path: CATALOG_INDEX_FILE, content: `${JSON.stringify(buildCatalogIndex(catalog))}\n` },
+  ];
+}
+
+/**
+ * Write catalog.json and catalog-index.json into `docsDir`. Returns their
+ * paths.
+ */
+export function writeCatalog(
+  docsDir: string,
+  catalog: Catalog = buildCatalog(),
+  logger: Logger = silentLogger,
+): string[] {
+  fs.mkdirSync(docsDir, { recursive: true });
+  return renderCatalogFiles(catalog).map(file => {
+    const filePath = path.join(docsDir, file.path);
+    fs.writeFileSync(filePath, file.content);
+    logger.detail(filePath);
+    return filePath;
+  });
+}
@@ -0,0 +1,595 @@
+/**
+ * category - Generates one Hardhat project holding every example of a category
+ *
+ * The base template is cloned and the category's contracts (with their local
+ * imports) and tests are copied side by side. Every contract gets a
+ * hardhat-deploy script tagged with its contract, example and category name;
+ * constructor parameters typed as another contract of the bundle become
+ * deploy dependencies, and every other one takes the value the example
+ * declares with @custom:deploy-args. test/fixtures.ts deploys the whole bundle once through
+ * those scripts, example fixtures and helpers keep their place relative to
+ * their test, and the README links each contract to its test and docs page.
+ *
+ * Examples that would write different files to the same path, or share a
+ * contract name, are detected before anything is written. By default that
+ * fails with a report; the namespace strategy moves each of them into
+ * contracts/<example>/, test/<example>/ and deploy/<example>/ instead, fixing
+ * the tests' relative imports and addressing shared contract names by their
+ * fully qualified name.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { readCostReport } from './costs';
+import { applyDependencies, collectRequirements, mergeDependencies } from './dependencies';
+import { buildExamplePage, getDocsConfig } from './docs';
+import {
+  ContractNotFoundError,
+  MissingDeployArgumentError,
+  NameCollisionError,
+  OutputExistsError,
+  UnknownCategoryError,
+  UnknownExampleError,
+  UnversionedPackagesError,
+} from './errors';
+import { ImportGraph, planImportGraphCopy, resolveImportGraph, resolvePackageVersions } from './imports';
+import { Logger, silentLogger } from './logger';
+import {
+  cloneTemplate,
+  movedSupportFiles,
+  PlannedFile,
+  planSupportFiles,
+  rewriteRelativeImports,
+  templateDependencies,
+} from './project';
+import {
+  CATEGORIES,
+  Category,
+  ExampleConfig,
+  EXAMPLES_MAP,
+  getCategory,
+  resolveExamplePath,
+  ROOT_DIR,
+} from './registry';
+import { renderPage } from './renderers';
+import { analyzeSolidityFile, findMainContract, SolidityContract, SolidityParameter } from './solidity';
+
+// ============== TYPES ==============
+
+// What to do with examples that would share a file path or a contract name
+export type CollisionStrategy = 'fail' | 'namespace';
+
+export interface CreateCategoryOptions {
+  logger?: Logger;
+  collisions?: CollisionStrategy; // Defaults to fail
+}
+
+export interface NameCollision {
+  kind: 'file' | 'contract';
+  name: string; // Path in the project, or the shared contract name
+  examples: string[];
+}
+
+export interface CreateCategoryResult {
+  outputPath: string;
+  contracts: string[]; // Names of the contracts copied into the project
+  deployScripts: string[]; // Relative to outputPath, in contract order
+}
+
+// One example of the bundle; paths are relative to the generated project
+export interface BundleItem {
+  example: ExampleConfig;
+  contractName: string;
+  contractFile: string; // e.g. contracts/FHECounter.sol
+  testFile: string; // e.g. test/FHECounter.test.ts
+  docsFile: string; // e.g. docs/fhe-counter.md
+  constructorParameters: SolidityParameter[];
+  namespace?: string; // Subfolder of contracts/, test/ and deploy/ when the example was namespaced
+  deploymentName?: string; // Set when examples share the contract name; defaults to contractName
+}
+
+// Where an example's files go, worked out before anything is written
+interface ExamplePlan {
+  example: ExampleConfig;
+  graph: ImportGraph;
+  contract: SolidityContract;
+  namespace?: string;
+  contracts: PlannedFile[]; // The example's contract first, then its local imports
+  test: PlannedFile;
+  support: PlannedFile[]; // Fixture and additional files, relative to the test as in this repository
+}
+
+// ============== CONSTANTS ==============
+
+// Shared deployment fixture written into every bundle
+export const FIXTURE_MODULE = 'test/fixtures.ts';
+
+// ============== DEPLOY SCRIPTS ==============
+
+// Bundle contracts the constructor takes, deployed first and passed by address
+function deployDependencies(
+  contractName: string,
+  parameters: SolidityParameter[],
+  contractNames: string[],
+): string[] {
+  const types = parameters.map(parameter => parameter.type);
+  return contractNames.filter(name => name !== contractName && types.includes(name));
+}
+
+// The declared value of a constructor parameter, by name or, for an unnamed one, by position
+function declaredArgument(example: ExampleConfig, parameter: SolidityParameter, index: number): string | undefined {
+  return (example.deployArgs || {})[parameter.name || String(index)];
+}
+
+// Constructor parameters that are neither a bundle contract nor declared, e.g. `uint256 fee`
+function undeclaredParameters(
+  example: ExampleConfig,
+  parameters: SolidityParameter[],
+  dependencies: string[],
+): string[] {
+  return parameters
+    .filter(
+      (parameter, index) =>
+        !dependencies.includes(parameter.type) && declaredArgument(example, parameter, index) === undefined,
+    )
+    .map(parameter => [parameter.type, parameter.name].filter(Boolean).join(' '));
+}
+
+/**
+ * hardhat-deploy script for one contract of the bundle. Constructor
+ * parameters typed as another bundle contract receive its deployed address,
+ * every other one the expression the example declares. Throws
+ * MissingDeployArgumentError when a parameter has neither.
+ */
+export function generateDeployScript(item: BundleItem, categoryName: string, contractNames: string[]): string {
+  const { contractName, constructorParameters, example } = item;
+  const deploymentName = item.deploymentName || contractName;
+  const dependencies = deployDependencies(contractName, constructorParameters, contractNames);
+  const missing = undeclaredParameters(example, constructorParameters, dependencies);
+  if (missing.length > 0) {
+    throw new MissingDeployArgumentError(example.name, missing);
+  }
+  const args = constructorParameters.map(
+    (parameter, index) =>
+      dependencies.includes(parameter.type)
+        ? `(await get("${parameter.type}")).address`
+        : (declaredArgument(example, parameter, index) as string),
+  );
+  const argsLine = args.length > 0 ? `\n    args: [${args.join(', ')}],` : '';
+  const tags = [deploymentName, item.example.name, categoryName].map(tag => JSON.stringify(tag)).join(', ');
+  // A shared contract name is ambiguous to hardhat, so the artifact is named by its source file
+  const contractLine = item.deploymentName ? `\n    contract: "${item.contractFile}:${contractName}",` : '';
+  const dependencyLine =
+    dependencies.length > 0 ? `\nfunc.dependencies = [${dependencies.map(name => `"${name}"`).join(', ')}];` : '';
+
+  return `import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy${dependencies.length > 0 ? ', get' : ''} } = hre.deployments;
+
+  const deployed${contractName} = await deploy("${deploymentName}", {${contractLine}
+    from: deployer,${argsLine}
+    log: true,
+  });
+
+  console.log(\`${deploymentName} contract: \`, deployed${contractName}.address);
+};
+export default func;
+func.id = "deploy_${deploymentName.toLowerCase()}";
+func.tags = [${tags}];${dependencyLine}
+`;
+}
+
+/**
+ * Test fixture that runs every deploy script of the bundle once; later calls
+ * revert to the same snapshot. Returns the deployed contracts by deployment
+ * name.
+ */
+export function generateFixtureModule(categoryName: string, items: BundleItem[]): string {
+  const contracts = items
+    .map(item => {
+      const name = item.deploymentName || item.contractName;
+      const artifact = item.deploymentName ? `${item.contractFile}:${item.contractName}` : item.contractName;
+      return `    ${name}: await ethers.getContractAt("${artifact}", (await deployments.get("${name}")).address),`;
+    })
+    .join('\n');
+
+  return `import { deployments, ethers } from "hardhat";
+
+// Deploys the whole bundle through deploy/ once; later calls revert to that snapshot
+export const deployBundle = deployments.createFixture(async () => {
+  await deployments.fixture(["${categoryName}"]);
+  return {
+${contracts}
+  };
+});
+`;
+}
+
+// ============== PLANNING ==============
+
+function planExample(example: ExampleConfig, namespaced: boolean): ExamplePlan {
+  const graph = resolveImportGraph(resolveExamplePath(example.contractFile));
+  const contract = findMainContract(analyzeSolidityFile(graph.entry));
+  if (!contract) {
+    throw new ContractNotFoundError(example.contractFile);
+  }
+
+  const prefix = namespaced ? `${example.name}/` : '';
+  const testFile = `test/${prefix}${path.basename(example.testFile)}`;
+  return {
+    example,
+    graph,
+    contract,
+    ...(namespaced ? { namespace: example.name } : {}),
+    contracts: planImportGraphCopy(graph).map(file => ({
+      source: file.source,
+      destination: `contracts/${prefix}${file.relativePath}`,
+    })),
+    test: { source: resolveExamplePath(example.testFile), destination: testFile },
+    support: planSupportFiles(example, testFile),
+  };
+}
+
+// Paths different source files would be written to, and contract names declared by several examples
+function findCollisions(plans: ExamplePlan[]): NameCollision[] {
+  const writers = new Map<string, { source: string; example: string }[]>();
+  const declarers = new Map<string, string[]>();
+  plans.forEach(plan => {
+    const example = plan.example.name;
+    [...plan.contracts, plan.test, ...plan.support].forEach(file => {
+      writers.set(file.destination, [...(writers.get(file.destination) || []), { source: file.source, example }]);
+    });
+    declarers.set(plan.contract.name, [...(declarers.get(plan.contract.name) || []), example]);
+  });
+
+  const unique = (names: string[]) => [...new Set(names)];
+  const files = [...writers]
+    .filter(([, entries]) => unique(entries.map(entry => entry.source)).length > 1)
+    .map(([name, entries]) => ({ kind: 'file' as const, name, examples: unique(entries.map(entry => entry.example)) }));
+  const contracts = [...declarers]
+    .filter(([, examples]) => unique(examples).length > 1)
+    .map(([name, examples]) => ({ kind: 'contract' as const, name, examples: unique(examples) }));
+  return [...files, ...contracts];
+}
+
+// ============== FILES ==============
+
+// getContractFactory("X") and getContractAt("X", ...) with the fully qualified name of a shared contract name
+function qualifyContractReferences(content: string, contractName: string, artifact: string): string {
+  const pattern = new RegExp(`(getContract(?:Factory|At)\\(\\s*)(["'])${contractName}\\2`, 'g');
+  return content.replace(pattern, `$1$2${artifact}$2`);
+}
+
+/**
+ * Copy an example's contracts, test and test support files as planned. A
+ * file several examples share is copied once.
+ */
+function writeExample(
+  plan: ExamplePlan,
+  item: BundleItem,
+  outputDir: string,
+  written: Set<string>,
+  logger: Logger,
+): void {
+  const copy = (file: PlannedFile, label: string) => {
+    if (!written.has(file.destination)) {
+      fs.mkdirSync(path.dirname(path.join(outputDir, file.destination)), { recursive: true });
+      fs.copyFileSync(file.source, path.join(outputDir, file.destination));
+      written.add(file.destination);
+      logger.detail(`Copied ${label}: ${file.destination}`);
+    }
+  };
+
+  const [contract, ...dependencies] = plan.contracts;
+  copy(contract, 'contract');
+  dependencies.forEach(file => copy(file, 'dependency'));
+  plan.support.forEach(file => copy(file, 'test support file'));
+
+  let test = rewriteRelativeImports(
+    fs.readFileSync(plan.test.source, 'utf-8'),
+    plan.example.testFile,
+    item.testFile,
+    movedSupportFiles(plan.support),
+  );
+  if (item.deploymentName) {
+    test = qualifyContractReferences(test, item.contractName, `${item.contractFile}:${item.contractName}`);
+  }
+  fs.mkdirSync(path.dirname(path.join(outputDir, item.testFile)), { recursive: true });
+  fs.writeFileSync(path.join(outputDir, item.testFile), test);
+  logger.detail(`Copied test: ${item.testFile}`);
+}
+
+function updatePackageJson(
+  outputDir: string,
+  category: Category,
+  packages: string[],
+  required: Record<string, string>,
+  logger: Logger,
+): void {
+  const packageJsonPath = path.join(outputDir, 'package.json');
+  const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+
+  // Declared dependencies first, so imported packages they name keep the declared range
+  applyDependencies(packageJson, required, logger);
+  const declared = { ...packageJson.devDependencies, ...packageJson.dependencies };
+
+  packageJson.name = `fhevm-category-${category.name}`;
+  packageJson.description = category.description;
+  packageJson.homepage = `https://github.com/fhevm-examples/category-${category.name}`;
+
+  // Add the Solidity packages the contracts import that the template does not already provide
+  const { dependencies } = resolvePackageVersions(
+    packages.filter(name => !declared[name]),
+    declared,
+  );
+  packageJson.dependencies = { ...packageJson.dependencies, ...dependencies };
+
+  fs.writeFileSync(packageJsonPath, JSON.stringify(packageJson, null, 2) + '\n');
+}
+
+// GitHub-flavoured page, so it reads well in the bundle's repository
+function renderDocsPage(item: BundleItem): string {
+  const { example } = item;
+  const config = { ...getDocsConfig(example), output: item.docsFile };
+  const contractContent = fs.readFileSync(resolveExamplePath(example.contractFile), 'utf-8');
+  const testContent = fs.readFileSync(resolveExamplePath(example.testFile), 'utf-8');
+  const costs = readCostReport(ROOT_DIR, example.name);
+  return renderPage(buildExamplePage(config, contractContent, testContent, [], undefined, undefined, costs), 'gfm');
+}
+
+export function generateCategoryReadme(category: Category, items: BundleItem[]): string {
+  const rows = items.map(item => {
+    const columns = [
+      item.example.title,
+      `[\`${item.contractName}\`](${item.contractFile})`,
+      `[${path.posix.basename(item.testFile)}](${item.testFile})`,
+      `[${path.posix.basename(item.docsFile)}](${item.docsFile})`,
+      `\`${item.deploymentName || item.contractName}\``,
+    ];
+    return `| ${columns.join(' | ')} |`;
+  });
+
+  return `# ${category.title}
+
+${category.description}
+
+## Included Examples
+
+| Example | Contract | Test | Docs | Deploy tag |
+|---|---|---|---|---|
+${rows.join('\n')}
+
+## Quick Start
+
+### Prerequisites
+
+- **Node.js**: Version 20 or higher
+- **npm**: Package manager
+
+### Installation
+
+1. **Install dependencies**
+
+   \`\`\`bash
+   npm install
+   \`\`\`
+
+2. **Set up environment variables**
+
+   \`\`\`bash
+   npx hardhat vars set MNEMONIC
+   npx hardhat vars set INFURA_API_KEY
+   # Optional: Set Etherscan API key for contract verification
+   npx hardhat vars set ETHERSCAN_API_KEY
+   \`\`\`
+
+3. **Compile and test**
+
+   \`\`\`bash
+   npm run compile
+   npm run test
+   \`\`\`
+
+## Testing
+
+Run all tests:
+
+\`\`\`bash
+npm run test
+\`\`\`
+
+For Sepolia testnet testing:
+
+\`\`\`bash
+npm run test:sepolia
+\`\`\`
+
+New tests can reuse one deployment of every contract from \`${FIXTURE_MODULE}\`:
+
+\`\`\`typescript
+import { deployBundle } from "./fixtures";
+
+const { ${items.length > 0 ? items[0].deploymentName || items[0].contractName : 'Contract'} } = await deployBundle();
+\`\`\`
+
+## Deployment
+
+Each contract has a deploy script in \`deploy/\`, tagged with its contract name, its example name and
+\`${category.name}\`.
+
+Deploy everything to a local network:
+
+\`\`\`bash
+npx hardhat node
+npx hardhat deploy --network localhost --tags ${category.name}
+\`\`\`
+
+Deploy a single contract (and the contracts it depends on) to Sepolia:
+
+\`\`\`bash
+npx hardhat deploy --network sepolia --tags <Deploy tag>
+npx hardhat verify --network sepolia <CONTRACT_ADDRESS>
+\`\`\`
+
+## Documentation
+
+- [FHEVM Documentation](https://docs.zama.ai/fhevm)
+- [FHEVM Examples](https://docs.zama.org/protocol/examples)
+- [FHEVM Hardhat Plugin](https://docs.zama.ai/protocol/solidity-guides/development-guide/hardhat)
+
+## License
+
+This project is licensed under the BSD-3-Clause-Clear License.
+
+---
+
+**Built with FHEVM by Zama**
+`;
+}
+
+// ============== PUBLIC API ==============
+
+/**
+ * Look up a registry category by name, or take a custom one as is, together
+ * with its examples. Throws UnknownCategoryError or UnknownExampleError.
+ */
+export function resolveCategory(categoryOrName: string | Category): { category: Category; examples: ExampleConfig[] } {
+  const category = typeof categoryOrName === 'string' ? getCategory(categoryOrName) : categoryOrName;
+  if (!category) {
+    throw new UnknownCategoryError(
+      categoryOrName as string,
+      Object.keys(CATEGORIES).map(name => `${name}: ${CATEGORIES[name].title}`),
+    );
+  }
+
+  const examples = category.examples.map(exampleName => {
+    const example = EXAMPLES_MAP[exampleName];
+    if (!example) {
+      throw new UnknownExampleError(exampleName, Object.keys(EXAMPLES_MAP));
+    }
+    return example;
+  });
+  return { category, examples };
+}
+
+/**
+ * Generate the project for a registry category, or a custom one such as a
+ * resolved bundle definition, into `outputDir`.
+ *
+ * Throws UnknownCategoryError, UnknownExampleError for a custom category
+ * naming an example the registry lacks, DependencyConflictError when its
+ * examples require a package in incompatible versions, OutputExistsError,
+ * NameCollisionError when examples collide and `collisions` is not
+ * namespace, ContractNotFoundError when an example's source declares no
+ * deployable contract, or MissingDeployArgumentError when a constructor
+ * parameter has no declared value.
+ */
+export function createCategory(
+  categoryOrName: string | Category,
+  outputDir: string,
+  options: CreateCategoryOptions = {},
+): CreateCategoryResult {
+  const logger = options.logger || silentLogger;
+
+  const { category, examples } = resolveCategory(categoryOrName);
+  const categoryName = category.name;
+  const required = mergeDependencies(collectRequirements(examples, category));
+
+  logger.info(`Creating FHEVM category: ${categoryName}`);
+  logger.info(`Output directory: ${outputDir}`);
+
+  if (fs.existsSync(outputDir)) {
+    throw new OutputExistsError(outputDir);
+  }
+
+  // Plan every file first, so collisions are reported before anything is written
+  let plans = examples.map(example => planExample(example, false));
+  let collisions = findCollisions(plans);
+  if (collisions.length > 0 && (options.collisions || 'fail') === 'namespace') {
+    const colliding = new Set(collisions.flatMap(collision => collision.examples));
+    plans = plans.map(plan => (colliding.has(plan.example.name) ? planExample(plan.example, true) : plan));
+    // Shared contract names remain; they are deployed and referenced by fully qualified name
+    collisions = findCollisions(plans).filter(collision => collision.kind === 'file');
+    colliding.forEach(name => logger.warn(`Namespaced ${name} into its own folders to avoid name collisions`));
+  }
+  if (collisions.length > 0) {
+    throw new NameCollisionError(categoryName, collisions);
+  }
+  const imported = [...new Set(plans.flatMap(plan => plan.graph.packages))];
+  const { unknown } = resolvePackageVersions(imported, { ...templateDependencies(), ...required });
+  if (unknown.length > 0) {
+    throw new UnversionedPackagesError(unknown);
+  }
+  const contractNames = plans.map(plan => plan.contract.name);
+  const sharedNames = contractNames.filter((name, index) => contractNames.indexOf(name) !== index);
+  // Constructor parameters can only be wired to a contract whose name is unique in the bundle
+  const wirable = contractNames.filter(name => !sharedNames.includes(name));
+  plans.forEach(({ example, contract }) => {
+    const dependencies = deployDependencies(contract.name, contract.constructorParameters, wirable);
+    const missing = undeclaredParameters(example, contract.constructorParameters, dependencies);
+    if (missing.length > 0) {
+      throw new MissingDeployArgumentError(example.name, missing);
+    }
+  });
+
+  // Step 1: Clone the base template
+  logger.step('📋 Step 1: Cloning base template...');
+  cloneTemplate(outputDir);
+  logger.success('Base template cloned');
+
+  // Step 2: Copy contracts, tests and their support files
+  logger.step('📄 Step 2: Copying contracts and tests...');
+  const packages = new Set<string>();
+  const written = new Set<string>();
+  const items = plans.map(plan => {
+    const { example, contract } = plan;
+    const item: BundleItem = {
+      example,
+      contractName: contract.name,
+      contractFile: plan.contracts[0].destination,
+      testFile: plan.test.destination,
+      docsFile: `docs/${example.name}.md`,
+      constructorParameters: contract.constructorParameters,
+      ...(plan.namespace ? { namespace: plan.namespace } : {}),
+      ...(sharedNames.includes(contract.name)
+        ? { deploymentName: `${contract.name}_${example.name.replace(/-/g, '_')}` }
+        : {}),
+    };
+    writeExample(plan, item, outputDir, written, logger);
+    plan.graph.packages.forEach(name => packages.add(name));
+    return item;
+  });
+
+  logger.success(`Copied ${items.length} contracts and tests`);
+
+  // Step 3: One deploy script per contract and the fixture deploying them all
+  logger.step('🚀 Step 3: Writing deploy scripts and the shared fixture...');
+  const deployScripts = items.map(item => {
+    const scriptPath = `deploy/${item.namespace ? `${item.namespace}/` : ''}${item.contractName}.ts`;
+    fs.mkdirSync(path.dirname(path.join(outputDir, scriptPath)), { recursive: true });
+    fs.writeFileSync(path.join(outputDir, scriptPath), generateDeployScript(item, categoryName, wirable));
+    logger.detail(scriptPath);
+    return scriptPath;
+  });
+  fs.writeFileSync(path.join(outputDir, FIXTURE_MODULE), generateFixtureModule(categoryName, items));
+  logger.success(`${deployScripts.length} deploy scripts and ${FIXTURE_MODULE} written`);
+
+  // Step 4: Update configuration and write the docs pages
+  logger.step('⚙️  Step 4: Updating configuration and docs...');
+  updatePackageJson(outputDir, category, [...packages], required, logger);
+  items.forEach(item => {
+    fs.mkdirSync(path.join(outputDir, 'docs'), { recursive: true });
+    fs.writeFileSync(path.join(outputDir, item.docsFile), renderDocsPage(item));
+  });
+  logger.success('Configuration and docs updated');
+
+  // Step 5: Generate README
+  logger.step('📝 Step 5: Generating README...');
+  fs.writeFileSync(path.join(outputDir, 'README.md'), generateCategoryReadme(category, items));
+  logger.success('README.md generated');
+
+  return { outputPath: outputDir, contracts: contractNames, deployScripts };
+}
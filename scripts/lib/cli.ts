@@ -0,0 +1,274 @@
+/**
+ * cli - Subcommand and flag definitions of the fhevm-examples CLI
+ *
+ * One table describes every subcommand and the flags it accepts; argument
+ * parsing, help output and shell completion are all derived from it so they
+ * cannot drift apart.
+ */
+
+import { DOCS_FORMATS } from './renderers';
+
+// ============== TYPES ==============
+
+export type FlagType = 'boolean' | 'string';
+
+export interface FlagSpec {
+  type: FlagType;
+  description: string;
+  value?: string; // Placeholder shown in help, e.g. <dir>
+}
+
+export interface CommandSpec {
+  name: string;
+  args: string; // Positional arguments shown in help
+  summary: string;
+  flags: Record<string, FlagSpec>;
+}
+
+export interface ParsedArgs {
+  positional: string[];
+  flags: Record<string, string | boolean>;
+}
+
+// Thrown for arguments the command does not accept
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+// ============== COMMANDS ==============
+
+// Accepted by every subcommand
+export const GLOBAL_FLAGS: Record<string, FlagSpec> = {
+  json: { type: 'boolean', description: 'Print the result as JSON and nothing else' },
+  quiet: { type: 'boolean', description: 'Only print errors and the final result' },
+  help: { type: 'boolean', description: 'Show help for the command' },
+};
+
+const OUTPUT_FLAGS: Record<string, FlagSpec> = {
+  out: { type: 'string', value: '<dir>', description: 'Output directory' },
+  force: { type: 'boolean', description: 'Replace the output directory if it exists' },
+};
+
+export const COMMANDS: CommandSpec[] = [
+  {
+    name: 'create',
+    args: '[example...]',
+    summary: 'Generate standalone example repositories',
+    flags: {
+      ...OUTPUT_FLAGS,
+      all: { type: 'boolean', description: 'Generate every registered example' },
+      category: { type: 'string', value: '<name>', description: 'Generate every example of a category' },
+      concurrency: {
+        type: 'string',
+        value: '<n>',
+        description: 'With --verify, repos verified at once (default: CPU count)',
+      },
+      update: { type: 'boolean', description: 'Refresh existing outputs, merging in local edits' },
+      verify: { type: 'boolean', description: 'Install, compile and test each generated repo' },
+      offline: { type: 'boolean', description: 'With --verify, install from the npm cache only' },
+      'npm-cache': { type: 'string', value: '<dir>', description: 'With --verify, npm cache or mirror to use' },
+    },
+  },
+  {
+    name: 'category',
+    args: '<category|bundle-file>',
+    summary: 'Generate one project with every example of a category or a YAML/JSON bundle definition',
+    flags: {
+      ...OUTPUT_FLAGS,
+      collisions: {
+        type: 'string',
+        value: '<strategy>',
+        description: 'Examples sharing a file or contract name: fail (default) or namespace',
+      },
+      workspace: { type: 'boolean', description: 'Write an npm workspace with one standalone package per example' },
+    },
+  },
+  {
+    name: 'docs',
+    args: '[example]',
+    summary: 'Generate documentation pages',
+    flags: {
+      out: { type: 'string', value: '<file>', description: 'Page path (single example only)' },
+      all: { type: 'boolean', description: 'Generate pages for every example' },
+      'no-summary': { type: 'boolean', description: 'Skip updating SUMMARY.md' },
+      check: { type: 'boolean', description: 'Diff committed pages and SUMMARY.md against a fresh render' },
+      api: { type: 'boolean', description: 'Compile the contract and write API reference pages' },
+      format: { type: 'string', value: '<format>', description: `${DOCS_FORMATS.join(', ')} (default: gitbook)` },
+      costs: { type: 'boolean', description: 'Run the tests with gas reporting and store docs/costs/<example>.json' },
+      offline: { type: 'boolean', description: 'With --costs, install from the npm cache only' },
+      'npm-cache': { type: 'string', value: '<dir>', description: 'With --costs, npm cache or mirror to use' },
+    },
+  },
+  {
+    name: 'list',
+    args: '',
+    summary: 'List examples',
+    flags: {
+      category: { type: 'string', value: '<name>', description: 'Only examples of this category' },
+      difficulty: { type: 'string', value: '<level>', description: 'beginner, intermediate or advanced' },
+      query: {
+        type: 'string',
+        value: '<expr>',
+        description: 'Only examples matching a query, e.g. "difficulty=beginner AND concept=permissions"',
+      },
+    },
+  },
+  {
+    name: 'search',
+    args: '<query>',
+    summary: 'Search examples by name, title, concept, tag, description or function, best first',
+    flags: {
+      difficulty: { type: 'string', value: '<level>', description: 'beginner, intermediate or advanced' },
+      limit: { type: 'string', value: '<n>', description: 'Show at most n results' },
+    },
+  },
+  {
+    name: 'validate',
+    args: '',
+    summary: 'Check example metadata, pairing and registry',
+    flags: {},
+  },
+  {
+    name: 'completion',
+    args: '[bash|zsh]',
+    summary: 'Print a shell completion script',
+    flags: {},
+  },
+];
+
+export function getCommand(name: string): CommandSpec | undefined {
+  return COMMANDS.find(command => command.name === name);
+}
+
+// ============== PARSING ==============
+
+/**
+ * Split `argv` into positional arguments and the flags `command` accepts.
+ * Supports `--flag value` and `--flag=value`; `-h` is `--help`, `-q` is `--quiet`.
+ */
+export function parseArgs(argv: string[], command: CommandSpec): ParsedArgs {
+  const specs = { ...command.flags, ...GLOBAL_FLAGS };
+  const parsed: ParsedArgs = { positional: [], flags: {} };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i] === '-h' ? '--help' : argv[i] === '-q' ? '--quiet' : argv[i];
+    if (!arg.startsWith('--')) {
+      parsed.positional.push(arg);
+      continue;
+    }
+
+    const [name, inlineValue] = arg.slice(2).split(/=(.*)/s);
+    const spec = specs[name];
+    if (!spec) {
+      throw new UsageError(`Unknown option for "${command.name}": --${name}`);
+    }
+
+    if (spec.type === 'boolean') {
+      if (inlineValue !== undefined) {
+        throw new UsageError(`--${name} does not take a value`);
+      }
+      parsed.flags[name] = true;
+    } else {
+      const value = inlineValue !== undefined ? inlineValue : argv[++i];
+      if (value === undefined || value === '' || (inlineValue === undefined && value.startsWith('--'))) {
+        throw new UsageError(`--${name} requires a value ${spec.value || ''}`.trim());
+      }
+      parsed.flags[name] = value;
+    }
+  }
+
+  return parsed;
+}
+
+// ============== HELP ==============
+
+function formatFlags(flags: Record<string, FlagSpec>): string[] {
+  const rows = Object.entries(flags).map(([name, spec]) => [
+    `--${name}${spec.value ? ` ${spec.value}` : ''}`,
+    spec.description,
+  ]);
+  const width = Math.max(...rows.map(([flag]) => flag.length));
+  return rows.map(([flag, description]) => `  ${flag.padEnd(width)}  ${description}`);
+}
+
+export function formatCommandHelp(binary: string, command: CommandSpec): string {
+  const usage = `Usage: ${binary} ${command.name}${command.args ? ` ${command.args}` : ''} [options]`;
+  const lines = [usage, '', command.summary];
+  if (Object.keys(command.flags).length > 0) {
+    lines.push('', 'Options:', ...formatFlags(command.flags));
+  }
+  lines.push('', 'Global options:', ...formatFlags(GLOBAL_FLAGS));
+  return lines.join('\n');
+}
+
+export function formatHelp(binary: string): string {
+  const width = Math.max(...COMMANDS.map(command => command.name.length));
+  return [
+    `Usage: ${binary} <command> [options]`,
+    '',
+    'Commands:',
+    ...COMMANDS.map(command => `  ${command.name.padEnd(width)}  ${command.summary}`),
+    '',
+    'Global options:',
+    ...formatFlags(GLOBAL_FLAGS),
+    '',
+    `Run "${binary} <command> --help" for the options of a command.`,
+  ].join('\n');
+}
+
+// ============== COMPLETION ==============
+
+/**
+ * Bash completion script (zsh loads it through bashcompinit). Example and
+ * category names are embedded, so regenerate it after adding examples.
+ */
+export function completionScript(
+  binary: string,
+  shell: 'bash' | 'zsh',
+  names: { examples: string[]; categories: string[] },
+): string {
+  const functionName = `_${binary.replace(/[^a-zA-Z0-9]/g, '_')}_completion`;
+  const cases = COMMANDS.map(command => {
+    const flags = Object.keys({ ...command.flags, ...GLOBAL_FLAGS })
+      .map(name => `--${name}`)
+      .join(' ');
+    const words =
+      command.name === 'create' || command.name === 'docs'
+        ? names.examples.join(' ')
+        : command.name === 'category'
+          ? names.categories.join(' ')
+          : command.name === 'completion'
+            ? 'bash zsh'
+            : '';
+    return `    ${command.name}) words="${flags} ${words}" ;;`;
+  });
+
+  const lines = [
+    `# ${binary} completion for ${shell}`,
+    ...(shell === 'zsh' ? ['autoload -U +X bashcompinit && bashcompinit'] : []),
+    `${functionName}() {`,
+    '  local current="${COMP_WORDS[COMP_CWORD]}" previous="${COMP_WORDS[COMP_CWORD-1]}" words',
+    '  if [ "$COMP_CWORD" -eq 1 ]; then',
+    `    COMPREPLY=($(compgen -W "${COMMANDS.map(command => command.name).join(' ')}" -- "$current"))`,
+    '    return',
+    '  fi',
+    '  case "$previous" in',
+    `    --category) COMPREPLY=($(compgen -W "${names.categories.join(' ')}" -- "$current")); return ;;`,
+    '    --difficulty) COMPREPLY=($(compgen -W "beginner intermediate advanced" -- "$current")); return ;;',
+    `    --format) COMPREPLY=($(compgen -W "${DOCS_FORMATS.join(' ')}" -- "$current")); return ;;`,
+    '    --out|--npm-cache) COMPREPLY=($(compgen -d -- "$current")); return ;;',
+    '  esac',
+    '  case "${COMP_WORDS[1]}" in',
+    ...cases,
+    '    *) words="" ;;',
+    '  esac',
+    '  COMPREPLY=($(compgen -W "$words" -- "$current"))',
+    '}',
+    `complete -F ${functionName} ${binary}`,
+    '',
+  ];
+  return lines.join('\n');
+}
@@ -0,0 +1,25 @@
+/**
+ * compiler-settings - Solidity compiler settings shared by Hardhat and the docs generator
+ *
+ * hardhat.config.ts builds the contracts with these settings and compiler.ts
+ * compiles them with the same ones for the API reference, so both always see
+ * the same ABI and NatSpec.
+ */
+
+export const SOLIDITY_CONFIG = {
+  version: '0.8.27',
+  settings: {
+    metadata: {
+      // Not including the metadata hash
+      // https://github.com/paulrberg/hardhat-template/issues/31
+      bytecodeHash: 'none',
+    },
+    // Disable the optimizer when debugging
+    // https://hardhat.org/hardhat-network/#solidity-optimizer-support
+    optimizer: {
+      enabled: true,
+      runs: 800,
+    },
+    evmVersion: 'cancun',
+  },
+};
@@ -0,0 +1,141 @@
+/**
+ * compiler - Compiles example contracts with solc-js for their ABI and NatSpec
+ *
+ * Uses the compiler settings hardhat.config.ts builds with (compiler-settings.ts).
+ * Local imports are read relative to the root directory and package imports from
+ * node_modules, so a contract can be compiled without setting up a Hardhat
+ * project around it.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import solc from 'solc';
+import { SOLIDITY_CONFIG } from './compiler-settings';
+import { CompilationError } from './errors';
+import { ROOT_DIR } from './registry';
+
+// ============== TYPES ==============
+
+export interface AbiParameter {
+  name: string;
+  type: string; // ABI type, e.g. bytes32 for an encrypted handle
+  internalType?: string; // Solidity type, e.g. externalEuint32
+  indexed?: boolean; // Event parameters only
+  components?: AbiParameter[]; // Tuple members
+}
+
+export interface AbiEntry {
+  type: 'function' | 'event' | 'error' | 'constructor' | 'fallback' | 'receive';
+  name?: string;
+  inputs?: AbiParameter[];
+  outputs?: AbiParameter[];
+  stateMutability?: 'pure' | 'view' | 'nonpayable' | 'payable';
+  anonymous?: boolean;
+}
+
+export interface NatSpecEntry {
+  notice?: string;
+  details?: string;
+  params?: Record<string, string>;
+  returns?: Record<string, string>; // Keyed by return name, or _0, _1... when unnamed
+}
+
+// NatSpec for end users (@notice)
+export interface UserDoc {
+  notice?: string;
+  methods?: Record<string, NatSpecEntry>; // Keyed by signature
+  events?: Record<string, NatSpecEntry>;
+  errors?: Record<string, NatSpecEntry[]>;
+}
+
+// NatSpec for developers (@title, @dev, @param, @return)
+export interface DevDoc {
+  title?: string;
+  details?: string;
+  author?: string;
+  methods?: Record<string, NatSpecEntry>;
+  events?: Record<string, NatSpecEntry>;
+  errors?: Record<string, NatSpecEntry[]>;
+}
+
+export interface CompiledContract {
+  name: string;
+  sourceName: string; // Source unit name, relative to the root directory
+  abi: AbiEntry[];
+  userdoc: UserDoc;
+  devdoc: DevDoc;
+}
+
+export interface CompileOptions {
+  rootDir?: string; // Directory local sources are resolved against; defaults to the repository root
+}
+
+interface SolcOutput {
+  errors?: { severity: 'error' | 'warning' | 'info'; formattedMessage: string }[];
+  contracts?: Record<string, Record<string, { abi: AbiEntry[]; userdoc: UserDoc; devdoc: DevDoc }>>;
+}
+
+type ImportResult = { contents: string } | { error: string };
+
+// ============== HELPERS ==============
+
+function toSourceName(rootDir: string, filePath: string): string {
+  return path.relative(rootDir, filePath).split(path.sep).join('/');
+}
+
+// Local files first, then npm packages as Hardhat resolves them
+function findImport(rootDir: string, importPath: string): ImportResult {
+  const localPath = path.join(rootDir, importPath);
+  if (fs.existsSync(localPath)) {
+    return { contents: fs.readFileSync(localPath, 'utf-8') };
+  }
+  try {
+    return { contents: fs.readFileSync(require.resolve(importPath, { paths: [rootDir] }), 'utf-8') };
+  } catch {
+    return { error: `File not found: ${importPath}` };
+  }
+}
+
+// ============== PUBLIC API ==============
+
+/**
+ * Compile `contractFile` and return every contract, interface and library it
+ * declares.
+ *
+ * Throws CompilationError listing solc's error messages when it does not compile.
+ */
+export function compileContract(contractFile: string, options: CompileOptions = {}): CompiledContract[] {
+  const rootDir = options.rootDir || ROOT_DIR;
+  const fullPath = path.resolve(rootDir, contractFile);
+  if (!fs.existsSync(fullPath)) {
+    throw new CompilationError(contractFile, [`File not found: ${contractFile}`]);
+  }
+
+  const sourceName = toSourceName(rootDir, fullPath);
+  const input = {
+    language: 'Solidity',
+    sources: { [sourceName]: { content: fs.readFileSync(fullPath, 'utf-8') } },
+    settings: {
+      ...SOLIDITY_CONFIG.settings,
+      outputSelection: { [sourceName]: { '*': ['abi', 'userdoc', 'devdoc'] } },
+    },
+  };
+
+  const output: SolcOutput = JSON.parse(
+    solc.compile(JSON.stringify(input), { import: importPath => findImport(rootDir, importPath) }),
+  );
+
+  const errors = (output.errors || []).filter(e => e.severity === 'error').map(e => e.formattedMessage.trim());
+  if (errors.length > 0) {
+    throw new CompilationError(contractFile, errors);
+  }
+
+  const contracts = (output.contracts || {})[sourceName] || {};
+  return Object.entries(contracts).map(([name, contract]) => ({
+    name,
+    sourceName,
+    abi: contract.abi,
+    userdoc: contract.userdoc || {},
+    devdoc: contract.devdoc || {},
+  }));
+}
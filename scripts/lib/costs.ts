@@ -0,0 +1,370 @@
+/**
+ * costs - FHE operation counts and measured gas of each example's functions
+ *
+ * countFheOperations reads a contract and counts the FHE library calls
+ * (FHE.add, FHE.select, FHE.asEuint32, ...) each public function makes,
+ * including those of the internal functions it calls; ACL bookkeeping such as
+ * FHE.allow is not an operation. measureCosts runs the example's tests in a
+ * generated repo with hardhat-gas-reporter and stores both in
+ * docs/costs/<example>.json, which is committed next to the pages so a change
+ * in either shows up in review. The docs build only reads that file back into
+ * the page's cost table; it never runs the tests itself.
+ */
+
+import { parse, visit } from '@solidity-parser/parser';
+import type * as AST from '@solidity-parser/parser/dist/src/ast-types';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Block } from './document';
+import { CostMeasurementError, UnknownExampleError } from './errors';
+import { createExample } from './example';
+import { Logger, silentLogger } from './logger';
+import { ExampleConfig, EXAMPLES_MAP, getExample, resolveExamplePath } from './registry';
+import { analyzeSolidity, findMainContract, SolidityParseError } from './solidity';
+import { GasStats, GasUsage, VerifyOptions } from './verify';
+
+// ============== TYPES ==============
+
+export type OperationCounts = Record<string, number>; // FHE function → calls, e.g. { add: 1, fromExternal: 2 }
+
+export interface FunctionOperations {
+  contract: string;
+  function: string; // Function name, or constructor
+  operations: OperationCounts;
+}
+
+export interface FunctionCost {
+  name: string;
+  operations: OperationCounts;
+  gas: GasStats | null; // Null when the tests never call the function
+}
+
+export interface CostReport {
+  schemaVersion: number;
+  example: string;
+  contract: string;
+  contractHash: string; // sha256 of the measured contract with LF line endings
+  deployment: GasStats | null;
+  functions: FunctionCost[]; // Sorted by name
+}
+
+export interface MeasureCostsOptions extends VerifyOptions {
+  rootDir?: string; // Directory holding docs/; defaults to the working directory
+  logger?: Logger;
+}
+
+// ============== CONSTANTS ==============
+
+export const COST_REPORT_SCHEMA_VERSION = 1;
+
+// Relative to the docs root directory, whatever the page format
+export const COSTS_DIR = 'docs/costs';
+
+const FHE_LIBRARIES = ['FHE', 'TFHE'];
+
+// Library calls that manage access or decryption rather than compute on ciphertexts
+const NON_OPERATIONS = [
+  'allow',
+  'allowThis',
+  'allowTransient',
+  'allowForDecryption',
+  'isAllowed',
+  'isSenderAllowed',
+  'makePubliclyDecryptable',
+  'isPubliclyDecryptable',
+  'isInitialized',
+  'toBytes32',
+  'checkSignatures',
+  'requestDecryption',
+  'cleanTransientStorage',
+];
+
+// ============== OPERATION COUNTS ==============
+
+interface FunctionCalls {
+  operations: OperationCounts;
+  internal: string[]; // Names of the contract's own functions called, once per call
+}
+
+function addCounts(target: OperationCounts, source: OperationCounts): void {
+  Object.entries(source).forEach(([operation, count]) => {
+    target[operation] = (target[operation] || 0) + count;
+  });
+}
+
+function sortCounts(counts: OperationCounts): OperationCounts {
+  const sorted: OperationCounts = {};
+  Object.keys(counts)
+    .sort()
+    .forEach(operation => {
+      sorted[operation] = counts[operation];
+    });
+  return sorted;
+}
+
+function directCalls(body: AST.Block, functionNames: Set<string>): FunctionCalls {
+  const calls: FunctionCalls = { operations: {}, internal: [] };
+  visit(body, {
+    FunctionCall: call => {
+      const callee = call.expression;
+      if (
+        callee.type === 'MemberAccess' &&
+        callee.expression.type === 'Identifier' &&
+        FHE_LIBRARIES.includes(callee.expression.name) &&
+        !NON_OPERATIONS.includes(callee.memberName)
+      ) {
+        addCounts(calls.operations, { [callee.memberName]: 1 });
+      } else if (callee.type === 'Identifier' && functionNames.has(callee.name)) {
+        calls.internal.push(callee.name);
+      }
+    },
+  });
+  return calls;
+}
+
+function countContract(contract: AST.ContractDefinition): FunctionOperations[] {
+  const functions = contract.subNodes.filter(
+    (node): node is AST.FunctionDefinition =>
+      node.type === 'FunctionDefinition' && Boolean((node as AST.FunctionDefinition).body),
+  );
+  const functionNames = new Set(functions.map(fn => fn.name).filter((name): name is string => Boolean(name)));
+  const calls = new Map(functions.map(fn => [fn, directCalls(fn.body as AST.Block, functionNames)]));
+
+  // Overloads share a name, so a call counts the operations of all of them; recursion counts once
+  const total = (fnCalls: FunctionCalls, stack: string[]): OperationCounts => {
+    const counts: OperationCounts = { ...fnCalls.operations };
+    fnCalls.internal
+      .filter(name => !stack.includes(name))
+      .forEach(name => {
+        functions
+          .filter(fn => fn.name === name)
+          .forEach(fn => addCounts(counts, total(calls.get(fn) as FunctionCalls, [...stack, name])));
+      });
+    return counts;
+  };
+
+  return functions
+    .filter(fn => fn.isConstructor || fn.visibility === 'public' || fn.visibility === 'external')
+    .map(fn => ({
+      contract: contract.name,
+      function: fn.isConstructor ? 'constructor' : fn.name || 'fallback',
+      operations: sortCounts(total(calls.get(fn) as FunctionCalls, fn.name ? [fn.name] : [])),
+    }))
+    .filter(fn => Object.keys(fn.operations).length > 0);
+}
+
+/**
+ * Count the FHE operations of every public and external function (and
+ * constructor) in `source`, skipping functions that perform none. Counts are
+ * per call site, so an operation inside a loop counts once.
+ */
+export function countFheOperations(source: string, filePath: string | null = null): FunctionOperations[] {
+  let unit: AST.SourceUnit;
+  try {
+    unit = parse(source) as AST.SourceUnit;
+  } catch (err) {
+    throw new SolidityParseError(filePath, err instanceof Error ? err.message : String(err));
+  }
+
+  return unit.children
+    .filter(node => node.type === 'ContractDefinition')
+    .flatMap(node => countContract(node as AST.ContractDefinition));
+}
+
+// ============== REPORTS ==============
+
+function contractHash(source: string): string {
+  return crypto.createHash('sha256').update(source.replace(/\r\n/g, '\n')).digest('hex');
+}
+
+// Overloads are one row in the cost table, so their measurements are combined
+function combineGas(stats: GasStats[]): GasStats | null {
+  if (stats.length === 0) {
+    return null;
+  }
+  const calls = stats.reduce((sum, entry) => sum + entry.calls, 0);
+  return {
+    min: Math.min(...stats.map(entry => entry.min)),
+    max: Math.max(...stats.map(entry => entry.max)),
+    avg: Math.round(stats.reduce((sum, entry) => sum + entry.avg * entry.calls, 0) / calls),
+    calls,
+  };
+}
+
+/**
+ * Combine the main contract's operation counts with the gas the tests
+ * measured. Functions appear when they perform FHE operations or were called.
+ */
+export function buildCostReport(example: ExampleConfig, contractSource: string, gas: GasUsage): CostReport {
+  const main = findMainContract(analyzeSolidity(contractSource, example.contractFile));
+  const contract = main ? main.name : '';
+  const operations = countFheOperations(contractSource, example.contractFile).filter(fn => fn.contract === contract);
+  const methods = gas.methods.filter(method => method.contract === contract);
+
+  const names = new Set([...operations.map(fn => fn.function), ...methods.map(method => method.method)]);
+  const functions = [...names].sort().map(name => {
+    const counted = operations.find(fn => fn.function === name);
+    return {
+      name,
+      operations: counted ? counted.operations : {},
+      gas: combineGas(methods.filter(method => method.method === name)),
+    };
+  });
+
+  return {
+    schemaVersion: COST_REPORT_SCHEMA_VERSION,
+    example: example.name,
+    contract,
+    contractHash: contractHash(contractSource),
+    deployment: combineGas(gas.deployments.filter(deployment => deployment.contract === contract)),
+    functions,
+  };
+}
+
+// Relative to the docs root directory
+export function costReportPath(exampleName: string): string {
+  return path.posix.join(COSTS_DIR, `${exampleName}.json`);
+}
+
+// The stored report of an example, or null when its costs were never measured
+export function readCostReport(rootDir: string, exampleName: string): CostReport | null {
+  const filePath = path.join(rootDir, costReportPath(exampleName));
+  return fs.existsSync(filePath) ? (JSON.parse(fs.readFileSync(filePath, 'utf-8')) as CostReport) : null;
+}
+
+// Returns the written path relative to rootDir
+export function writeCostReport(rootDir: string, report: CostReport, logger: Logger = silentLogger): string {
+  const relativePath = costReportPath(report.example);
+  fs.mkdirSync(path.join(rootDir, COSTS_DIR), { recursive: true });
+  fs.writeFileSync(path.join(rootDir, relativePath), `${JSON.stringify(report, null, 2)}\n`);
+  logger.detail(relativePath);
+  return relativePath;
+}
+
+// ============== PAGE ==============
+
+function formatGas(gas: number): string {
+  return String(gas).replace(/\B(?=(\d{3})+$)/g, ',');
+}
+
+function formatOperations(operations: OperationCounts): string {
+  const entries = Object.entries(operations);
+  if (entries.length === 0) {
+    return '—';
+  }
+  return entries.map(([operation, count]) => `\`${operation}\`${count > 1 ? ` ×${count}` : ''}`).join(', ');
+}
+
+function gasColumns(gas: GasStats | null): string[] {
+  if (!gas) {
+    return ['—', '—'];
+  }
+  return [`${formatGas(gas.min)} / ${formatGas(gas.avg)} / ${formatGas(gas.max)}`, String(gas.calls)];
+}
+
+/**
+ * The page's "Costs" section: FHE operations counted from `contractContent`
+ * and, when `report` is given, the gas its tests measured. A report taken on
+ * another version of the contract is flagged. Empty when the contract performs
+ * no FHE operations and nothing was measured.
+ */
+export function buildCostBlocks(
+  exampleName: string,
+  contractFile: string,
+  contractContent: string,
+  report: CostReport | null = null,
+): Block[] {
+  const main = findMainContract(analyzeSolidity(contractContent, contractFile));
+  const operations = countFheOperations(contractContent, contractFile).filter(
+    fn => main && fn.contract === main.name,
+  );
+  if (operations.length === 0 && !report) {
+    return [];
+  }
+
+  const measured = new Map((report ? report.functions : []).map(fn => [fn.name, fn.gas]));
+  const names = [...new Set([...operations.map(fn => fn.function), ...measured.keys()])].sort();
+  const rows = names.map(name => {
+    const counted = operations.find(fn => fn.function === name);
+    const gas = gasColumns(measured.get(name) || null);
+    return [`\`${name}\``, formatOperations(counted ? counted.operations : {}), ...gas];
+  });
+  if (report && report.deployment) {
+    rows.unshift(['_deployment_', '—', ...gasColumns(report.deployment)]);
+  }
+
+  const command = `npm run generate-docs ${exampleName} -- --costs`;
+  const blocks: Block[] = [
+    { type: 'heading', level: 2, text: 'Costs' },
+    {
+      type: 'paragraph',
+      text:
+        'FHE operations each function performs, counted from the contract, and the gas its calls used when the ' +
+        'tests ran on the Hardhat network with the FHEVM mock (min / avg / max over the calls the tests made).',
+    },
+    { type: 'table', headers: ['Function', 'FHE operations', 'Gas (min / avg / max)', 'Calls'], rows },
+  ];
+
+  if (!report) {
+    blocks.push({
+      type: 'hint',
+      style: 'info',
+      blocks: [{ type: 'paragraph', text: `Gas has not been measured yet. Run \`${command}\` to measure it.` }],
+    });
+  } else if (report.contractHash !== contractHash(contractContent)) {
+    blocks.push({
+      type: 'hint',
+      style: 'warning',
+      blocks: [
+        {
+          type: 'paragraph',
+          text: `Gas was measured on an earlier version of the contract. Run \`${command}\` to measure it again.`,
+        },
+      ],
+    });
+  }
+
+  return blocks;
+}
+
+// ============== PUBLIC API ==============
+
+/**
+ * Generate the example into a temporary directory, run its tests with gas
+ * reporting and write docs/costs/<example>.json under rootDir.
+ *
+ * Throws UnknownExampleError for names missing from the registry and
+ * CostMeasurementError when the repo does not install, compile or pass its
+ * tests, or the gas reporter writes nothing.
+ */
+export async function measureCosts(exampleName: string, options: MeasureCostsOptions = {}): Promise<CostReport> {
+  const logger = options.logger || silentLogger;
+  const example = getExample(exampleName);
+  if (!example) {
+    throw new UnknownExampleError(exampleName, Object.keys(EXAMPLES_MAP));
+  }
+
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fhevm-costs-'));
+  try {
+    const result = await createExample(exampleName, path.join(tempDir, exampleName), {
+      ...options,
+      verify: true,
+      gasReport: true,
+      logger,
+    });
+    const gas = result.verification && result.verification.gas;
+    if (!result.success || !gas) {
+      const errors = result.success ? ['The gas reporter wrote no output'] : result.errors;
+      throw new CostMeasurementError(exampleName, errors);
+    }
+
+    const contractSource = fs.readFileSync(resolveExamplePath(example.contractFile), 'utf-8');
+    const report = buildCostReport(example, contractSource, gas);
+    writeCostReport(options.rootDir || process.cwd(), report, logger);
+    return report;
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
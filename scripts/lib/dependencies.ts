@@ -0,0 +1,128 @@
+/**
+ * dependencies - npm packages declared by examples and categories
+ *
+ * Examples declare the packages they need beyond the template with
+ * `@custom:dependencies`, categories with `additionalDeps`. Before a project is
+ * generated, the requirements of everything it holds are merged: ranges that
+ * can be satisfied together collapse to the narrowest one, and ranges that
+ * cannot are all reported in one DependencyConflictError before anything is
+ * written.
+ */
+
+import * as semver from 'semver';
+import { DependencyConflictError } from './errors';
+import { Logger, silentLogger } from './logger';
+import { Category, ExampleConfig } from './registry';
+
+// ============== TYPES ==============
+
+export interface DependencyRequirement {
+  packageName: string;
+  range: string; // Version range, e.g. ^0.2.0
+  source: string; // Who requires it, e.g. example fhe-add or category basic
+}
+
+export interface DependencyConflict {
+  packageName: string;
+  requirements: DependencyRequirement[];
+}
+
+// The parts of a package.json dependencies are written into
+export interface PackageManifest {
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+}
+
+// ============== MERGING ==============
+
+/**
+ * Everything the examples and the category declare, in that order.
+ */
+export function collectRequirements(examples: ExampleConfig[], category?: Category): DependencyRequirement[] {
+  const declared = (deps: Record<string, string> | undefined, source: string) =>
+    Object.entries(deps || {}).map(([packageName, range]) => ({ packageName, range, source }));
+
+  return [
+    ...examples.flatMap(example => declared(example.additionalDeps, `example ${example.name}`)),
+    ...(category ? declared(category.additionalDeps, `category ${category.name}`) : []),
+  ];
+}
+
+// Ranges that are not semver ranges (tags, URLs) only agree with themselves
+function compatible(a: string, b: string): boolean {
+  if (a === b) {
+    return true;
+  }
+  return semver.validRange(a) !== null && semver.validRange(b) !== null && semver.intersects(a, b);
+}
+
+// A range within every other one, or else all of them at once (space-separated ranges intersect).
+// Tags such as latest are kept as they are; semver.subset throws on them
+function narrowest(ranges: string[]): string {
+  const unique = [...new Set(ranges)];
+  if (unique.some(range => semver.validRange(range) === null)) {
+    return unique.join(' ');
+  }
+  const subset = unique.find(range => unique.every(other => semver.subset(range, other)));
+  return subset || unique.join(' ');
+}
+
+function groupByPackage(requirements: DependencyRequirement[]): Map<string, DependencyRequirement[]> {
+  const groups = new Map<string, DependencyRequirement[]>();
+  requirements.forEach(requirement => {
+    groups.set(requirement.packageName, [...(groups.get(requirement.packageName) || []), requirement]);
+  });
+  return groups;
+}
+
+/**
+ * Packages whose required ranges cannot all be satisfied by one version.
+ */
+export function findDependencyConflicts(requirements: DependencyRequirement[]): DependencyConflict[] {
+  return [...groupByPackage(requirements)]
+    .filter(([, group]) => group.some((a, i) => group.slice(i + 1).some(b => !compatible(a.range, b.range))))
+    .map(([packageName, group]) => ({ packageName, requirements: group }));
+}
+
+/**
+ * Merge the requirements into one range per package. Throws
+ * DependencyConflictError listing every package required in incompatible
+ * versions.
+ */
+export function mergeDependencies(requirements: DependencyRequirement[]): Record<string, string> {
+  const conflicts = findDependencyConflicts(requirements);
+  if (conflicts.length > 0) {
+    throw new DependencyConflictError(conflicts);
+  }
+
+  const merged: Record<string, string> = {};
+  groupByPackage(requirements).forEach((group, packageName) => {
+    merged[packageName] = narrowest(group.map(requirement => requirement.range));
+  });
+  return merged;
+}
+
+// ============== MANIFEST ==============
+
+/**
+ * Write `dependencies` into a package.json: packages the template already
+ * declares keep their section, new ones go to `dependencies`. Replacing a
+ * template range that the new one does not overlap is logged as a warning.
+ */
+export function applyDependencies(
+  packageJson: PackageManifest,
+  dependencies: Record<string, string>,
+  logger: Logger = silentLogger,
+): void {
+  Object.entries(dependencies).forEach(([packageName, range]) => {
+    const section =
+      packageJson.devDependencies && packageJson.devDependencies[packageName] ? 'devDependencies' : 'dependencies';
+    const current = (packageJson[section] || {})[packageName];
+
+    if (current && !compatible(current, range)) {
+      logger.warn(`${packageName}@${range} replaces the template's ${current}`);
+    }
+    packageJson[section] = { ...packageJson[section], [packageName]: range };
+    logger.detail(`Dependency: ${packageName}@${range}`);
+  });
+}
@@ -0,0 +1,145 @@
+/**
+ * diff - Line diffs shared by the merge and the docs drift check
+ *
+ * diffHunks finds the changed regions between two line arrays from a longest
+ * common subsequence; unifiedDiff prints them the way `diff -u` and git do.
+ */
+
+// ============== TYPES ==============
+
+// A changed region: base lines [baseStart, baseEnd) became side lines [sideStart, sideEnd)
+export interface Hunk {
+  baseStart: number;
+  baseEnd: number;
+  sideStart: number;
+  sideEnd: number;
+}
+
+// ============== HUNKS ==============
+
+/**
+ * Regions where `side` differs from `base`, from a longest common subsequence
+ * of their lines.
+ */
+export function diffHunks(base: string[], side: string[]): Hunk[] {
+  // Common prefix and suffix never change and would only grow the table
+  let prefix = 0;
+  while (prefix < base.length && prefix < side.length && base[prefix] === side[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < base.length - prefix &&
+    suffix < side.length - prefix &&
+    base[base.length - 1 - suffix] === side[side.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = base.slice(prefix, base.length - suffix);
+  const b = side.slice(prefix, side.length - suffix);
+  const width = b.length + 1;
+  const lcs = new Int32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j] ? lcs[(i + 1) * width + j + 1] + 1 : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const hunks: Hunk[] = [];
+  let i = 0;
+  let j = 0;
+  let hunk: Hunk | null = null;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      if (hunk) {
+        hunks.push(hunk);
+        hunk = null;
+      }
+      i++;
+      j++;
+      continue;
+    }
+    if (!hunk) {
+      hunk = { baseStart: prefix + i, baseEnd: prefix + i, sideStart: prefix + j, sideEnd: prefix + j };
+    }
+    if (j < b.length && (i === a.length || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+      j++;
+      hunk.sideEnd = prefix + j;
+    } else {
+      i++;
+      hunk.baseEnd = prefix + i;
+    }
+  }
+  if (hunk) {
+    hunks.push(hunk);
+  }
+
+  return hunks;
+}
+
+// ============== UNIFIED DIFF ==============
+
+// Lines of a file; a final newline does not start another line
+function fileLines(text: string): string[] {
+  if (text === '') {
+    return [];
+  }
+  return text.replace(/\n$/, '').split('\n');
+}
+
+// `start,count` of a hunk header; an empty range names the line before it
+function range(start: number, count: number): string {
+  return `${count === 0 ? start : start + 1},${count}`;
+}
+
+/**
+ * Unified diff from `before` to `after` with `context` unchanged lines around
+ * each change. Returns an empty string when the texts are equal.
+ */
+export function unifiedDiff(
+  before: string,
+  after: string,
+  labels: { before: string; after: string },
+  context: number = 3,
+): string {
+  const base = fileLines(before);
+  const side = fileLines(after);
+  const hunks = diffHunks(base, side);
+  if (hunks.length === 0) {
+    return '';
+  }
+
+  const output = [`--- ${labels.before}`, `+++ ${labels.after}`];
+  let index = 0;
+  while (index < hunks.length) {
+    // Hunks whose context would overlap are printed as one
+    let next = index + 1;
+    while (next < hunks.length && hunks[next].baseStart - hunks[next - 1].baseEnd <= 2 * context) {
+      next++;
+    }
+    const group = hunks.slice(index, next);
+    const first = group[0];
+    const last = group[group.length - 1];
+
+    const baseStart = Math.max(0, first.baseStart - context);
+    const baseEnd = Math.min(base.length, last.baseEnd + context);
+    const sideStart = first.sideStart - (first.baseStart - baseStart);
+    const sideEnd = last.sideEnd + (baseEnd - last.baseEnd);
+    output.push(`@@ -${range(baseStart, baseEnd - baseStart)} +${range(sideStart, sideEnd - sideStart)} @@`);
+
+    let position = baseStart;
+    group.forEach(hunk => {
+      output.push(...base.slice(position, hunk.baseStart).map(line => ` ${line}`));
+      output.push(...base.slice(hunk.baseStart, hunk.baseEnd).map(line => `-${line}`));
+      output.push(...side.slice(hunk.sideStart, hunk.sideEnd).map(line => `+${line}`));
+      position = hunk.baseEnd;
+    });
+    output.push(...base.slice(position, baseEnd).map(line => ` ${line}`));
+
+    index = next;
+  }
+
+  return output.join('\n') + '\n';
+}
@@ -0,0 +1,325 @@
+/**
+ * discovery - Builds example configurations from NatSpec front-matter in contracts
+ *
+ * Every contract under contracts/ that carries a `@custom:example` tag becomes an
+ * example. Its test is found by convention: contracts/<dir>/<Name>.sol pairs with
+ * test/<dir>/<Name>.test.ts (or test/<dir>/<Name>.ts). Supported tags:
+ *
+ *   @custom:example        Machine-readable name (required)
+ *   @custom:category       Category name (required)
+ *   @custom:difficulty     beginner | intermediate | advanced (required)
+ *   @custom:title          Display title (defaults to @title)
+ *   @custom:concepts       Comma-separated concepts
+ *   @custom:tags           Comma-separated search tags
+ *   @custom:chapter        Documentation chapter
+ *   @custom:prerequisites  Comma-separated example names
+ *   @custom:objectives     Semicolon-separated learning objectives
+ *   @custom:test           Explicit test path, overriding the convention
+ *   @custom:fixture        Shared test fixture
+ *   @custom:additional-files  Comma-separated extra test helpers
+ *   @custom:fixed-by       Anti-patterns: example with the corrected code
+ *   @custom:error          Anti-patterns: what goes wrong, if the test does not assert it
+ *   @custom:dependencies   Comma-separated npm packages beyond the template, as name@range
+ *   @custom:deploy-args    Semicolon-separated constructor arguments, as parameter=expression
+ *
+ * The description is taken from @notice.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Difficulty, ExampleConfig } from './registry';
+import { analyzeSolidity, SolidityFile } from './solidity';
+
+// ============== TYPES ==============
+
+export interface DiscoveryResult {
+  examples: Record<string, ExampleConfig>;
+  errors: string[]; // Metadata that cannot produce a valid example
+  orphanedTests: string[]; // Test files not paired with any example contract
+  contractsWithoutMetadata: string[]; // Contract files with no @custom:example tag
+}
+
+interface DiscoveryOptions {
+  contractsDir?: string; // Relative to the root directory
+  testDir?: string; // Relative to the root directory
+  ignoredTestDirs?: string[]; // Relative to the test directory
+}
+
+// ============== CONSTANTS ==============
+
+const DIFFICULTIES: Difficulty[] = ['beginner', 'intermediate', 'advanced'];
+
+// Unit tests for the scripts themselves are not example tests
+const DEFAULT_IGNORED_TEST_DIRS = ['scripts'];
+
+// ============== FILE HELPERS ==============
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
+
+function listFiles(dir: string, extensions: string[], ignoredDirs: string[] = []): string[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  const files: string[] = [];
+  fs.readdirSync(dir, { withFileTypes: true })
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .forEach(entry => {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!ignoredDirs.includes(entry.name)) {
+          files.push(...listFiles(entryPath, extensions));
+        }
+      } else if (extensions.some(ext => entry.name.endsWith(ext))) {
+        files.push(entryPath);
+      }
+    });
+  return files;
+}
+
+// ============== NATSPEC PARSING ==============
+
+/**
+ * Return the NatSpec comment immediately preceding `index`, written either as
+ * a `/** ... *\/` block or as consecutive `///` lines, without comment markers.
+ */
+export function extractNatSpecBefore(source: string, index: number): string {
+  const before = source.slice(0, index).replace(/\s+$/, '');
+
+  if (before.endsWith('*/')) {
+    const start = before.lastIndexOf('/**');
+    if (start === -1) {
+      return '';
+    }
+    return before
+      .slice(start + 3, -2)
+      .split(/\r?\n/)
+      .map(line => line.replace(/^\s*\*?\s?/, ''))
+      .join('\n')
+      .trim();
+  }
+
+  const lines = before.split(/\r?\n/);
+  const docLines: string[] = [];
+  for (let i = lines.length - 1; i >= 0 && /^\s*\/\/\//.test(lines[i]); i--) {
+    docLines.unshift(lines[i].replace(/^\s*\/\/\/\s?/, ''));
+  }
+  return docLines.join('\n').trim();
+}
+
+// Parse NatSpec text into tag → value, joining continuation lines with a space
+export function parseNatSpecTags(natspec: string): Record<string, string> {
+  const tags: Record<string, string> = {};
+  let current: string | null = null;
+
+  natspec.split('\n').forEach(line => {
+    const match = line.match(/^\s*@([\w:-]+)\s*(.*)$/);
+    if (match) {
+      current = match[1];
+      tags[current] = tags[current] ? `${tags[current]} ${match[2].trim()}` : match[2].trim();
+    } else if (current && line.trim()) {
+      tags[current] = `${tags[current]} ${line.trim()}`.trim();
+    }
+  });
+
+  return tags;
+}
+
+function splitList(value: string | undefined, separator: string): string[] {
+  if (!value) {
+    return [];
+  }
+  return value
+    .split(separator)
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+// ============== DISCOVERY ==============
+
+function findConventionalTest(rootDir: string, testDir: string, contractRelative: string): string | null {
+  const dir = path.dirname(contractRelative);
+  const stem = path.basename(contractRelative, '.sol');
+  const candidates = [`${stem}.test.ts`, `${stem}.ts`].map(file => toPosix(path.join(testDir, dir, file)));
+  return candidates.find(candidate => fs.existsSync(path.join(rootDir, candidate))) || null;
+}
+
+// `@openzeppelin/confidential-contracts@^0.2.0, fhevm-utils@1.0.0`; a scope's leading @ is not a separator
+function parseDependencies(
+  value: string | undefined,
+  contractFile: string,
+  name: string,
+  errors: string[],
+): Record<string, string> {
+  const dependencies: Record<string, string> = {};
+  splitList(value, ',').forEach(entry => {
+    const separator = entry.lastIndexOf('@');
+    if (separator <= 0) {
+      errors.push(
+        `${contractFile}: example "${name}" dependency "${entry}" needs a version range, e.g. ${entry}@^1.0.0`,
+      );
+    } else {
+      dependencies[entry.slice(0, separator)] = entry.slice(separator + 1);
+    }
+  });
+  return dependencies;
+}
+
+// `fee=1000; owner=deployer`; expressions are TypeScript of the deploy script, where `deployer` is in scope
+function parseDeployArgs(
+  value: string | undefined,
+  contractFile: string,
+  name: string,
+  errors: string[],
+): Record<string, string> {
+  const args: Record<string, string> = {};
+  splitList(value, ';').forEach(entry => {
+    const separator = entry.indexOf('=');
+    if (separator <= 0 || entry.slice(separator + 1).trim() === '') {
+      errors.push(`${contractFile}: example "${name}" deploy argument "${entry}" must read parameter=expression`);
+    } else {
+      args[entry.slice(0, separator).trim()] = entry.slice(separator + 1).trim();
+    }
+  });
+  return args;
+}
+
+function buildExample(
+  tags: Record<string, string>,
+  contractFile: string,
+  testFile: string | null,
+  errors: string[],
+): ExampleConfig | null {
+  const name = tags['custom:example'];
+  const category = tags['custom:category'];
+  const difficulty = tags['custom:difficulty'] as Difficulty;
+  const problemsBefore = errors.length;
+
+  if (!category) {
+    errors.push(`${contractFile}: example "${name}" is missing @custom:category`);
+  }
+  if (!DIFFICULTIES.includes(difficulty)) {
+    errors.push(
+      `${contractFile}: example "${name}" needs @custom:difficulty set to one of ${DIFFICULTIES.join(', ')}`,
+    );
+  }
+  if (!testFile) {
+    errors.push(`${contractFile}: example "${name}" has no test file (add one by convention or set @custom:test)`);
+  }
+  const dependencies = parseDependencies(tags['custom:dependencies'], contractFile, name, errors);
+  const deployArgs = parseDeployArgs(tags['custom:deploy-args'], contractFile, name, errors);
+  if (errors.length > problemsBefore || !testFile) {
+    return null;
+  }
+
+  const example: ExampleConfig = {
+    name,
+    title: tags['custom:title'] || tags.title || name,
+    description: tags.notice || '',
+    category,
+    contractFile,
+    testFile,
+    difficulty,
+    concepts: splitList(tags['custom:concepts'], ','),
+    tags: splitList(tags['custom:tags'], ','),
+  };
+
+  if (tags['custom:chapter']) {
+    example.chapter = tags['custom:chapter'];
+  }
+  if (tags['custom:prerequisites']) {
+    example.prerequisites = splitList(tags['custom:prerequisites'], ',');
+  }
+  if (tags['custom:objectives']) {
+    example.learningObjectives = splitList(tags['custom:objectives'], ';');
+  }
+  if (tags['custom:fixture']) {
+    example.fixture = tags['custom:fixture'];
+  }
+  if (tags['custom:additional-files']) {
+    example.additionalFiles = splitList(tags['custom:additional-files'], ',');
+  }
+  if (tags['custom:fixed-by']) {
+    example.fixedBy = tags['custom:fixed-by'];
+  }
+  if (tags['custom:error']) {
+    example.expectedError = tags['custom:error'];
+  }
+  if (Object.keys(dependencies).length > 0) {
+    example.additionalDeps = dependencies;
+  }
+  if (Object.keys(deployArgs).length > 0) {
+    example.deployArgs = deployArgs;
+  }
+
+  return example;
+}
+
+/**
+ * Scan the contracts directory for example front-matter and pair each example
+ * contract with its test. Nothing here throws: problems are collected in the
+ * result so callers can report all of them at once.
+ */
+export function discoverExamples(rootDir: string, options: DiscoveryOptions = {}): DiscoveryResult {
+  const contractsDir = options.contractsDir || 'contracts';
+  const testDir = options.testDir || 'test';
+  const ignoredTestDirs = options.ignoredTestDirs || DEFAULT_IGNORED_TEST_DIRS;
+
+  const result: DiscoveryResult = { examples: {}, errors: [], orphanedTests: [], contractsWithoutMetadata: [] };
+  const pairedTests = new Set<string>();
+
+  listFiles(path.join(rootDir, contractsDir), ['.sol']).forEach(contractPath => {
+    const contractFile = toPosix(path.relative(rootDir, contractPath));
+    const contractRelative = path.relative(path.join(rootDir, contractsDir), contractPath);
+    const source = fs.readFileSync(contractPath, 'utf-8');
+
+    let file: SolidityFile;
+    try {
+      file = analyzeSolidity(source, contractFile);
+    } catch (err) {
+      result.errors.push(err instanceof Error ? err.message : String(err));
+      return;
+    }
+
+    const hasContract = file.contracts.some(contract => contract.kind === 'contract');
+    let hasMetadata = false;
+
+    file.contracts.forEach(contract => {
+      const tags = parseNatSpecTags(extractNatSpecBefore(source, contract.range[0]));
+      const name = tags['custom:example'];
+      if (!name) {
+        return;
+      }
+      hasMetadata = true;
+
+      if (result.examples[name]) {
+        result.errors.push(
+          `${contractFile}: example "${name}" is already declared in ${result.examples[name].contractFile}`,
+        );
+        return;
+      }
+
+      const testFile = tags['custom:test'] || findConventionalTest(rootDir, testDir, contractRelative);
+      const example = buildExample(tags, contractFile, testFile, result.errors);
+      if (example) {
+        result.examples[name] = example;
+        pairedTests.add(example.testFile);
+      }
+    });
+
+    if (hasContract && !hasMetadata) {
+      result.contractsWithoutMetadata.push(contractFile);
+    }
+  });
+
+  listFiles(path.join(rootDir, testDir), ['.ts'], ignoredTestDirs).forEach(testPath => {
+    const testFile = toPosix(path.relative(rootDir, testPath));
+    if (!pairedTests.has(testFile)) {
+      result.orphanedTests.push(testFile);
+    }
+  });
+
+  return result;
+}
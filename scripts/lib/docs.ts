@@ -0,0 +1,553 @@
+/**
+ * docs - Generates documentation pages for examples
+ *
+ * Each page shows the contract overview, a Mermaid diagram of the FHE
+ * permissions each function grants, its cost table from costs.ts, a
+ * walkthrough of the tests and the contract and test sources in tabs; SUMMARY.md is rebuilt by summary.ts to
+ * list every page. With `api`, the contract is compiled and every deployable
+ * contract in it gets an API reference page under docs/api/. Anti-pattern pages
+ * add a diff to their fixed counterpart from antipatterns.ts. Every page ends
+ * with previous/next links along the learning path from learning.ts, whose
+ * curriculum page is written next to the examples, like the catalog.json and
+ * search index from catalog.ts. checkDocs renders the same
+ * pages in memory and diffs them against the committed ones.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AntiPattern, buildAntiPatternBlocks } from './antipatterns';
+import { buildCatalog, buildCatalogIndex, renderCatalogFiles, writeCatalog } from './catalog';
+import { compileContract } from './compiler';
+import { buildCostBlocks, CostReport, readCostReport } from './costs';
+import { unifiedDiff } from './diff';
+import type { Block, DocPage } from './document';
+import { GeneratorError, UnknownExampleError } from './errors';
+import {
+  buildCurriculumPage,
+  buildLearningPath,
+  buildNavigation,
+  findLearningStep,
+  LEARNING_PATH_SLUG,
+  LearningPath,
+} from './learning';
+import { Logger, silentLogger } from './logger';
+import { buildWalkthrough, parseTestNarrative } from './narrative';
+import { analyzePermissions, renderPermissionDiagram } from './permissions';
+import { EXAMPLES_MAP, ExampleConfig, getCategory, getExample, resolveExamplePath } from './registry';
+import { buildContractReference, buildReferencePage } from './reference';
+import { DocRenderer, getRenderer, renderPage, writeSiteIndex } from './renderers';
+import { analyzeSolidity, findMainContract, SolidityContract } from './solidity';
+import { renderSummary, SUMMARY_PATH, updateSummary } from './summary';
+
+// ============== TYPES ==============
+
+export interface GenerateDocsOptions {
+  output?: string; // Page path relative to rootDir; defaults to docs/<example>.md
+  noSummary?: boolean; // Skip updating SUMMARY.md, the learning path page and the catalog
+  rootDir?: string; // Directory holding docs/; defaults to the working directory
+  api?: boolean; // Compile the contract and write its API reference pages
+  format?: string; // Renderer from renderers.ts; defaults to gitbook
+  logger?: Logger;
+}
+
+export interface GenerateDocsResult {
+  example: string;
+  outputPath: string; // Relative to rootDir
+  summaryUpdated: boolean;
+  apiPages?: string[]; // Relative to rootDir; only set with the api option
+}
+
+export interface GenerateAllDocsResult {
+  generated: GenerateDocsResult[];
+  failed: { example: string; error: string }[];
+}
+
+// A committed page that differs from what the generator renders now
+export interface StalePage {
+  path: string; // Relative to rootDir
+  missing: boolean; // The page is not committed at all
+  diff: string; // Unified diff from the committed page to the rendered one
+}
+
+export interface CheckDocsResult {
+  checked: string[]; // Every compared page, relative to rootDir
+  stale: StalePage[];
+  failed: { example: string; error: string }[]; // Examples whose pages could not be rendered
+}
+
+// A page rendered in memory; path is relative to rootDir
+interface RenderedFile {
+  path: string;
+  content: string;
+}
+
+// Documentation configuration derived from a registry example
+export interface DocsConfig {
+  name: string;
+  title: string;
+  description: string;
+  contract: string;
+  test: string;
+  output: string;
+  category: string;
+}
+
+export function getDocsConfig(example: ExampleConfig): DocsConfig {
+  const category = getCategory(example.category);
+  return {
+    name: example.name,
+    title: example.title,
+    description: example.description,
+    contract: example.contractFile,
+    test: example.testFile,
+    output: `docs/${example.name}.md`,
+    category: category ? category.title : example.category,
+  };
+}
+
+// ============== GENERATION ==============
+
+function readFile(filePath: string): string {
+  const fullPath = resolveExamplePath(filePath);
+  if (!fs.existsSync(fullPath)) {
+    throw new GeneratorError(`File not found: ${filePath}`);
+  }
+  return fs.readFileSync(fullPath, 'utf-8');
+}
+
+function extractDescription(content: string): string {
+  // Extract description from first multi-line comment or @notice
+  const commentMatch = content.match(/\/\*\*\s*\n\s*\*\s*(.+?)\s*\n/);
+  const noticeMatch = content.match(/@notice\s+(.+)/);
+
+  return commentMatch ? commentMatch[1] : (noticeMatch ? noticeMatch[1] : '');
+}
+
+function contractOverviewBlocks(contract: SolidityContract): Block[] {
+  const blocks: Block[] = [{ type: 'heading', level: 2, text: 'Contract Overview' }];
+
+  let intro = `\`${contract.name}\``;
+  if (contract.baseContracts.length > 0) {
+    intro += ` inherits from ${contract.baseContracts.map(base => `\`${base}\``).join(', ')}`;
+  }
+  blocks.push({ type: 'paragraph', text: `${intro}.` });
+
+  if (contract.functions.length > 0) {
+    blocks.push({
+      type: 'table',
+      headers: ['Function', 'Mutability', 'Modifiers'],
+      rows: contract.functions.map(fn => [
+        `\`${fn.signature}\``,
+        fn.stateMutability,
+        fn.modifiers.length > 0 ? fn.modifiers.map(m => `\`${m}\``).join(', ') : '-',
+      ]),
+    });
+  }
+
+  if (contract.events.length > 0) {
+    const events = contract.events.map(event => `\`${event.name}\``);
+    blocks.push({ type: 'paragraph', text: `**Events:** ${events.join(', ')}` });
+  }
+
+  return blocks;
+}
+
+function permissionFlowBlocks(contractContent: string, contractFile: string): Block[] {
+  const permissions = analyzePermissions(contractContent, contractFile);
+  if (permissions.length === 0) {
+    return [];
+  }
+
+  const contracts = new Set(permissions.map(fn => fn.contract));
+  const blocks: Block[] = [
+    { type: 'heading', level: 2, text: 'Permission Flow' },
+    {
+      type: 'paragraph',
+      text:
+        'Which encrypted values each function lets `msg.sender` (👤), the contract (📜) or another address (🏷️) ' +
+        'use. Values are named after their storage slot, so a name shared by two functions is the same value. ' +
+        'Dotted arrows are `allowTransient` grants, which end with the transaction.',
+    },
+  ];
+
+  permissions.forEach(fn => {
+    const name = contracts.size > 1 ? `${fn.contract}.${fn.function}` : fn.function;
+    blocks.push({ type: 'heading', level: 3, text: `\`${name}\`` });
+    blocks.push({ type: 'diagram', code: renderPermissionDiagram(fn) });
+  });
+
+  return blocks;
+}
+
+/**
+ * Describe the example page in the shared document model. `apiPages` are
+ * linked relative to `config.output`; with `learningPath`, the page ends with
+ * links to the previous and next examples. With `antiPattern`, the page shows
+ * the mistake next to the fixed example. `costs` adds measured gas to the FHE
+ * operation counts of the cost table.
+ */
+export function buildExamplePage(
+  config: DocsConfig,
+  contractContent: string,
+  testContent: string,
+  apiPages: string[] = [],
+  learningPath?: LearningPath,
+  antiPattern?: AntiPattern,
+  costs?: CostReport | null,
+): DocPage {
+  const contract = findMainContract(analyzeSolidity(contractContent, config.contract));
+  const contractName = contract ? contract.name : 'Contract';
+  const description = config.description || extractDescription(contractContent);
+
+  const blocks: Block[] = [
+    { type: 'heading', level: 1, text: config.title },
+    { type: 'paragraph', text: description },
+  ];
+
+  if (contract) {
+    blocks.push(...contractOverviewBlocks(contract));
+  }
+
+  if (apiPages.length > 0) {
+    const pageDir = path.posix.dirname(config.output);
+    const links = apiPages.map(page => {
+      const name = path.posix.basename(page).replace(/\.[^.]+$/, '');
+      return `[${name}](${path.posix.relative(pageDir, page)})`;
+    });
+    blocks.push({ type: 'paragraph', text: `**API reference:** ${links.join(', ')}` });
+  }
+
+  const extension = path.posix.extname(config.output);
+  if (antiPattern) {
+    blocks.push(...buildAntiPatternBlocks(config.contract, contractContent, testContent, antiPattern, extension));
+  }
+
+  // Fixed examples point back at the mistakes they correct
+  const mistakes = Object.values(EXAMPLES_MAP).filter(example => example.fixedBy === config.name);
+  if (mistakes.length > 0) {
+    const links = mistakes.map(example => `[${example.title}](${example.name}${extension})`);
+    blocks.push({ type: 'paragraph', text: `**Common mistakes:** ${links.join(', ')}` });
+  }
+
+  blocks.push(...permissionFlowBlocks(contractContent, config.contract));
+  blocks.push(...buildCostBlocks(config.name, config.contract, contractContent, costs));
+  blocks.push(...buildWalkthrough(parseTestNarrative(testContent, config.test)));
+
+  blocks.push({
+    type: 'hint',
+    style: 'info',
+    blocks: [
+      {
+        type: 'paragraph',
+        text: 'To run this example correctly, make sure the files are placed in the following directories:',
+      },
+      {
+        type: 'list',
+        items: ['`.sol` file → `<your-project-root-dir>/contracts/`', '`.ts` file → `<your-project-root-dir>/test/`'],
+      },
+      { type: 'paragraph', text: 'This ensures Hardhat can compile and test your contracts as expected.' },
+    ],
+  });
+
+  blocks.push({
+    type: 'tabs',
+    tabs: [
+      { title: `${contractName}.sol`, blocks: [{ type: 'code', language: 'solidity', code: contractContent }] },
+      { title: path.basename(config.test), blocks: [{ type: 'code', language: 'typescript', code: testContent }] },
+    ],
+  });
+
+  const step = learningPath && findLearningStep(learningPath, config.name);
+  if (learningPath && step) {
+    blocks.push(...buildNavigation(learningPath, step, extension));
+  }
+
+  return { slug: config.name, title: config.title, description, blocks };
+}
+
+export function generateGitBookMarkdown(
+  config: DocsConfig,
+  contractContent: string,
+  testContent: string,
+  apiPages: string[] = [],
+): string {
+  return renderPage(buildExamplePage(config, contractContent, testContent, apiPages), 'gitbook');
+}
+
+function renderApiReference(example: ExampleConfig, renderer: DocRenderer): RenderedFile[] {
+  const file = analyzeSolidity(readFile(example.contractFile), example.contractFile);
+  const deployable = file.contracts.filter(contract => contract.kind === 'contract');
+
+  const compiled = compileContract(example.contractFile).filter(contract =>
+    deployable.some(source => source.name === contract.name),
+  );
+
+  return compiled.map(contract => {
+    const source = deployable.find(candidate => candidate.name === contract.name);
+    const page = buildReferencePage(buildContractReference(contract, source));
+    const pagePath = path.posix.join(renderer.outputDir, `${page.slug}${renderer.extension}`);
+    return { path: pagePath, content: renderer.render(page) };
+  });
+}
+
+function defaultOutputPath(example: ExampleConfig, renderer: DocRenderer): string {
+  return path.posix.join(renderer.outputDir, `${example.name}${renderer.extension}`);
+}
+
+// Stored costs are read from rootDir, where measureCosts writes them
+function renderExamplePage(
+  example: ExampleConfig,
+  renderer: DocRenderer,
+  outputPath: string,
+  rootDir: string,
+  apiPages?: string[],
+  learningPath?: LearningPath,
+): RenderedFile {
+  const config = { ...getDocsConfig(example), output: outputPath };
+  const contractContent = readFile(config.contract);
+  const testContent = readFile(config.test);
+  const page = buildExamplePage(
+    config,
+    contractContent,
+    testContent,
+    apiPages,
+    learningPath,
+    loadAntiPattern(example),
+    readCostReport(rootDir, example.name),
+  );
+  return { path: outputPath, content: renderer.render(page) };
+}
+
+function loadAntiPattern(example: ExampleConfig): AntiPattern | undefined {
+  const fixed = example.fixedBy ? getExample(example.fixedBy) : undefined;
+  if (!fixed) {
+    return undefined;
+  }
+  return { fixed, fixedContract: readFile(fixed.contractFile), expectedError: example.expectedError };
+}
+
+function renderLearningPath(renderer: DocRenderer, learningPath: LearningPath): RenderedFile {
+  return {
+    path: path.posix.join(renderer.outputDir, `${LEARNING_PATH_SLUG}${renderer.extension}`),
+    content: renderer.render(buildCurriculumPage(learningPath, renderer.extension)),
+  };
+}
+
+// ============== PUBLIC API ==============
+
+/**
+ * Compile the example's contract and write one API reference page per
+ * deployable contract to <format dir>/api/<Contract>. Returns the page paths
+ * relative to rootDir.
+ *
+ * Throws CompilationError when the contract does not compile.
+ */
+export function generateApiReference(
+  example: ExampleConfig,
+  rootDir: string = process.cwd(),
+  logger: Logger = silentLogger,
+  format: string = 'gitbook',
+): string[] {
+  const files = renderApiReference(example, getRenderer(format));
+  return files.map(file => {
+    fs.mkdirSync(path.dirname(path.join(rootDir, file.path)), { recursive: true });
+    fs.writeFileSync(path.join(rootDir, file.path), file.content);
+    logger.detail(file.path);
+    return file.path;
+  });
+}
+
+/**
+ * Write the learning path page (docs/learning-path.md for GitBook) listing
+ * every example by chapter. Returns its path relative to rootDir.
+ *
+ * Throws LearningPathError when the prerequisites cannot be ordered.
+ */
+export function generateLearningPath(
+  rootDir: string = process.cwd(),
+  logger: Logger = silentLogger,
+  format: string = 'gitbook',
+): string {
+  const file = renderLearningPath(getRenderer(format), buildLearningPath());
+  fs.mkdirSync(path.dirname(path.join(rootDir, file.path)), { recursive: true });
+  fs.writeFileSync(path.join(rootDir, file.path), file.content);
+  logger.success(`Learning path written to: ${file.path}`);
+  return file.path;
+}
+
+/**
+ * Write the documentation page for `exampleName`, list it in SUMMARY.md and
+ * rewrite the learning path page.
+ *
+ * Throws UnknownExampleError for names missing from the registry and
+ * LearningPathError when the prerequisites cannot be ordered.
+ */
+export function generateDocs(exampleName: string, options: GenerateDocsOptions = {}): GenerateDocsResult {
+  const logger = options.logger || silentLogger;
+  const rootDir = options.rootDir || process.cwd();
+
+  const example = getExample(exampleName);
+  if (!example) {
+    throw new UnknownExampleError(exampleName, Object.keys(EXAMPLES_MAP));
+  }
+
+  const renderer = getRenderer(options.format || 'gitbook');
+  const outputPath = options.output || defaultOutputPath(example, renderer);
+  const learningPath = buildLearningPath();
+
+  logger.info(`Generating documentation for: ${example.title}`);
+
+  let apiPages: string[] | undefined;
+  if (options.api) {
+    logger.step('🔧 Compiling contract for the API reference...');
+    apiPages = generateApiReference(example, rootDir, logger, renderer.format);
+    logger.success(`API reference written for ${apiPages.length} contract(s)`);
+  }
+
+  // Render the page
+  logger.step(`📝 Rendering ${renderer.format} page...`);
+  const { content } = renderExamplePage(example, renderer, outputPath, rootDir, apiPages, learningPath);
+  logger.success('Page rendered');
+
+  // Create docs directory if it doesn't exist
+  const outputDir = path.dirname(path.join(rootDir, outputPath));
+
+  if (!fs.existsSync(outputDir)) {
+    fs.mkdirSync(outputDir, { recursive: true });
+  }
+
+  // Write documentation file
+  logger.step('💾 Writing documentation file...');
+  fs.writeFileSync(path.join(rootDir, outputPath), content);
+  logger.success(`Documentation written to: ${outputPath}`);
+
+  if (!options.noSummary) {
+    logger.step('🧭 Writing the learning path...');
+    generateLearningPath(rootDir, logger, renderer.format);
+    logger.step('🗂️  Writing the catalog...');
+    writeCatalog(path.join(rootDir, renderer.outputDir), buildCatalog({ format: renderer.format }), logger);
+  }
+
+  if (renderer.format === 'html') {
+    writeSiteIndex(outputDir, buildCatalogIndex(buildCatalog({ format: renderer.format })));
+  }
+
+  // SUMMARY.md is GitBook's table of contents
+  let summaryUpdated = false;
+  if (!options.noSummary && renderer.format === 'gitbook') {
+    logger.step('📚 Updating SUMMARY.md...');
+    summaryUpdated = updateSummary(rootDir, logger);
+  }
+
+  const result: GenerateDocsResult = { example: exampleName, outputPath, summaryUpdated };
+  if (apiPages) {
+    result.apiPages = apiPages;
+  }
+  return result;
+}
+
+/**
+ * Generate every example's page, then update SUMMARY.md and the learning path
+ * page once. A failing example is recorded and does not stop the others.
+ */
+export function generateAllDocs(options: Omit<GenerateDocsOptions, 'output' | 'noSummary'> = {}): GenerateAllDocsResult {
+  const logger = options.logger || silentLogger;
+  const result: GenerateAllDocsResult = { generated: [], failed: [] };
+
+  const examples = Object.keys(EXAMPLES_MAP);
+  examples.forEach((exampleName, index) => {
+    logger.step(`[${index + 1}/${examples.length}] Processing: ${exampleName}`);
+    try {
+      result.generated.push(generateDocs(exampleName, { ...options, noSummary: true }));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      logger.warn(`Failed to generate docs for ${exampleName}: ${message}`);
+      result.failed.push({ example: exampleName, error: message });
+    }
+  });
+
+  // Rebuild the learning path, catalog and SUMMARY.md once at the end
+  logger.step('🧭 Writing the learning path...');
+  const format = options.format || 'gitbook';
+  const docsDir = path.join(options.rootDir || process.cwd(), getRenderer(format).outputDir);
+  generateLearningPath(options.rootDir, logger, format);
+  logger.step('🗂️  Writing the catalog...');
+  const catalog = buildCatalog({ format });
+  writeCatalog(docsDir, catalog, logger);
+  if (format === 'html') {
+    writeSiteIndex(docsDir, buildCatalogIndex(catalog));
+  }
+
+  if ((options.format || 'gitbook') === 'gitbook') {
+    logger.step('📚 Updating SUMMARY.md...');
+    const summaryUpdated = updateSummary(options.rootDir, logger);
+    result.generated.forEach(generated => {
+      generated.summaryUpdated = summaryUpdated;
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Render every example's page (and API reference with `api`), the learning
+ * path and the catalog in memory and compare them with the files under
+ * rootDir; for GitBook, SUMMARY.md as well.
+ * Line endings are ignored. Writes nothing.
+ */
+export function checkDocs(options: Omit<GenerateDocsOptions, 'output' | 'noSummary'> = {}): CheckDocsResult {
+  const logger = options.logger || silentLogger;
+  const rootDir = options.rootDir || process.cwd();
+  const renderer = getRenderer(options.format || 'gitbook');
+  const result: CheckDocsResult = { checked: [], stale: [], failed: [] };
+
+  const compare = (file: RenderedFile) => {
+    result.checked.push(file.path);
+    const fullPath = path.join(rootDir, file.path);
+    const committed = fs.existsSync(fullPath) ? fs.readFileSync(fullPath, 'utf-8').replace(/\r\n/g, '\n') : null;
+    const content = file.content.replace(/\r\n/g, '\n');
+    if (committed === content) {
+      return;
+    }
+    const labels = { before: committed === null ? '/dev/null' : `a/${file.path}`, after: `b/${file.path}` };
+    const diff = unifiedDiff(committed || '', content, labels);
+    result.stale.push({ path: file.path, missing: committed === null, diff });
+    logger.warn(`${file.path} is ${committed === null ? 'missing' : 'out of date'}`);
+  };
+
+  const learningPath = buildLearningPath();
+  const rendered: ExampleConfig[] = [];
+  Object.values(EXAMPLES_MAP).forEach(example => {
+    try {
+      const apiFiles = options.api ? renderApiReference(example, renderer) : undefined;
+      const page = renderExamplePage(
+        example,
+        renderer,
+        defaultOutputPath(example, renderer),
+        rootDir,
+        apiFiles && apiFiles.map(file => file.path),
+        learningPath,
+      );
+      [...(apiFiles || []), page].forEach(compare);
+      rendered.push(example);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      logger.warn(`Failed to render docs for ${example.name}: ${message}`);
+      result.failed.push({ example: example.name, error: message });
+    }
+  });
+
+  compare(renderLearningPath(renderer, learningPath));
+  renderCatalogFiles(buildCatalog({ format: renderer.format })).forEach(file =>
+    compare({ path: path.posix.join(renderer.outputDir, file.path), content: file.content }),
+  );
+
+  // The summary a full regeneration would write, keeping the committed manual sections
+  if (renderer.format === 'gitbook') {
+    const summaryPath = path.join(rootDir, SUMMARY_PATH);
+    const existing = fs.existsSync(summaryPath) ? fs.readFileSync(summaryPath, 'utf-8') : '';
+    compare({ path: SUMMARY_PATH, content: renderSummary(rendered, existing) });
+  }
+
+  return result;
+}
@@ -0,0 +1,99 @@
+/**
+ * document - Intermediate document model shared by every docs renderer
+ *
+ * Generators describe a page once as a list of blocks; renderers.ts turns the
+ * same page into GitBook, GitHub Markdown, Docusaurus MDX or HTML. Inline text
+ * may use Markdown code spans, **bold**, _emphasis_ and [links](page.md), which
+ * every renderer either keeps or converts.
+ */
+
+// ============== TYPES ==============
+
+export type HintStyle = 'info' | 'warning' | 'success' | 'danger';
+
+export interface HeadingBlock {
+  type: 'heading';
+  level: 1 | 2 | 3 | 4;
+  text: string;
+}
+
+export interface ParagraphBlock {
+  type: 'paragraph';
+  text: string;
+}
+
+export interface ListBlock {
+  type: 'list';
+  items: string[];
+}
+
+export interface TableBlock {
+  type: 'table';
+  headers: string[];
+  rows: string[][];
+}
+
+export interface CodeBlock {
+  type: 'code';
+  language: string;
+  code: string;
+}
+
+// A Mermaid diagram
+export interface DiagramBlock {
+  type: 'diagram';
+  code: string;
+}
+
+// A call-out box around other blocks
+export interface HintBlock {
+  type: 'hint';
+  style: HintStyle;
+  blocks: Block[];
+}
+
+// Alternative views of the same content, e.g. the contract and its test
+export interface TabsBlock {
+  type: 'tabs';
+  tabs: { title: string; blocks: Block[] }[];
+}
+
+export type Block =
+  | HeadingBlock
+  | ParagraphBlock
+  | ListBlock
+  | TableBlock
+  | CodeBlock
+  | DiagramBlock
+  | HintBlock
+  | TabsBlock;
+
+export interface DocPage {
+  slug: string; // Path of the page without extension, relative to the docs root, e.g. api/FHECounter
+  title: string;
+  description: string;
+  blocks: Block[];
+}
+
+// ============== HELPERS ==============
+
+// Heading anchor as GitBook and GitHub generate it
+export function anchor(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+// Every block of the page, including those nested in hints and tabs
+export function flattenBlocks(blocks: Block[]): Block[] {
+  return blocks.flatMap(block => {
+    if (block.type === 'hint') {
+      return [block, ...flattenBlocks(block.blocks)];
+    }
+    if (block.type === 'tabs') {
+      return [block, ...flattenBlocks(block.tabs.flatMap(tab => tab.blocks))];
+    }
+    return [block];
+  });
+}
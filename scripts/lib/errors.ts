@@ -0,0 +1,192 @@
+/**
+ * errors - Typed errors thrown by the generator library
+ *
+ * createExample, createCategory and generateDocs throw these instead of
+ * exiting the process, so callers can tell a usage mistake (unknown name,
+ * existing output) from a broken example and react to each.
+ */
+
+import type { NameCollision } from './category';
+import type { DependencyConflict } from './dependencies';
+
+// Base class for every error the generators throw on purpose
+export class GeneratorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GeneratorError';
+  }
+}
+
+export class UnknownExampleError extends GeneratorError {
+  constructor(
+    public readonly exampleName: string,
+    public readonly available: string[],
+  ) {
+    super(`Unknown example: ${exampleName}\n\nAvailable examples:\n${available.map(name => `  - ${name}`).join('\n')}`);
+    this.name = 'UnknownExampleError';
+  }
+}
+
+export class UnknownCategoryError extends GeneratorError {
+  constructor(
+    public readonly categoryName: string,
+    public readonly available: string[],
+  ) {
+    super(`Unknown category: ${categoryName}\n\nAvailable categories:\n${available.map(name => `  - ${name}`).join('\n')}`);
+    this.name = 'UnknownCategoryError';
+  }
+}
+
+// The output directory exists and the caller did not ask to update it
+export class OutputExistsError extends GeneratorError {
+  constructor(public readonly outputPath: string) {
+    super(`Output directory already exists: ${outputPath}`);
+    this.name = 'OutputExistsError';
+  }
+}
+
+// A contract imports local files that do not exist
+export class UnresolvedImportsError extends GeneratorError {
+  constructor(
+    public readonly contractFile: string,
+    public readonly missing: string[],
+  ) {
+    super(`Unresolved local imports in ${contractFile}:\n${missing.map(m => `  - ${m}`).join('\n')}`);
+    this.name = 'UnresolvedImportsError';
+  }
+}
+
+// Contracts import npm packages with no known version range, which nothing declares either
+export class UnversionedPackagesError extends GeneratorError {
+  constructor(public readonly packages: string[]) {
+    super(
+      `No known version for the imported package(s) ${packages.join(', ')}; ` +
+        'declare a range with @custom:dependencies <package>@<range>',
+    );
+    this.name = 'UnversionedPackagesError';
+  }
+}
+
+// A source file declares no deployable contract
+export class ContractNotFoundError extends GeneratorError {
+  constructor(public readonly contractFile: string) {
+    super(`Could not extract contract name from ${contractFile}`);
+    this.name = 'ContractNotFoundError';
+  }
+}
+
+// solc rejected a contract; `errors` holds the compiler's formatted messages
+export class CompilationError extends GeneratorError {
+  constructor(
+    public readonly contractFile: string,
+    public readonly errors: string[],
+  ) {
+    super(`Compilation of ${contractFile} failed:\n${errors.map(e => `  - ${e}`).join('\n')}`);
+    this.name = 'CompilationError';
+  }
+}
+
+// An existing output cannot be updated in place
+export class UpdateError extends GeneratorError {
+  constructor(
+    public readonly outputPath: string,
+    reason: string,
+  ) {
+    super(`Cannot update ${outputPath}: ${reason}`);
+    this.name = 'UpdateError';
+  }
+}
+
+// SUMMARY.md has unbalanced manual guard comments, so its hand-written sections cannot be kept
+export class SummaryFormatError extends GeneratorError {
+  constructor(
+    public readonly summaryPath: string,
+    reason: string,
+  ) {
+    super(`Cannot rebuild ${summaryPath}: ${reason}`);
+    this.name = 'SummaryFormatError';
+  }
+}
+
+// Prerequisites reference unknown examples, form a cycle, or split a chapter
+export class LearningPathError extends GeneratorError {
+  constructor(public readonly problems: string[]) {
+    super(`Cannot build the learning path:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+    this.name = 'LearningPathError';
+  }
+}
+
+// An example's tests did not run to completion with gas reporting, so its costs were not measured
+export class CostMeasurementError extends GeneratorError {
+  constructor(
+    public readonly exampleName: string,
+    public readonly errors: string[],
+  ) {
+    super(`Cannot measure the costs of ${exampleName}:\n${errors.map(e => `  - ${e}`).join('\n')}`);
+    this.name = 'CostMeasurementError';
+  }
+}
+
+// A constructor parameter of an example has no declared value and is not another contract of the bundle
+export class MissingDeployArgumentError extends GeneratorError {
+  constructor(
+    public readonly exampleName: string,
+    public readonly parameters: string[],
+  ) {
+    super(
+      `Cannot write the deploy script of ${exampleName}: no value for constructor ${
+        parameters.length === 1 ? 'parameter' : 'parameters'
+      } ${parameters.join(', ')}\nDeclare them with @custom:deploy-args, e.g. ${parameters[0]}=<expression>.`,
+    );
+    this.name = 'MissingDeployArgumentError';
+  }
+}
+
+// A bundle definition file is malformed or selects unknown or no examples
+export class BundleDefinitionError extends GeneratorError {
+  constructor(
+    public readonly source: string,
+    public readonly problems: string[],
+  ) {
+    super(`Invalid bundle definition ${source}:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+    this.name = 'BundleDefinitionError';
+  }
+}
+
+// An example query is malformed or compares an unknown field
+export class ExampleQueryError extends GeneratorError {
+  constructor(
+    public readonly query: string,
+    public readonly reason: string,
+  ) {
+    super(`Invalid query "${query}": ${reason}`);
+    this.name = 'ExampleQueryError';
+  }
+}
+
+// Examples or the category of one project require a package in incompatible versions
+export class DependencyConflictError extends GeneratorError {
+  constructor(public readonly conflicts: DependencyConflict[]) {
+    super(
+      `Incompatible dependency versions:\n${conflicts
+        .map(c => `  - ${c.packageName}: ${c.requirements.map(r => `${r.range} (${r.source})`).join(', ')}`)
+        .join('\n')}`,
+    );
+    this.name = 'DependencyConflictError';
+  }
+}
+
+// Examples of one bundle would write different files to the same path or share a contract name
+export class NameCollisionError extends GeneratorError {
+  constructor(
+    public readonly bundle: string,
+    public readonly collisions: NameCollision[],
+  ) {
+    super(
+      `Examples of ${bundle} collide:\n${collisions
+        .map(c => `  - ${c.kind === 'contract' ? `contract ${c.name}` : c.name}: ${c.examples.join(', ')}`)
+        .join('\n')}\nUse the namespace strategy (--collisions namespace) to give each example its own folders.`,
+    );
+    this.name = 'NameCollisionError';
+  }
+}
@@ -0,0 +1,388 @@
+/**
+ * example - Generates a standalone Hardhat repository for one example
+ *
+ * The base template is cloned, its sample Counter is replaced by the example's
+ * contract (with its local imports), test (with its fixture and helpers, laid
+ * out and imported as in category bundles) and deploy script, and the package
+ * manifest gains the Solidity packages the contract imports and the npm
+ * dependencies the example and its category declare. A manifest of the
+ * generated files is written so the output can later be updated in place.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { applyDependencies, collectRequirements, mergeDependencies } from './dependencies';
+import {
+  ContractNotFoundError,
+  OutputExistsError,
+  UnknownExampleError,
+  UnresolvedImportsError,
+  UnversionedPackagesError,
+  UpdateError,
+} from './errors';
+import { copyImportGraph, ImportGraph, resolveImportGraph, resolvePackageVersions } from './imports';
+import { Logger, silentLogger } from './logger';
+import {
+  cloneTemplate,
+  movedSupportFiles,
+  planSupportFiles,
+  rewriteRelativeImports,
+  TEMPLATE_DIR,
+  templateDependencies,
+} from './project';
+import { ExampleConfig, EXAMPLES_MAP, getCategory, getExample, resolveExamplePath, ROOT_DIR } from './registry';
+import { getContractName } from './solidity';
+import {
+  applyUpdate,
+  MANIFEST_FILE,
+  readManifest,
+  snapshotFiles,
+  unresolvedConflicts,
+  UpdateReport,
+  writeManifest,
+} from './update';
+import { formatCompileError, isVerified, VerificationResult, verifyGeneratedRepo, VerifyOptions } from './verify';
+
+// ============== TYPES ==============
+
+export interface CreateExampleOptions extends VerifyOptions {
+  verify?: boolean; // Install, compile and test the generated repo
+  update?: boolean; // Merge into an existing output instead of refusing it
+  logger?: Logger;
+}
+
+export interface CreateExampleResult {
+  success: boolean;
+  message: string;
+  outputPath: string;
+  errors: string[];
+  update?: UpdateReport; // Only set when an existing output was updated
+  verification?: VerificationResult; // Only set in verify mode
+}
+
+// ============== GENERATION ==============
+
+function updateDeployScript(outputDir: string, contractName: string): void {
+  const deployDir = path.join(outputDir, 'deploy');
+  if (!fs.existsSync(deployDir)) {
+    fs.mkdirSync(deployDir, { recursive: true });
+  }
+
+  const deployScriptPath = path.join(deployDir, 'deploy.ts');
+
+  const deployScript = `import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy } = hre.deployments;
+
+  const deployed${contractName} = await deploy("${contractName}", {
+    from: deployer,
+    log: true,
+  });
+
+  console.log(\`${contractName} contract: \`, deployed${contractName}.address);
+};
+export default func;
+func.id = "deploy_${contractName.toLowerCase()}";
+func.tags = ["${contractName}"];
+`;
+
+  fs.writeFileSync(deployScriptPath, deployScript);
+}
+
+
+function updatePackageJson(
+  outputDir: string,
+  exampleName: string,
+  description: string,
+  packages: string[],
+  required: Record<string, string>,
+  logger: Logger,
+): void {
+  const packageJsonPath = path.join(outputDir, 'package.json');
+  const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+
+  // Declared dependencies first, so imported packages they name keep the declared range
+  applyDependencies(packageJson, required, logger);
+  const declared = { ...packageJson.devDependencies, ...packageJson.dependencies };
+
+  packageJson.name = `fhevm-example-${exampleName}`;
+  packageJson.description = description;
+  packageJson.homepage = `https://github.com/fhevm-examples/${exampleName}`;
+
+  // Add the Solidity packages the contract imports that the template does not already provide
+  const { dependencies } = resolvePackageVersions(
+    packages.filter(name => !declared[name]),
+    declared,
+  );
+  packageJson.dependencies = { ...packageJson.dependencies, ...dependencies };
+
+  fs.writeFileSync(packageJsonPath, JSON.stringify(packageJson, null, 2) + '\n');
+}
+
+function generateReadme(exampleName: string, description: string, contractName: string, contractFile: string): string {
+  return `# FHEVM Example: ${exampleName}
+
+${description}
+
+## Quick Start
+
+### Prerequisites
+
+- **Node.js**: Version 20 or higher
+- **npm**: Package manager
+
+### Installation
+
+1. **Install dependencies**
+
+   \`\`\`bash
+   npm install
+   \`\`\`
+
+2. **Set up environment variables**
+
+   \`\`\`bash
+   npx hardhat vars set MNEMONIC
+   npx hardhat vars set INFURA_API_KEY
+   # Optional: Set Etherscan API key for contract verification
+   npx hardhat vars set ETHERSCAN_API_KEY
+   \`\`\`
+
+3. **Compile and test**
+
+   \`\`\`bash
+   npm run compile
+   npm run test
+   \`\`\`
+
+## Contract
+
+The main contract is \`${contractName}\` located in \`contracts/${contractFile}\`.
+
+## Testing
+
+Run the test suite:
+
+\`\`\`bash
+npm run test
+\`\`\`
+
+For Sepolia testnet testing:
+
+\`\`\`bash
+npm run test:sepolia
+\`\`\`
+
+## Deployment
+
+Deploy to local network:
+
+\`\`\`bash
+npx hardhat node
+npx hardhat deploy --network localhost
+\`\`\`
+
+Deploy to Sepolia:
+
+\`\`\`bash
+npx hardhat deploy --network sepolia
+npx hardhat verify --network sepolia <CONTRACT_ADDRESS>
+\`\`\`
+
+## Documentation
+
+- [FHEVM Documentation](https://docs.zama.ai/fhevm)
+- [FHEVM Examples](https://docs.zama.org/protocol/examples)
+- [FHEVM Hardhat Plugin](https://docs.zama.ai/protocol/solidity-guides/development-guide/hardhat)
+
+## License
+
+This project is licensed under the BSD-3-Clause-Clear License.
+
+---
+
+**Built with FHEVM by Zama**
+`;
+}
+
+function writeExampleFiles(
+  example: ExampleConfig,
+  importGraph: ImportGraph,
+  required: Record<string, string>,
+  targetDir: string,
+  logger: Logger,
+): void {
+  // Step 1: Clone the base template
+  logger.step('📋 Step 1: Cloning base template...');
+  cloneTemplate(targetDir);
+  logger.success(`Base template cloned from ${path.relative(ROOT_DIR, TEMPLATE_DIR)}`);
+
+  // Step 2: Copy contract and its local imports
+  logger.step('📄 Step 2: Copying contract...');
+  const contractName = getContractName(importGraph.entry);
+  if (!contractName) {
+    throw new ContractNotFoundError(example.contractFile);
+  }
+
+  const contractsDir = path.join(targetDir, 'contracts');
+  const [contractFile, ...dependencyFiles] = copyImportGraph(importGraph, contractsDir);
+  logger.success(`Contract copied: ${contractFile}`);
+  dependencyFiles.forEach(file => logger.detail(`Copied dependency: ${file}`));
+
+  // Step 3: Copy test and its support files, pointing its relative imports at their new place
+  logger.step('🧪 Step 3: Copying test...');
+  const testFile = `test/${path.posix.basename(example.testFile)}`;
+  const support = planSupportFiles(example, testFile);
+  support.forEach(file => {
+    fs.mkdirSync(path.dirname(path.join(targetDir, file.destination)), { recursive: true });
+    fs.copyFileSync(file.source, path.join(targetDir, file.destination));
+    logger.detail(`Copied test support file: ${file.destination}`);
+  });
+  const test = rewriteRelativeImports(
+    fs.readFileSync(resolveExamplePath(example.testFile), 'utf-8'),
+    example.testFile,
+    testFile,
+    movedSupportFiles(support),
+  );
+  fs.writeFileSync(path.join(targetDir, testFile), test);
+  logger.success(`Test copied: ${testFile}`);
+
+  // Step 4: Update configuration files
+  logger.step('⚙️  Step 4: Updating configuration...');
+  updateDeployScript(targetDir, contractName);
+  updatePackageJson(targetDir, example.name, example.description, importGraph.packages, required, logger);
+  logger.success('Configuration updated');
+
+  // Step 5: Generate README
+  logger.step('📝 Step 5: Generating README...');
+  const readme = generateReadme(example.name, example.description, contractName, contractFile);
+  fs.writeFileSync(path.join(targetDir, 'README.md'), readme);
+  logger.success('README.md generated');
+}
+
+function verificationErrors(verification: VerificationResult): string[] {
+  const errors = [
+    ...verification.errors,
+    ...verification.compileErrors.map(formatCompileError),
+    ...verification.testFailures.map(failure => `${failure.title}: ${failure.message}`),
+  ];
+  if (verification.compiled && verification.tests.passed === 0 && errors.length === 0) {
+    errors.push('No tests ran');
+  }
+  return errors;
+}
+
+// ============== PUBLIC API ==============
+
+/**
+ * Generate the repository for `exampleName` into `outputDir`, or merge a new
+ * generation into it when `update` is set and it already exists.
+ *
+ * Throws a GeneratorError when nothing could be generated (unknown example,
+ * existing output, broken imports, conflicting declared dependencies). Returns an unsuccessful result when the
+ * repo was written but has update conflicts or fails verification.
+ */
+export async function createExample(
+  exampleName: string,
+  outputDir: string,
+  options: CreateExampleOptions = {},
+): Promise<CreateExampleResult> {
+  const logger = options.logger || silentLogger;
+
+  const example = getExample(exampleName);
+  if (!example) {
+    throw new UnknownExampleError(exampleName, Object.keys(EXAMPLES_MAP));
+  }
+
+  // Resolve local imports up front so a broken import graph fails before anything is written
+  const importGraph = resolveImportGraph(resolveExamplePath(example.contractFile));
+  if (importGraph.missing.length > 0) {
+    throw new UnresolvedImportsError(example.contractFile, importGraph.missing);
+  }
+  const required = mergeDependencies(collectRequirements([example], getCategory(example.category)));
+  const { unknown } = resolvePackageVersions(importGraph.packages, { ...templateDependencies(), ...required });
+  if (unknown.length > 0) {
+    throw new UnversionedPackagesError(unknown);
+  }
+
+  const updating = fs.existsSync(outputDir);
+  const previous = updating ? readManifest(outputDir) : null;
+  if (updating) {
+    if (!options.update) {
+      throw new OutputExistsError(outputDir);
+    }
+    if (!previous) {
+      throw new UpdateError(outputDir, `no ${MANIFEST_FILE} records what was originally generated`);
+    }
+    if (previous.example !== exampleName) {
+      throw new UpdateError(outputDir, `it was generated from "${previous.example}", not "${exampleName}"`);
+    }
+    const unresolved = unresolvedConflicts(outputDir, previous);
+    if (unresolved.length > 0) {
+      throw new UpdateError(outputDir, `resolve the conflicts the last update left in ${unresolved.join(', ')} first`);
+    }
+  }
+
+  logger.info(`${updating ? 'Updating' : 'Creating'} FHEVM example: ${exampleName}`);
+  logger.info(`Output directory: ${outputDir}`);
+
+  // Updates are generated into a staging directory, then merged into the user's copy
+  const targetDir = updating ? fs.mkdtempSync(path.join(os.tmpdir(), 'fhevm-example-update-')) : outputDir;
+  let update: UpdateReport | undefined;
+  try {
+    writeExampleFiles(example, importGraph, required, targetDir, logger);
+
+    const generatedFiles = snapshotFiles(targetDir);
+    if (previous) {
+      logger.step('🔀 Merging into existing output...');
+      update = applyUpdate(outputDir, previous.files, generatedFiles);
+    }
+    writeManifest(outputDir, exampleName, generatedFiles, update ? update.conflicts : []);
+  } finally {
+    if (updating) {
+      fs.rmSync(targetDir, { recursive: true, force: true });
+    }
+  }
+
+  if (update && update.conflicts.length > 0) {
+    return {
+      success: false,
+      message:
+        `Example "${exampleName}" was updated with ${update.conflicts.length} conflicting file(s); ` +
+        'resolve them before updating again',
+      outputPath: outputDir,
+      errors: update.conflicts.map(file => `Conflict: ${file}`),
+      update,
+    };
+  }
+
+  let verification: VerificationResult | undefined;
+  if (options.verify) {
+    logger.step('🔍 Verifying generated repo (install, compile, test)...');
+    verification = await verifyGeneratedRepo(outputDir, options);
+
+    if (!isVerified(verification)) {
+      return {
+        success: false,
+        message: `Example "${exampleName}" was generated but failed verification`,
+        outputPath: outputDir,
+        errors: verificationErrors(verification),
+        update,
+        verification,
+      };
+    }
+  }
+
+  return {
+    success: true,
+    message: `Example "${exampleName}" ${updating ? 'updated' : 'created'} successfully`,
+    outputPath: outputDir,
+    errors: [],
+    update,
+    verification,
+  };
+}
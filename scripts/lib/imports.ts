@@ -0,0 +1,145 @@
+/**
+ * imports - Resolves the Solidity import graph of an example contract
+ *
+ * Relative imports ("./X.sol", "../lib/Y.sol") are local files that must be
+ * copied along with the contract; every other import comes from an npm package
+ * that the generated project has to depend on.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { analyzeSolidityFile } from './solidity';
+
+// ============== TYPES ==============
+
+export interface ImportGraph {
+  entry: string; // Absolute path of the contract the graph starts from
+  localFiles: string[]; // Absolute paths of the entry and every local dependency, in discovery order
+  packages: string[]; // npm package names imported anywhere in the graph
+  missing: string[]; // Local imports that do not exist, as "<importer>: <import path>"
+}
+
+// Versions used for packages that the base template does not already declare
+export const SOLIDITY_PACKAGE_VERSIONS: Record<string, string> = {
+  '@fhevm/solidity': '^0.9.1',
+  '@openzeppelin/confidential-contracts': '^0.2.0',
+  '@openzeppelin/contracts': '^5.1.0',
+  'encrypted-types': '^0.0.4',
+};
+
+// ============== HELPERS ==============
+
+function isRelativeImport(importPath: string): boolean {
+  return importPath.startsWith('./') || importPath.startsWith('../');
+}
+
+// '@scope/name/path/File.sol' → '@scope/name', 'name/path/File.sol' → 'name'
+export function getPackageName(importPath: string): string | null {
+  if (isRelativeImport(importPath)) {
+    return null;
+  }
+  const parts = importPath.split('/');
+  return importPath.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+}
+
+function commonDirectory(files: string[]): string {
+  const split = files.map(file => path.dirname(file).split(path.sep));
+  const common: string[] = [];
+  for (let i = 0; split.every(parts => i < parts.length && parts[i] === split[0][i]); i++) {
+    common.push(split[0][i]);
+  }
+  return common.join(path.sep) || path.sep;
+}
+
+// ============== PUBLIC API ==============
+
+/**
+ * Walk the imports of `entryFile` breadth-first and collect every local file
+ * and npm package it needs to compile.
+ */
+export function resolveImportGraph(entryFile: string): ImportGraph {
+  const entry = path.resolve(entryFile);
+  const graph: ImportGraph = { entry, localFiles: [], packages: [], missing: [] };
+  const queue = [entry];
+  const seen = new Set<string>(queue);
+
+  while (queue.length > 0) {
+    const file = queue.shift() as string;
+    graph.localFiles.push(file);
+
+    analyzeSolidityFile(file).imports.forEach(directive => {
+      const packageName = getPackageName(directive.path);
+      if (packageName) {
+        if (!graph.packages.includes(packageName)) {
+          graph.packages.push(packageName);
+        }
+        return;
+      }
+
+      const dependency = path.resolve(path.dirname(file), directive.path);
+      if (seen.has(dependency)) {
+        return;
+      }
+      seen.add(dependency);
+
+      if (fs.existsSync(dependency)) {
+        queue.push(dependency);
+      } else {
+        graph.missing.push(`${path.basename(file)}: ${directive.path}`);
+      }
+    });
+  }
+
+  return graph;
+}
+
+/**
+ * Where copyImportGraph puts each local file of the graph: paths relative to
+ * the deepest directory they share, in graph order, so relative imports keep
+ * working.
+ */
+export function planImportGraphCopy(graph: ImportGraph): { source: string; relativePath: string }[] {
+  const baseDir = commonDirectory(graph.localFiles);
+  return graph.localFiles.map(file => ({
+    source: file,
+    relativePath: path.relative(baseDir, file).split(path.sep).join('/'),
+  }));
+}
+
+/**
+ * Copy every local file of the graph into `destinationDir`, keeping their
+ * layout relative to the deepest directory they share so relative imports keep
+ * working. Returns the copied paths relative to `destinationDir`.
+ */
+export function copyImportGraph(graph: ImportGraph, destinationDir: string): string[] {
+  return planImportGraphCopy(graph).map(({ source, relativePath }) => {
+    const destination = path.join(destinationDir, relativePath);
+    fs.mkdirSync(path.dirname(destination), { recursive: true });
+    fs.copyFileSync(source, destination);
+    return relativePath;
+  });
+}
+
+/**
+ * Map the graph's packages to version ranges, preferring versions already
+ * declared in `declared` (e.g. the template's package.json). Packages with no
+ * known range are returned in `unknown` instead of being pinned to a tag.
+ */
+export function resolvePackageVersions(
+  packages: string[],
+  declared: Record<string, string> = {},
+): { dependencies: Record<string, string>; unknown: string[] } {
+  const dependencies: Record<string, string> = {};
+  const unknown: string[] = [];
+
+  packages.forEach(packageName => {
+    const version = declared[packageName] || SOLIDITY_PACKAGE_VERSIONS[packageName];
+    if (version) {
+      dependencies[packageName] = version;
+    } else {
+      unknown.push(packageName);
+    }
+  });
+
+  return { dependencies, unknown };
+}
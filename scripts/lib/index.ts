@@ -0,0 +1,81 @@
+/**
+ * FHEVM example generators - Programmatic API
+ *
+ * Everything the CLIs in scripts/ do is available here for other tooling:
+ * generators return result objects and throw the typed errors from errors.ts
+ * instead of exiting the process.
+ */
+
+export { buildAntiPatternBlocks, findExpectedErrors } from './antipatterns';
+export type { AntiPattern, ExpectedError } from './antipatterns';
+export { isBundleFile, loadBundle, matchesQuery, parseExampleQuery, resolveBundle, selectExamples } from './bundles';
+export type { BundleDefinition, ExampleQuery, QueryField } from './bundles';
+export { buildCatalog, buildCatalogIndex, searchCatalog, writeCatalog } from './catalog';
+export type { Catalog, CatalogEntry, CatalogFunction, CatalogOptions, CatalogSearchResult } from './catalog';
+export { createCategory, resolveCategory } from './category';
+export type { CollisionStrategy, CreateCategoryOptions, CreateCategoryResult, NameCollision } from './category';
+export { compileContract } from './compiler';
+export type { CompiledContract } from './compiler';
+export {
+  buildCostBlocks,
+  buildCostReport,
+  countFheOperations,
+  measureCosts,
+  readCostReport,
+  writeCostReport,
+} from './costs';
+export type { CostReport, FunctionCost, FunctionOperations, MeasureCostsOptions, OperationCounts } from './costs';
+export { applyDependencies, collectRequirements, findDependencyConflicts, mergeDependencies } from './dependencies';
+export type { DependencyConflict, DependencyRequirement, PackageManifest } from './dependencies';
+export { unifiedDiff } from './diff';
+export {
+  buildExamplePage,
+  checkDocs,
+  generateAllDocs,
+  generateApiReference,
+  generateDocs,
+  generateLearningPath,
+} from './docs';
+export type {
+  CheckDocsResult,
+  GenerateAllDocsResult,
+  GenerateDocsOptions,
+  GenerateDocsResult,
+  StalePage,
+} from './docs';
+export { anchor, flattenBlocks } from './document';
+export type { Block, DocPage, HintStyle } from './document';
+export * from './errors';
+export { createExample } from './example';
+export type { CreateExampleOptions, CreateExampleResult } from './example';
+export { buildCurriculumPage, buildLearningPath, buildNavigation, findLearningStep } from './learning';
+export type { LearningChapter, LearningPath, LearningStep } from './learning';
+export { silentLogger } from './logger';
+export type { Logger } from './logger';
+export { buildWalkthrough, parseTestNarrative } from './narrative';
+export type { NarrativeStep, NarrativeSuite, NarrativeTest } from './narrative';
+export { analyzePermissions, renderPermissionDiagram } from './permissions';
+export type { FunctionPermissions, PermissionGrant } from './permissions';
+export { buildContractReference, buildReferencePage, isEncryptedHandle, renderContractReference } from './reference';
+export type { ContractReference, EventReference, FunctionReference, ParameterReference } from './reference';
+export {
+  CATEGORIES,
+  EXAMPLES_MAP,
+  getCategory,
+  getExample,
+  getExamplesByCategory,
+  getExamplesByDifficulty,
+  searchExamples,
+} from './registry';
+export type { Category, Difficulty, ExampleConfig } from './registry';
+export { DOCS_FORMATS, getRenderer, registerRenderer, renderPage, writeSiteIndex } from './renderers';
+export type { DocRenderer, DocsFormat } from './renderers';
+export { buildSearchIndex, searchIndex, tokenize } from './search';
+export type { SearchDocument, SearchHit, SearchIndex } from './search';
+export { checkSummary, renderSummary, updateSummary } from './summary';
+export type { SummaryCheck } from './summary';
+export type { UpdateReport } from './update';
+export { parseGasReport } from './verify';
+export type { GasStats, GasUsage, VerificationResult, VerifyOptions } from './verify';
+export { createWorkspace, generateWorkspacePackageJson, generateWorkspaceReadme } from './workspace';
+export type { CreateWorkspaceOptions, CreateWorkspaceResult, WorkspacePackage } from './workspace';
@@ -0,0 +1,232 @@
+/**
+ * learning - Orders the examples into a learning path
+ *
+ * Examples are sorted topologically by `prerequisites`; among the examples
+ * ready to study, the path stays in the current chapter, then prefers the
+ * easier and alphabetically first one, so the order is stable. Chapters are
+ * listed in the order the path first reaches them. Unknown prerequisites,
+ * cycles and chapters that cannot be studied in one piece are reported
+ * together as a LearningPathError.
+ */
+
+import { anchor, Block, DocPage } from './document';
+import { LearningPathError } from './errors';
+import { Difficulty, EXAMPLES_MAP, ExampleConfig } from './registry';
+
+// ============== TYPES ==============
+
+export interface LearningStep {
+  example: ExampleConfig;
+  position: number; // 1-based place in the whole path
+  chapter: string;
+  previous?: ExampleConfig;
+  next?: ExampleConfig;
+}
+
+export interface LearningChapter {
+  title: string;
+  steps: LearningStep[];
+}
+
+export interface LearningPath {
+  steps: LearningStep[]; // Study order
+  chapters: LearningChapter[]; // The same steps grouped by chapter
+}
+
+// ============== CONSTANTS ==============
+
+export const LEARNING_PATH_SLUG = 'learning-path';
+
+// Chapter of examples that declare none
+export const DEFAULT_CHAPTER = 'General';
+
+const DIFFICULTY_ORDER: Difficulty[] = ['beginner', 'intermediate', 'advanced'];
+
+// ============== ORDERING ==============
+
+function chapterOf(example: ExampleConfig): string {
+  return example.chapter || DEFAULT_CHAPTER;
+}
+
+function compareReady(a: ExampleConfig, b: ExampleConfig): number {
+  const difficulty = DIFFICULTY_ORDER.indexOf(a.difficulty) - DIFFICULTY_ORDER.indexOf(b.difficulty);
+  return difficulty || a.title.localeCompare(b.title) || a.name.localeCompare(b.name);
+}
+
+// One cycle through `names`, e.g. a → b → a, found by following prerequisites
+function findCycle(names: string[], examples: Record<string, ExampleConfig>): string[] {
+  const path: string[] = [];
+  let current = names[0];
+  while (!path.includes(current)) {
+    path.push(current);
+    current = (examples[current].prerequisites || []).find(name => names.includes(name)) as string;
+  }
+  return [...path.slice(path.indexOf(current)), current];
+}
+
+// Kahn's algorithm; returns the names left over when prerequisites form a cycle
+function sortExamples(examples: Record<string, ExampleConfig>): { order: ExampleConfig[]; blocked: string[] } {
+  const remaining = new Map(
+    Object.values(examples).map(example => [
+      example.name,
+      new Set((example.prerequisites || []).filter(name => examples[name])),
+    ]),
+  );
+  const order: ExampleConfig[] = [];
+
+  while (remaining.size > 0) {
+    const ready = [...remaining.entries()]
+      .filter(([, prerequisites]) => prerequisites.size === 0)
+      .map(([name]) => examples[name]);
+    if (ready.length === 0) {
+      break;
+    }
+
+    const chapter = order.length > 0 ? chapterOf(order[order.length - 1]) : null;
+    const inChapter = (example: ExampleConfig) => Number(chapterOf(example) === chapter);
+    ready.sort((a, b) => inChapter(b) - inChapter(a) || compareReady(a, b));
+    const [chosen] = ready;
+    order.push(chosen);
+    remaining.delete(chosen.name);
+    remaining.forEach(prerequisites => prerequisites.delete(chosen.name));
+  }
+
+  return { order, blocked: [...remaining.keys()].sort() };
+}
+
+// ============== PUBLIC API ==============
+
+/**
+ * Build the learning path over `examples`. Throws LearningPathError listing
+ * every unknown prerequisite, cycle and chapter ordering conflict.
+ */
+export function buildLearningPath(examples: Record<string, ExampleConfig> = EXAMPLES_MAP): LearningPath {
+  const problems: string[] = [];
+  Object.values(examples).forEach(example => {
+    (example.prerequisites || [])
+      .filter(name => !examples[name])
+      .forEach(name => problems.push(`"${example.name}" has unknown prerequisite "${name}"`));
+  });
+
+  const { order, blocked } = sortExamples(examples);
+  if (blocked.length > 0) {
+    problems.push(`Prerequisites form a cycle: ${findCycle(blocked, examples).join(' → ')}`);
+  }
+
+  // Group by chapter in order of first appearance
+  const chapterTitles = [...new Set(order.map(chapterOf))];
+  const grouped = chapterTitles.flatMap(title => order.filter(example => chapterOf(example) === title));
+
+  grouped.forEach((example, index) => {
+    (example.prerequisites || []).forEach(name => {
+      const prerequisiteIndex = grouped.findIndex(candidate => candidate.name === name);
+      if (prerequisiteIndex > index) {
+        problems.push(
+          `"${example.name}" (${chapterOf(example)}) needs "${name}", ` +
+            `which comes later in chapter "${chapterOf(grouped[prerequisiteIndex])}"`,
+        );
+      }
+    });
+  });
+
+  if (problems.length > 0) {
+    throw new LearningPathError(problems);
+  }
+
+  const steps: LearningStep[] = grouped.map((example, index) => ({
+    example,
+    position: index + 1,
+    chapter: chapterOf(example),
+    previous: grouped[index - 1],
+    next: grouped[index + 1],
+  }));
+  return {
+    steps,
+    chapters: chapterTitles.map(title => ({ title, steps: steps.filter(step => step.chapter === title) })),
+  };
+}
+
+export function findLearningStep(path: LearningPath, exampleName: string): LearningStep | undefined {
+  return path.steps.find(step => step.example.name === exampleName);
+}
+
+// ============== DOCUMENT ==============
+
+function chapterHeading(index: number, chapter: LearningChapter): string {
+  return `Chapter ${index + 1}: ${chapter.title}`;
+}
+
+function pageLink(example: ExampleConfig, extension: string): string {
+  return `[${example.title}](${example.name}${extension})`;
+}
+
+/**
+ * Curriculum page: every chapter with its examples in study order. Links
+ * point at sibling pages with `extension`.
+ */
+export function buildCurriculumPage(path: LearningPath, extension: string = '.md'): DocPage {
+  const blocks: Block[] = [
+    { type: 'heading', level: 1, text: 'Learning Path' },
+    {
+      type: 'paragraph',
+      text:
+        'The examples in study order. Every example comes after the examples it builds on; within a chapter, ' +
+        'easier examples come first.',
+    },
+  ];
+
+  const byName = new Map(path.steps.map(step => [step.example.name, step.example]));
+  path.chapters.forEach((chapter, index) => {
+    blocks.push({ type: 'heading', level: 2, text: chapterHeading(index, chapter) });
+    blocks.push({
+      type: 'table',
+      headers: ['Step', 'Example', 'Difficulty', 'Builds on'],
+      rows: chapter.steps.map(step => {
+        const prerequisites = (step.example.prerequisites || [])
+          .map(name => byName.get(name))
+          .map(example => (example ? pageLink(example, extension) : ''));
+        return [
+          String(step.position),
+          pageLink(step.example, extension),
+          step.example.difficulty,
+          prerequisites.join(', ') || '-',
+        ];
+      }),
+    });
+
+    const objectives = chapter.steps.flatMap(step => step.example.learningObjectives || []);
+    if (objectives.length > 0) {
+      blocks.push({ type: 'paragraph', text: '**You will learn:**' }, { type: 'list', items: objectives });
+    }
+  });
+
+  return {
+    slug: LEARNING_PATH_SLUG,
+    title: 'Learning Path',
+    description: 'The FHEVM examples in study order, grouped by chapter',
+    blocks,
+  };
+}
+
+/**
+ * "Previous / next" line for the bottom of an example page, with the step's
+ * place in the curriculum.
+ */
+export function buildNavigation(path: LearningPath, step: LearningStep, extension: string = '.md'): Block[] {
+  const chapterIndex = path.chapters.findIndex(chapter => chapter.title === step.chapter);
+  const chapterAnchor = anchor(chapterHeading(chapterIndex, path.chapters[chapterIndex]));
+  const links = [
+    step.previous ? `← Previous: ${pageLink(step.previous, extension)}` : '',
+    step.next ? `Next: ${pageLink(step.next, extension)} →` : '',
+  ].filter(Boolean);
+
+  return [
+    {
+      type: 'paragraph',
+      text:
+        `**Learning path:** step ${step.position} of ${path.steps.length}, ` +
+        `[${step.chapter}](${LEARNING_PATH_SLUG}${extension}#${chapterAnchor})`,
+    },
+    ...(links.length > 0 ? [{ type: 'paragraph', text: links.join(' · ') } as Block] : []),
+  ];
+}
@@ -0,0 +1,22 @@
+/**
+ * logger - Progress reporting hooks for the generator library
+ *
+ * The library never writes to the console itself. The CLIs pass a Logger that
+ * prints colored output; programmatic callers get silence unless they opt in.
+ */
+
+export interface Logger {
+  step(message: string): void; // Start of a numbered step, e.g. "📋 Step 1: Cloning base template..."
+  success(message: string): void;
+  info(message: string): void;
+  warn(message: string): void;
+  detail(message: string): void; // One item within a step, e.g. a copied file
+}
+
+export const silentLogger: Logger = {
+  step: () => undefined,
+  success: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  detail: () => undefined,
+};
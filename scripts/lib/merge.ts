@@ -0,0 +1,110 @@
+/**
+ * merge - Line-based three-way merge
+ *
+ * Combines the local and newly generated versions of a file against the
+ * version that was originally generated (the common base). Changes made on only
+ * one side are applied; overlapping changes that differ become a conflict block
+ * with git-style markers.
+ */
+
+import { diffHunks, Hunk } from './diff';
+
+// ============== TYPES ==============
+
+export interface MergeResult {
+  content: string;
+  conflicts: number; // Conflict blocks written into `content`
+}
+
+// ============== CONSTANTS ==============
+
+export const CONFLICT_MARKERS = {
+  local: '<<<<<<< local',
+  separator: '=======',
+  generated: '>>>>>>> generated',
+};
+
+// ============== DIFF ==============
+
+function splitLines(text: string): string[] {
+  return text.split('\n');
+}
+
+// Lines of one side covering base lines [start, end), given that side's hunks inside that range
+function sideSlice(base: string[], side: string[], hunks: Hunk[], start: number, end: number): string[] {
+  if (hunks.length === 0) {
+    return base.slice(start, end);
+  }
+  const first = hunks[0];
+  const last = hunks[hunks.length - 1];
+  return side.slice(first.sideStart - (first.baseStart - start), last.sideEnd + (end - last.baseEnd));
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+// ============== PUBLIC API ==============
+
+export function mergeThreeWay(base: string, local: string, generated: string): MergeResult {
+  if (local === generated || generated === base) {
+    return { content: local, conflicts: 0 };
+  }
+  if (local === base) {
+    return { content: generated, conflicts: 0 };
+  }
+
+  const baseLines = splitLines(base);
+  const localLines = splitLines(local);
+  const generatedLines = splitLines(generated);
+  const hunks = [
+    ...diffHunks(baseLines, localLines).map(hunk => ({ ...hunk, local: true })),
+    ...diffHunks(baseLines, generatedLines).map(hunk => ({ ...hunk, local: false })),
+  ].sort((x, y) => x.baseStart - y.baseStart || x.baseEnd - y.baseEnd);
+
+  // Lines keep their '\r', so markers follow the local file's line endings
+  const carriageReturn = local.includes('\r\n') ? '\r' : '';
+  const output: string[] = [];
+  let conflicts = 0;
+  let basePosition = 0;
+  let index = 0;
+
+  while (index < hunks.length) {
+    // Group hunks whose base ranges overlap or touch
+    const start = hunks[index].baseStart;
+    let end = hunks[index].baseEnd;
+    let next = index + 1;
+    while (next < hunks.length && hunks[next].baseStart <= end) {
+      end = Math.max(end, hunks[next].baseEnd);
+      next++;
+    }
+    const group = hunks.slice(index, next);
+    const localHunks = group.filter(hunk => hunk.local);
+    const generatedHunks = group.filter(hunk => !hunk.local);
+
+    output.push(...baseLines.slice(basePosition, start));
+    const localSlice = sideSlice(baseLines, localLines, localHunks, start, end);
+    const generatedSlice = sideSlice(baseLines, generatedLines, generatedHunks, start, end);
+
+    if (generatedHunks.length === 0 || sameLines(localSlice, generatedSlice)) {
+      output.push(...localSlice);
+    } else if (localHunks.length === 0) {
+      output.push(...generatedSlice);
+    } else {
+      conflicts++;
+      output.push(
+        CONFLICT_MARKERS.local + carriageReturn,
+        ...localSlice,
+        CONFLICT_MARKERS.separator + carriageReturn,
+        ...generatedSlice,
+        CONFLICT_MARKERS.generated + carriageReturn,
+      );
+    }
+
+    basePosition = end;
+    index = next;
+  }
+  output.push(...baseLines.slice(basePosition));
+
+  return { content: output.join('\n'), conflicts };
+}
@@ -0,0 +1,211 @@
+/**
+ * narrative - Step-by-step walkthroughs built from mocha tests
+ *
+ * Parses a test file with the TypeScript compiler and keeps its describe/it
+ * tree: every `it` becomes a titled section with its code, and the calls that
+ * encrypt inputs (createEncryptedInput, add32, encrypt, ...) or decrypt
+ * results (userDecryptEuint, publicDecrypt, ...) are listed as steps. A test or
+ * describe block preceded by a `// docs:exclude` comment is left out.
+ */
+
+import * as ts from 'typescript';
+import type { Block } from './document';
+
+// ============== TYPES ==============
+
+export type StepKind = 'encrypt' | 'decrypt';
+
+export interface NarrativeStep {
+  kind: StepKind;
+  call: string; // Called function, e.g. add32
+  code: string; // The statement making the call, on one line
+}
+
+export interface NarrativeTest {
+  title: string;
+  code: string; // Body of the test, dedented
+  steps: NarrativeStep[]; // In source order
+}
+
+export interface NarrativeSuite {
+  title: string;
+  setup: string[]; // Bodies of before/beforeEach hooks, dedented
+  tests: NarrativeTest[];
+  suites: NarrativeSuite[];
+}
+
+// ============== CONSTANTS ==============
+
+export const EXCLUDE_MARKER = 'docs:exclude';
+
+const TEST_FUNCTIONS = ['it', 'test'];
+const SUITE_FUNCTIONS = ['describe', 'context'];
+const SETUP_HOOKS = ['before', 'beforeEach'];
+
+// Building an encrypted input: fhevm.createEncryptedInput(...).add32(1).encrypt()
+const ENCRYPT_CALL = /^(createEncryptedInput|encryptedInput|add(8|16|32|64|128|256|Bool|Address)|encrypt)$/;
+const DECRYPT_CALL = /decrypt/i;
+
+// ============== PARSING ==============
+
+function calleeName(expression: ts.Expression): string {
+  if (ts.isIdentifier(expression)) {
+    return expression.text;
+  }
+  if (ts.isPropertyAccessExpression(expression)) {
+    return expression.name.text;
+  }
+  return '';
+}
+
+// `it('title', fn)` or `it.only('title', fn)`: the mocha function, title and callback
+function mochaCall(node: ts.Node): { name: string; title: string; body: ts.ConciseBody } | null {
+  if (!ts.isCallExpression(node) || node.arguments.length < 1) {
+    return null;
+  }
+  const callee = node.expression;
+  const name =
+    ts.isPropertyAccessExpression(callee) && ts.isIdentifier(callee.expression)
+      ? callee.expression.text
+      : calleeName(callee);
+  const [first, second] = node.arguments;
+  const callback = SETUP_HOOKS.includes(name) ? first : second;
+  if (!callback || !(ts.isArrowFunction(callback) || ts.isFunctionExpression(callback))) {
+    return null;
+  }
+  const title = ts.isStringLiteralLike(first) ? first.text : '';
+  return { name, title, body: callback.body };
+}
+
+function isExcluded(statement: ts.Statement, source: ts.SourceFile): boolean {
+  const comments = ts.getLeadingCommentRanges(source.text, statement.pos) || [];
+  return comments.some(comment => source.text.slice(comment.pos, comment.end).includes(EXCLUDE_MARKER));
+}
+
+function dedent(text: string): string {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const indents = lines.filter(line => line.trim()).map(line => line.length - line.trimStart().length);
+  const indent = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines
+    .map(line => line.slice(indent))
+    .join('\n')
+    .trim();
+}
+
+function bodyCode(body: ts.ConciseBody, source: ts.SourceFile): string {
+  if (!ts.isBlock(body)) {
+    return body.getText(source);
+  }
+  const start = body.statements.length > 0 ? body.statements[0].getFullStart() : body.getStart(source) + 1;
+  const end = body.getEnd() - 1;
+  return dedent(source.text.slice(start, end).replace(/^\s*\n/, ''));
+}
+
+function findSteps(body: ts.ConciseBody, source: ts.SourceFile): NarrativeStep[] {
+  const steps: NarrativeStep[] = [];
+  const visit = (node: ts.Node, statement: ts.Node) => {
+    const current = ts.isStatement(node) && !ts.isBlock(node) ? node : statement;
+    if (ts.isCallExpression(node)) {
+      const call = calleeName(node.expression);
+      const kind: StepKind | null = ENCRYPT_CALL.test(call) ? 'encrypt' : DECRYPT_CALL.test(call) ? 'decrypt' : null;
+      const code = current.getText(source).replace(/\s*\n\s*/g, ' ');
+      // A chained call reports once per statement and kind
+      if (kind && !steps.some(step => step.kind === kind && step.code === code)) {
+        steps.push({ kind, call, code });
+      }
+    }
+    ts.forEachChild(node, child => visit(child, current));
+  };
+  visit(body, body);
+  return steps;
+}
+
+function readSuite(title: string, statements: ts.NodeArray<ts.Statement>, source: ts.SourceFile): NarrativeSuite {
+  const suite: NarrativeSuite = { title, setup: [], tests: [], suites: [] };
+  statements.forEach(statement => {
+    if (!ts.isExpressionStatement(statement) || isExcluded(statement, source)) {
+      return;
+    }
+    const call = mochaCall(statement.expression);
+    if (!call) {
+      return;
+    }
+    if (TEST_FUNCTIONS.includes(call.name)) {
+      suite.tests.push({ title: call.title, code: bodyCode(call.body, source), steps: findSteps(call.body, source) });
+    } else if (SUITE_FUNCTIONS.includes(call.name) && ts.isBlock(call.body)) {
+      suite.suites.push(readSuite(call.title, call.body.statements, source));
+    } else if (SETUP_HOOKS.includes(call.name)) {
+      suite.setup.push(bodyCode(call.body, source));
+    }
+  });
+  return suite;
+}
+
+/**
+ * The describe/it tree of a mocha test file. The returned root suite has an
+ * empty title and holds the top-level blocks.
+ */
+export function parseTestNarrative(sourceText: string, fileName: string = 'test.ts'): NarrativeSuite {
+  const source = ts.createSourceFile(fileName, sourceText, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+  return readSuite('', source.statements, source);
+}
+
+// ============== DOCUMENT ==============
+
+function sentence(title: string): string {
+  return title.charAt(0).toUpperCase() + title.slice(1);
+}
+
+function stepBlocks(steps: NarrativeStep[]): Block[] {
+  if (steps.length === 0) {
+    return [];
+  }
+  const items = steps.map(step =>
+    step.kind === 'encrypt' ? `🔐 **Encrypt:** \`${step.code}\`` : `🔓 **Decrypt:** \`${step.code}\``,
+  );
+  return [{ type: 'hint', style: 'info', blocks: [{ type: 'list', items }] }];
+}
+
+function suiteBlocks(suite: NarrativeSuite, path: string[]): Block[] {
+  const blocks: Block[] = [];
+  const tests = suite.tests.flatMap((test): Block[] => [
+    { type: 'heading', level: 4, text: sentence(test.title) },
+    ...stepBlocks(test.steps),
+    { type: 'code', language: 'typescript', code: test.code },
+  ]);
+  if (tests.length > 0) {
+    blocks.push({ type: 'heading', level: 3, text: path.join(' › ') || 'Tests' }, ...tests);
+  }
+  suite.suites.forEach(child => blocks.push(...suiteBlocks(child, [...path, child.title])));
+  return blocks;
+}
+
+/**
+ * `## Walkthrough` section for an example page: the setup hooks of the
+ * outermost suite, then a section per test grouped by its describe blocks.
+ * Returns no blocks when the file has no tests.
+ */
+export function buildWalkthrough(suite: NarrativeSuite): Block[] {
+  // A file wrapped in a single describe is documented from inside it
+  const root = suite.tests.length === 0 && suite.suites.length === 1 ? suite.suites[0] : suite;
+  const sections = suiteBlocks(root, []);
+  if (sections.length === 0) {
+    return [];
+  }
+
+  const setup = root === suite ? suite.setup : [...suite.setup, ...root.setup];
+  const blocks: Block[] = [
+    { type: 'heading', level: 2, text: 'Walkthrough' },
+    {
+      type: 'paragraph',
+      text:
+        'Each test of the example, in order. 🔐 marks the steps that encrypt inputs for the contract and 🔓 the ' +
+        'steps that decrypt its results.',
+    },
+  ];
+  if (setup.length > 0) {
+    blocks.push({ type: 'heading', level: 3, text: 'Setup' });
+    setup.forEach(code => blocks.push({ type: 'code', language: 'typescript', code }));
+  }
+  return [...blocks, ...sections];
+}
@@ -0,0 +1,268 @@
+/**
+ * permissions - Static analysis of FHE ACL grants and their Mermaid diagrams
+ *
+ * Finds every FHE.allow / FHE.allowThis / FHE.allowTransient call (TFHE.* for
+ * older contracts) and names the granted handle after the storage slot it
+ * lives in, so the same value carries the same name in every function that
+ * shares it: a local stored into `ComplianceRecord({complianceScore: x})` and a
+ * later `record.complianceScore` are both `ComplianceRecord.complianceScore`.
+ */
+
+import { parse, visit } from '@solidity-parser/parser';
+import type * as AST from '@solidity-parser/parser/dist/src/ast-types';
+import { SolidityParseError } from './solidity';
+
+// ============== TYPES ==============
+
+export type GrantKind = 'allow' | 'allowThis' | 'allowTransient';
+
+// Who receives the permission: the caller, the contract itself, or any other address expression
+export type GranteeKind = 'sender' | 'contract' | 'address';
+
+export interface PermissionGrant {
+  kind: GrantKind;
+  value: string; // Storage name of the handle, e.g. ComplianceRecord.complianceScore or _count
+  expression: string; // The handle as written in the call, e.g. encryptedScore
+  grantee: string; // msg.sender, address(this) or the address expression, e.g. request.requestor
+  granteeKind: GranteeKind;
+}
+
+export interface FunctionPermissions {
+  contract: string;
+  function: string; // Function name, or constructor
+  grants: PermissionGrant[]; // In source order
+}
+
+// ============== CONSTANTS ==============
+
+const FHE_LIBRARIES = ['FHE', 'TFHE'];
+const GRANT_KINDS: GrantKind[] = ['allow', 'allowThis', 'allowTransient'];
+
+// ============== TYPE CONTEXT ==============
+
+interface ContractScope {
+  source: string;
+  structs: Record<string, string[]>; // Struct name → member names in declaration order
+  stateTypes: Record<string, AST.TypeName | null>; // State variable → declared type
+}
+
+function textOf(scope: ContractScope, node: AST.BaseASTNode): string {
+  return node.range ? scope.source.slice(node.range[0], node.range[1] + 1).replace(/\s+/g, ' ') : '';
+}
+
+// The struct a value of this type holds, looking through mappings and arrays
+function structOf(scope: ContractScope, typeName: AST.TypeName | null | undefined): string | null {
+  if (!typeName) {
+    return null;
+  }
+  switch (typeName.type) {
+    case 'UserDefinedTypeName':
+      return scope.structs[typeName.namePath] ? typeName.namePath : null;
+    case 'Mapping':
+      return structOf(scope, typeName.valueType);
+    case 'ArrayTypeName':
+      return structOf(scope, typeName.baseTypeName);
+    default:
+      return null;
+  }
+}
+
+// ============== FUNCTION ANALYSIS ==============
+
+class FunctionAnalyzer {
+  private localTypes: Record<string, AST.TypeName | null> = {};
+  private aliases: Record<string, string> = {};
+
+  constructor(
+    private readonly scope: ContractScope,
+    parameters: AST.VariableDeclaration[],
+  ) {
+    parameters.forEach(parameter => this.declare(parameter));
+  }
+
+  private declare(declaration: AST.VariableDeclaration): void {
+    if (declaration.name) {
+      this.localTypes[declaration.name] = declaration.typeName;
+    }
+  }
+
+  // Struct type of the value an expression evaluates to, if any
+  private structOfExpression(expression: AST.Expression): string | null {
+    if (expression.type === 'Identifier') {
+      const typeName = this.localTypes[expression.name] ?? this.scope.stateTypes[expression.name];
+      return structOf(this.scope, typeName);
+    }
+    if (expression.type === 'IndexAccess') {
+      return this.structOfExpression(expression.base);
+    }
+    return null;
+  }
+
+  label(expression: AST.Expression): string {
+    if (expression.type === 'Identifier') {
+      return this.aliases[expression.name] || expression.name;
+    }
+    if (expression.type === 'MemberAccess') {
+      const struct = this.structOfExpression(expression.expression);
+      return struct ? `${struct}.${expression.memberName}` : textOf(this.scope, expression);
+    }
+    return textOf(this.scope, expression);
+  }
+
+  // Record which storage slot each local handle ends up in (or was copied from)
+  collectAliases(body: AST.Block): void {
+    visit(body, {
+      VariableDeclarationStatement: statement => {
+        const variables = statement.variables as (AST.VariableDeclaration | null)[];
+        variables.forEach(variable => variable && this.declare(variable));
+
+        // `euint32 copy = _count;` names the copy after what it was read from
+        const initial = statement.initialValue;
+        if (variables.length === 1 && variables[0] && variables[0].name && initial) {
+          if (initial.type === 'Identifier' || initial.type === 'MemberAccess') {
+            this.aliases[variables[0].name] = this.label(initial);
+          }
+        }
+      },
+      BinaryOperation: operation => {
+        const right = operation.right;
+        if (operation.operator === '=' && right.type === 'Identifier' && this.localTypes[right.name]) {
+          this.aliases[right.name] = this.label(operation.left);
+        }
+      },
+      FunctionCall: call => {
+        // Struct constructor: Record({field: local}) or Record(local, ...)
+        if (call.expression.type !== 'Identifier' || !this.scope.structs[call.expression.name]) {
+          return;
+        }
+        const struct = call.expression.name;
+        const members = call.names.length > 0 ? call.names : this.scope.structs[struct];
+        call.arguments.forEach((argument, index) => {
+          if (argument.type === 'Identifier' && this.localTypes[argument.name] && members[index]) {
+            this.aliases[argument.name] = `${struct}.${members[index]}`;
+          }
+        });
+      },
+    });
+  }
+
+  grants(body: AST.Block): PermissionGrant[] {
+    const grants: PermissionGrant[] = [];
+    visit(body, {
+      FunctionCall: call => {
+        const callee = call.expression;
+        if (
+          callee.type !== 'MemberAccess' ||
+          callee.expression.type !== 'Identifier' ||
+          !FHE_LIBRARIES.includes(callee.expression.name) ||
+          !GRANT_KINDS.includes(callee.memberName as GrantKind) ||
+          call.arguments.length === 0
+        ) {
+          return;
+        }
+
+        const kind = callee.memberName as GrantKind;
+        const [handle, target] = call.arguments;
+        const grantee = kind === 'allowThis' || !target ? 'address(this)' : textOf(this.scope, target);
+        grants.push({
+          kind,
+          value: this.label(handle),
+          expression: textOf(this.scope, handle),
+          grantee,
+          granteeKind: grantee === 'msg.sender' ? 'sender' : grantee === 'address(this)' ? 'contract' : 'address',
+        });
+      },
+    });
+    return grants;
+  }
+}
+
+function analyzeContract(source: string, contract: AST.ContractDefinition): FunctionPermissions[] {
+  const scope: ContractScope = { source, structs: {}, stateTypes: {} };
+  contract.subNodes.forEach(node => {
+    if (node.type === 'StructDefinition') {
+      const struct = node as AST.StructDefinition;
+      scope.structs[struct.name] = struct.members.map(member => member.name || '');
+    } else if (node.type === 'StateVariableDeclaration') {
+      (node as AST.StateVariableDeclaration).variables.forEach(variable => {
+        if (variable.name) {
+          scope.stateTypes[variable.name] = variable.typeName;
+        }
+      });
+    }
+  });
+
+  const result: FunctionPermissions[] = [];
+  contract.subNodes.forEach(node => {
+    const fn = node as AST.FunctionDefinition;
+    if (node.type !== 'FunctionDefinition' || !fn.body) {
+      return;
+    }
+    const analyzer = new FunctionAnalyzer(scope, fn.parameters);
+    analyzer.collectAliases(fn.body);
+    const grants = analyzer.grants(fn.body);
+    if (grants.length > 0) {
+      const name = fn.isConstructor ? 'constructor' : fn.name || 'fallback';
+      result.push({ contract: contract.name, function: name, grants });
+    }
+  });
+  return result;
+}
+
+// ============== PUBLIC API ==============
+
+/**
+ * List the FHE permission grants of every function in `source`, skipping
+ * functions that grant nothing.
+ */
+export function analyzePermissions(source: string, filePath: string | null = null): FunctionPermissions[] {
+  let unit: AST.SourceUnit;
+  try {
+    unit = parse(source, { range: true }) as AST.SourceUnit;
+  } catch (err) {
+    throw new SolidityParseError(filePath, err instanceof Error ? err.message : String(err));
+  }
+
+  return unit.children
+    .filter(node => node.type === 'ContractDefinition')
+    .flatMap(node => analyzeContract(source, node as AST.ContractDefinition));
+}
+
+// ============== MERMAID ==============
+
+function escapeLabel(text: string): string {
+  return text.replace(/"/g, '#quot;');
+}
+
+/**
+ * Mermaid flowchart of one function's grants: encrypted values on the left,
+ * the addresses allowed to use them on the right. Transient grants, which
+ * only last for the transaction, are dotted.
+ */
+export function renderPermissionDiagram(permissions: FunctionPermissions): string {
+  const values: string[] = [];
+  const grantees: string[] = [];
+  const lines = ['flowchart LR'];
+
+  permissions.grants.forEach(grant => {
+    if (!values.includes(grant.value)) {
+      values.push(grant.value);
+      const written = grant.expression !== grant.value ? `<br/><small>${grant.expression}</small>` : '';
+      lines.push(`  v${values.length - 1}["🔐 ${escapeLabel(grant.value)}${escapeLabel(written)}"]`);
+    }
+    if (!grantees.includes(grant.grantee)) {
+      grantees.push(grant.grantee);
+      const icon = grant.granteeKind === 'sender' ? '👤' : grant.granteeKind === 'contract' ? '📜' : '🏷️';
+      lines.push(`  g${grantees.length - 1}(["${icon} ${escapeLabel(grant.grantee)}"])`);
+    }
+  });
+
+  permissions.grants.forEach(grant => {
+    const from = `v${values.indexOf(grant.value)}`;
+    const to = `g${grantees.indexOf(grant.grantee)}`;
+    const arrow = grant.kind === 'allowTransient' ? `-. ${grant.kind} .->` : `-- ${grant.kind} -->`;
+    lines.push(`  ${from} ${arrow} ${to}`);
+  });
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,121 @@
+/**
+ * project - Building blocks shared by the example and category generators
+ *
+ * Both clone the base template and copy an example's test with its fixture and
+ * helpers, which keep their place relative to the test so its relative imports
+ * still resolve.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { GeneratorError } from './errors';
+import { ExampleConfig, resolveExamplePath, ROOT_DIR } from './registry';
+
+// ============== TYPES ==============
+
+// A file to copy into the project; destination is relative to it
+export interface PlannedFile {
+  source: string;
+  destination: string;
+}
+
+// ============== CONSTANTS ==============
+
+// Base project every example is generated from
+export const TEMPLATE_DIR = path.join(ROOT_DIR, 'fhevm-hardhat-template');
+
+// The template's own sample, replaced by the example
+const TEMPLATE_SAMPLE_FILES = ['contracts/Counter.sol', 'test/Counter.ts', 'deploy/Counter.ts'];
+
+// ============== TEMPLATE ==============
+
+export function copyDirectoryRecursive(source: string, destination: string): void {
+  if (!fs.existsSync(destination)) {
+    fs.mkdirSync(destination, { recursive: true });
+  }
+
+  const items = fs.readdirSync(source);
+
+  items.forEach(item => {
+    const sourcePath = path.join(source, item);
+    const destPath = path.join(destination, item);
+    const stat = fs.statSync(sourcePath);
+
+    if (stat.isDirectory()) {
+      // Skip node_modules, artifacts, cache, etc.
+      if (['node_modules', 'artifacts', 'cache', 'coverage', 'types', 'dist'].includes(item)) {
+        return;
+      }
+      copyDirectoryRecursive(sourcePath, destPath);
+    } else {
+      fs.copyFileSync(sourcePath, destPath);
+    }
+  });
+}
+
+// Copy the base template without its sample contract, test and deploy script
+export function cloneTemplate(outputDir: string): void {
+  copyDirectoryRecursive(TEMPLATE_DIR, outputDir);
+
+  TEMPLATE_SAMPLE_FILES.forEach(file => {
+    const samplePath = path.join(outputDir, file);
+    if (fs.existsSync(samplePath)) {
+      fs.unlinkSync(samplePath);
+    }
+  });
+}
+
+// Every dependency and devDependency the base template's package.json declares
+export function templateDependencies(): Record<string, string> {
+  const packageJson = JSON.parse(fs.readFileSync(path.join(TEMPLATE_DIR, 'package.json'), 'utf-8'));
+  return { ...packageJson.devDependencies, ...packageJson.dependencies };
+}
+
+// ============== SUPPORT FILES ==============
+
+// Fixture and additional files keep their place relative to the test, so its relative imports resolve
+export function planSupportFiles(example: ExampleConfig, testFile: string): PlannedFile[] {
+  const files = [example.fixture, ...(example.additionalFiles || [])].filter((file): file is string =>
+    Boolean(file),
+  );
+
+  return files.map(file => {
+    const relativePath = path.posix.relative(path.posix.dirname(example.testFile), file);
+    const destination = path.posix.normalize(path.posix.join(path.posix.dirname(testFile), relativePath));
+    if (destination.startsWith('..')) {
+      throw new GeneratorError(`${file} of ${example.name} would be written outside the project`);
+    }
+    return { source: resolveExamplePath(file), destination };
+  });
+}
+
+const RELATIVE_IMPORT = /(\bfrom\s+|\bimport\s*\(\s*|\brequire\s*\(\s*|\bimport\s+)(["'])(\.\.?\/[^"']*)\2/g;
+
+/**
+ * Point the relative imports of a test moved from `fromFile` to `toFile` at
+ * the same files: at their new path when they moved too (`moved` maps old
+ * paths to new ones), otherwise at the unchanged path. Paths are relative to
+ * the repository, which the project mirrors.
+ */
+export function rewriteRelativeImports(
+  content: string,
+  fromFile: string,
+  toFile: string,
+  moved: Record<string, string> = {},
+): string {
+  const stripExtension = (file: string) => file.replace(/\.(ts|js)$/, '');
+  const movedFiles = new Map(Object.entries(moved).map(([from, to]) => [stripExtension(from), stripExtension(to)]));
+
+  return content.replace(RELATIVE_IMPORT, (_match, prefix: string, quote: string, specifier: string) => {
+    const target = stripExtension(path.posix.normalize(path.posix.join(path.posix.dirname(fromFile), specifier)));
+    const extension = specifier.slice(stripExtension(specifier).length);
+    const relative = path.posix.relative(path.posix.dirname(toFile), (movedFiles.get(target) || target) + extension);
+    return `${prefix}${quote}${relative.startsWith('.') ? relative : `./${relative}`}${quote}`;
+  });
+}
+
+// Repository path → project path of each support file, the `moved` argument of rewriteRelativeImports
+export function movedSupportFiles(support: PlannedFile[]): Record<string, string> {
+  const repositoryPath = (file: string) => path.relative(ROOT_DIR, file).split(path.sep).join('/');
+  return Object.fromEntries(support.map(file => [repositoryPath(file.source), file.destination]));
+}
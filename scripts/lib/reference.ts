@@ -0,0 +1,293 @@
+/**
+ * reference - API reference pages built from compiler output
+ *
+ * The ABI gives every callable function, event and error (inherited ones
+ * included) with exact types; userdoc/devdoc give their NatSpec. Modifiers and
+ * emitted events are not in the ABI, so they come from the parser model of the
+ * contract's own source.
+ */
+
+import type { AbiEntry, AbiParameter, CompiledContract, NatSpecEntry } from './compiler';
+import { anchor, Block, DocPage } from './document';
+import { renderPage } from './renderers';
+import type { SolidityContract, SolidityFunction } from './solidity';
+
+// ============== TYPES ==============
+
+export interface ParameterReference {
+  name: string;
+  type: string; // Solidity type, e.g. externalEuint32
+  description: string;
+  encrypted: boolean; // The value is an FHE ciphertext handle
+  indexed: boolean; // Event parameters only
+}
+
+export interface FunctionReference {
+  name: string;
+  signature: string; // Canonical ABI signature, e.g. add(bytes32,bytes)
+  declaration: string; // Solidity declaration, e.g. function add(externalEuint32 a, bytes b) external
+  stateMutability: string;
+  notice: string;
+  details: string;
+  parameters: ParameterReference[];
+  returns: ParameterReference[];
+  modifiers: string[];
+  emits: string[];
+}
+
+export interface EventReference {
+  name: string;
+  signature: string;
+  declaration: string;
+  notice: string;
+  details: string;
+  parameters: ParameterReference[];
+}
+
+export interface ContractReference {
+  name: string;
+  title: string;
+  notice: string;
+  details: string;
+  functions: FunctionReference[];
+  events: EventReference[];
+  errors: EventReference[];
+}
+
+// ============== ENCRYPTED TYPES ==============
+
+// euint8..euint256, eint*, ebool, eaddress, ebytes* and their externalE* input forms
+const ENCRYPTED_TYPE = /^(externalE|e)(u?int\d+|bool|address|bytes\d+)$/;
+
+/**
+ * Whether a Solidity type is an encrypted handle (`euint32`, `ebool`,
+ * `externalEuint64`...). Arrays of handles count as well.
+ */
+export function isEncryptedHandle(type: string): boolean {
+  return ENCRYPTED_TYPE.test(type.replace(/(\[\d*\])+$/, ''));
+}
+
+// ============== MODEL ==============
+
+// ABI internalType is "struct S", "contract C", "enum E" or the plain type
+function solidityType(parameter: AbiParameter): string {
+  return (parameter.internalType || parameter.type).replace(/^(struct|contract|enum) /, '');
+}
+
+function canonicalType(parameter: AbiParameter): string {
+  if (parameter.type.startsWith('tuple')) {
+    const components = (parameter.components || []).map(canonicalType).join(',');
+    return `(${components})${parameter.type.slice('tuple'.length)}`;
+  }
+  return parameter.type;
+}
+
+function canonicalSignature(entry: AbiEntry): string {
+  return `${entry.name}(${(entry.inputs || []).map(canonicalType).join(',')})`;
+}
+
+function toParameters(parameters: AbiParameter[] = [], docs: Record<string, string> = {}): ParameterReference[] {
+  return parameters.map((parameter, index) => {
+    const type = solidityType(parameter);
+    return {
+      name: parameter.name,
+      type,
+      description: docs[parameter.name] || docs[`_${index}`] || '',
+      encrypted: isEncryptedHandle(type),
+      indexed: parameter.indexed === true,
+    };
+  });
+}
+
+function formatParameters(parameters: ParameterReference[]): string {
+  return parameters
+    .map(parameter => [parameter.type, parameter.indexed ? 'indexed' : '', parameter.name].filter(Boolean).join(' '))
+    .join(', ');
+}
+
+function findSourceFunction(source: SolidityContract | undefined, entry: AbiEntry): SolidityFunction | undefined {
+  if (!source) {
+    return undefined;
+  }
+  const types = (entry.inputs || []).map(solidityType).join(',');
+  return source.functions.find(fn => fn.signature === `${entry.name}(${types})`);
+}
+
+function natSpec(entries: Record<string, NatSpecEntry> | undefined, signature: string): NatSpecEntry {
+  return (entries && entries[signature]) || {};
+}
+
+function toEvent(entry: AbiEntry, userdoc: NatSpecEntry, devdoc: NatSpecEntry, keyword: string): EventReference {
+  const parameters = toParameters(entry.inputs, devdoc.params);
+  return {
+    name: entry.name as string,
+    signature: canonicalSignature(entry),
+    declaration: `${keyword} ${entry.name}(${formatParameters(parameters)})`,
+    notice: userdoc.notice || '',
+    details: devdoc.details || '',
+    parameters,
+  };
+}
+
+/**
+ * Combine the compiler output of a contract with the parser model of its own
+ * source (for modifiers and emitted events) into one reference model.
+ */
+export function buildContractReference(compiled: CompiledContract, source?: SolidityContract): ContractReference {
+  const { abi, userdoc, devdoc } = compiled;
+  const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name);
+
+  const functions = abi
+    .filter(entry => entry.type === 'function')
+    .map(entry => {
+      const signature = canonicalSignature(entry);
+      const user = natSpec(userdoc.methods, signature);
+      const dev = natSpec(devdoc.methods, signature);
+      const sourceFunction = findSourceFunction(source, entry);
+      const parameters = toParameters(entry.inputs, dev.params);
+      const returns = toParameters(entry.outputs, dev.returns);
+      const mutability =
+        entry.stateMutability && entry.stateMutability !== 'nonpayable' ? ` ${entry.stateMutability}` : '';
+      const visibility = sourceFunction ? sourceFunction.visibility : 'external';
+      const returnList = returns.length > 0 ? ` returns (${formatParameters(returns)})` : '';
+
+      return {
+        name: entry.name as string,
+        signature,
+        declaration: `function ${entry.name}(${formatParameters(parameters)}) ${visibility}${mutability}${returnList}`,
+        stateMutability: entry.stateMutability || 'nonpayable',
+        notice: user.notice || '',
+        details: dev.details || '',
+        parameters,
+        returns,
+        modifiers: sourceFunction ? sourceFunction.modifiers : [],
+        emits: sourceFunction ? sourceFunction.emits : [],
+      };
+    })
+    .sort(byName);
+
+  const events = abi
+    .filter(entry => entry.type === 'event')
+    .map(entry => {
+      const signature = canonicalSignature(entry);
+      return toEvent(entry, natSpec(userdoc.events, signature), natSpec(devdoc.events, signature), 'event');
+    })
+    .sort(byName);
+
+  const errors = abi
+    .filter(entry => entry.type === 'error')
+    .map(entry => {
+      const signature = canonicalSignature(entry);
+      const user = ((userdoc.errors || {})[signature] || [])[0] || {};
+      const dev = ((devdoc.errors || {})[signature] || [])[0] || {};
+      return toEvent(entry, user, dev, 'error');
+    })
+    .sort(byName);
+
+  return {
+    name: compiled.name,
+    title: devdoc.title || compiled.name,
+    notice: userdoc.notice || '',
+    details: devdoc.details || '',
+    functions,
+    events,
+    errors,
+  };
+}
+
+// ============== PAGE ==============
+
+function parameterTable(heading: string, parameters: ParameterReference[]): Block {
+  return {
+    type: 'table',
+    headers: [heading, 'Type', 'Description'],
+    rows: parameters.map((parameter, index) => [
+      parameter.name ? `\`${parameter.name}\`` : `_${index}`,
+      parameter.encrypted ? `\`${parameter.type}\` 🔐` : `\`${parameter.type}\``,
+      parameter.description.replace(/\s*\n\s*/g, ' ') || '-',
+    ]),
+  };
+}
+
+function describe(item: { notice: string; details: string }): Block[] {
+  return [item.notice, item.details].filter(Boolean).map(text => ({ type: 'paragraph', text }));
+}
+
+function declaration(code: string): Block {
+  return { type: 'code', language: 'solidity', code };
+}
+
+/**
+ * Describe the reference as a page in the shared document model. Encrypted
+ * handle arguments and return values are marked with 🔐.
+ */
+export function buildReferencePage(reference: ContractReference): DocPage {
+  const blocks: Block[] = [{ type: 'heading', level: 1, text: `${reference.name} API Reference` }];
+  if (reference.title !== reference.name) {
+    blocks.push({ type: 'paragraph', text: `**${reference.title}**` });
+  }
+  blocks.push(...describe(reference));
+
+  const usesHandles = reference.functions.some(fn => [...fn.parameters, ...fn.returns].some(p => p.encrypted));
+  if (usesHandles) {
+    blocks.push({
+      type: 'hint',
+      style: 'info',
+      blocks: [
+        {
+          type: 'paragraph',
+          text:
+            '🔐 marks encrypted handles. `externalE*` arguments are ciphertexts created off-chain and must be ' +
+            'passed with their input proof; `e*` values are handles that need ACL permission to decrypt.',
+        },
+      ],
+    });
+  }
+
+  if (reference.functions.length > 0) {
+    blocks.push({ type: 'heading', level: 2, text: 'Functions' });
+    reference.functions.forEach(fn => {
+      blocks.push({ type: 'heading', level: 3, text: fn.name }, declaration(fn.declaration), ...describe(fn));
+      if (fn.parameters.length > 0) {
+        blocks.push(parameterTable('Parameter', fn.parameters));
+      }
+      if (fn.returns.length > 0) {
+        blocks.push(parameterTable('Returns', fn.returns));
+      }
+      if (fn.modifiers.length > 0) {
+        blocks.push({ type: 'paragraph', text: `**Modifiers:** ${fn.modifiers.map(m => `\`${m}\``).join(', ')}` });
+      }
+      if (fn.emits.length > 0) {
+        const links = fn.emits.map(e => `[\`${e}\`](#${anchor(e)})`);
+        blocks.push({ type: 'paragraph', text: `**Emits:** ${links.join(', ')}` });
+      }
+    });
+  }
+
+  [
+    { heading: 'Events', items: reference.events },
+    { heading: 'Errors', items: reference.errors },
+  ].forEach(({ heading, items }) => {
+    if (items.length === 0) {
+      return;
+    }
+    blocks.push({ type: 'heading', level: 2, text: heading });
+    items.forEach(item => {
+      blocks.push({ type: 'heading', level: 3, text: item.name }, declaration(item.declaration), ...describe(item));
+      if (item.parameters.length > 0) {
+        blocks.push(parameterTable('Parameter', item.parameters));
+      }
+    });
+  });
+
+  return {
+    slug: `api/${reference.name}`,
+    title: `${reference.name} API Reference`,
+    description: reference.notice || reference.title,
+    blocks,
+  };
+}
+
+export function renderContractReference(reference: ContractReference, format: string = 'gitbook'): string {
+  return renderPage(buildReferencePage(reference), format);
+}
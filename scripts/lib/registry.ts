@@ -0,0 +1,255 @@
+/**
+ * registry - Single source of truth for the FHEVM examples shared by all scripts
+ *
+ * create-fhevm-example, create-fhevm-category and generate-docs all read their
+ * example and category definitions from here. Examples are discovered from the
+ * NatSpec front-matter of the contracts; categories are derived from their
+ * `@custom:category` tags and described in contracts/categories.json.
+ * The registry is validated when this module is loaded, so a missing contract
+ * or test file fails immediately instead of halfway through a generation run.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { DiscoveryResult, discoverExamples } from './discovery';
+
+// ============== INTERFACES ==============
+
+export type Difficulty = 'beginner' | 'intermediate' | 'advanced';
+
+export interface ExampleConfig {
+  name: string; // Machine-readable name (kebab-case)
+  title: string; // Display title
+  description: string; // What this example teaches
+  category: string; // Category name
+  contractFile: string; // Path to .sol file, relative to the repository root
+  testFile: string; // Path to .ts test file, relative to the repository root
+  difficulty: Difficulty;
+  concepts: string[]; // Key FHEVM concepts
+  tags: string[]; // Search tags
+  chapter?: string; // Documentation chapter
+  prerequisites?: string[]; // Names of examples to study first
+  learningObjectives?: string[];
+  fixture?: string; // Shared test fixture copied next to the test
+  additionalFiles?: string[]; // Extra test helpers copied next to the test
+  fixedBy?: string; // Anti-patterns: name of the example with the corrected code
+  expectedError?: string; // Anti-patterns: what goes wrong, when the test does not assert it
+  additionalDeps?: Record<string, string>; // Extra npm dependencies needed by the example
+  deployArgs?: Record<string, string>; // Constructor arguments by parameter name, as deploy script expressions
+}
+
+export interface Category {
+  name: string;
+  title: string;
+  description: string;
+  examples: string[]; // Example names in this category
+  difficulty: Difficulty;
+  additionalDeps?: Record<string, string>; // Extra npm dependencies needed by the category
+}
+
+// Thrown when the registry references files or names that do not exist
+export class RegistryError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid example registry:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+    this.name = 'RegistryError';
+  }
+}
+
+// Repository root; every path in the registry is relative to it
+export const ROOT_DIR = path.resolve(__dirname, '..', '..');
+
+// ============== EXAMPLES ==============
+
+// Examples are declared in the contracts themselves; see discovery.ts for the tags
+export const DISCOVERY: DiscoveryResult = discoverExamples(ROOT_DIR);
+
+export const EXAMPLES_MAP: Record<string, ExampleConfig> = DISCOVERY.examples;
+
+// ============== CATEGORIES ==============
+
+// Optional presentation of each category (title, description, difficulty, additionalDeps), keyed by name
+export const CATEGORIES_FILE = 'contracts/categories.json';
+
+export type CategoryDefinition = Partial<Omit<Category, 'name' | 'examples'>>;
+
+const DIFFICULTIES: Difficulty[] = ['beginner', 'intermediate', 'advanced'];
+
+// Read the category data file; a missing file simply means every category uses the defaults
+export function loadCategoryDefinitions(rootDir: string = ROOT_DIR): Record<string, CategoryDefinition> {
+  const file = path.join(rootDir, CATEGORIES_FILE);
+  if (!fs.existsSync(file)) {
+    return {};
+  }
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new RegistryError([`${CATEGORIES_FILE} is not valid JSON: ${(error as Error).message}`]);
+  }
+}
+
+function titleCase(name: string): string {
+  return name
+    .split('-')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Create one category per `@custom:category` tag found on the discovered
+ * examples, in discovery order. The data file only describes categories: one
+ * it does not mention is titled after its name and takes the difficulty of its
+ * hardest example, so adding a category never requires editing a script.
+ */
+export function buildCategories(
+  examples: Record<string, ExampleConfig>,
+  definitions: Record<string, CategoryDefinition> = {},
+): Record<string, Category> {
+  const categories: Record<string, Category> = {};
+  Object.values(examples).forEach(example => {
+    const key = example.category;
+    if (!categories[key]) {
+      categories[key] = {
+        name: key,
+        title: titleCase(key),
+        description: `FHEVM examples in the ${titleCase(key)} category`,
+        examples: [],
+        difficulty: 'beginner',
+        ...definitions[key],
+      };
+    }
+    categories[key].examples.push(example.name);
+    if (!definitions[key]?.difficulty) {
+      const hardest = Math.max(
+        DIFFICULTIES.indexOf(categories[key].difficulty),
+        DIFFICULTIES.indexOf(example.difficulty),
+      );
+      categories[key].difficulty = DIFFICULTIES[hardest];
+    }
+  });
+  return categories;
+}
+
+export const CATEGORY_DEFINITIONS: Record<string, CategoryDefinition> = loadCategoryDefinitions();
+
+export const CATEGORIES: Record<string, Category> = buildCategories(EXAMPLES_MAP, CATEGORY_DEFINITIONS);
+
+// ============== HELPERS ==============
+
+export function getExample(name: string): ExampleConfig | undefined {
+  return EXAMPLES_MAP[name];
+}
+
+export function getCategory(name: string): Category | undefined {
+  return CATEGORIES[name];
+}
+
+export function getExamplesByCategory(categoryName: string): ExampleConfig[] {
+  const category = CATEGORIES[categoryName];
+  if (!category) return [];
+  return category.examples.map(name => EXAMPLES_MAP[name]).filter(Boolean);
+}
+
+export function getExamplesByDifficulty(difficulty: Difficulty): ExampleConfig[] {
+  return Object.values(EXAMPLES_MAP).filter(ex => ex.difficulty === difficulty);
+}
+
+export function searchExamples(query: string): ExampleConfig[] {
+  const lowerQuery = query.toLowerCase();
+  return Object.values(EXAMPLES_MAP).filter(
+    ex =>
+      ex.title.toLowerCase().includes(lowerQuery) ||
+      ex.description.toLowerCase().includes(lowerQuery) ||
+      ex.concepts.some(c => c.toLowerCase().includes(lowerQuery)) ||
+      ex.tags.some(t => t.toLowerCase().includes(lowerQuery)),
+  );
+}
+
+// Resolve a registry path against the repository root
+export function resolveExamplePath(relativePath: string): string {
+  return path.join(ROOT_DIR, relativePath);
+}
+
+// ============== VALIDATION ==============
+
+/**
+ * Collect every inconsistency in the given registry: missing files, unknown
+ * categories, prerequisites or fixed counterparts, and category membership that disagrees with
+ * the examples' own `category` field.
+ */
+export function validateRegistry(
+  examples: Record<string, ExampleConfig> = EXAMPLES_MAP,
+  categories: Record<string, Category> = CATEGORIES,
+  rootDir: string = ROOT_DIR,
+): string[] {
+  const problems: string[] = [];
+
+  Object.entries(examples).forEach(([key, example]) => {
+    if (key !== example.name) {
+      problems.push(`Example "${key}" is registered under a different name ("${example.name}")`);
+    }
+
+    const files = [example.contractFile, example.testFile, example.fixture, ...(example.additionalFiles || [])];
+    files.forEach(file => {
+      if (file && !fs.existsSync(path.join(rootDir, file))) {
+        problems.push(`Example "${key}" references a missing file: ${file}`);
+      }
+    });
+
+    const category = categories[example.category];
+    if (!category) {
+      problems.push(`Example "${key}" belongs to unknown category "${example.category}"`);
+    } else if (!category.examples.includes(key)) {
+      problems.push(`Example "${key}" is not listed in category "${example.category}"`);
+    }
+
+    (example.prerequisites || []).forEach(prerequisite => {
+      if (!examples[prerequisite]) {
+        problems.push(`Example "${key}" has unknown prerequisite "${prerequisite}"`);
+      }
+    });
+
+    if (example.fixedBy && (!examples[example.fixedBy] || example.fixedBy === key)) {
+      problems.push(`Example "${key}" is fixed by unknown example "${example.fixedBy}"`);
+    }
+  });
+
+  Object.entries(categories).forEach(([key, category]) => {
+    if (key !== category.name) {
+      problems.push(`Category "${key}" is registered under a different name ("${category.name}")`);
+    }
+
+    category.examples.forEach(name => {
+      const example = examples[name];
+      if (!example) {
+        problems.push(`Category "${key}" lists unknown example "${name}"`);
+      } else if (example.category !== key) {
+        problems.push(`Category "${key}" lists "${name}", which belongs to "${example.category}"`);
+      }
+    });
+  });
+
+  return problems;
+}
+
+export function assertRegistryValid(
+  examples: Record<string, ExampleConfig> = EXAMPLES_MAP,
+  categories: Record<string, Category> = CATEGORIES,
+  rootDir: string = ROOT_DIR,
+): void {
+  const problems = validateRegistry(examples, categories, rootDir);
+  if (problems.length > 0) {
+    throw new RegistryError(problems);
+  }
+}
+
+// Fail loudly as soon as any script imports a broken registry
+if (DISCOVERY.errors.length > 0) {
+  throw new RegistryError(DISCOVERY.errors);
+}
+const undeclared = Object.keys(CATEGORY_DEFINITIONS).filter(key => !CATEGORIES[key]);
+if (undeclared.length > 0) {
+  throw new RegistryError(
+    undeclared.map(key => `${CATEGORIES_FILE} describes category "${key}", which no @custom:category tag declares`),
+  );
+}
+assertRegistryValid();
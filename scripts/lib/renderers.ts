@@ -0,0 +1,374 @@
+/**
+ * renderers - Turn a DocPage into GitBook, GitHub Markdown, Docusaurus MDX or HTML
+ *
+ * Each renderer owns its file extension and its default directory under the
+ * docs root. Other tooling can add a target with registerRenderer; the HTML
+ * target also writes an index.html with client-side search (assets/search.js),
+ * ranked like the CLI when given the catalog's search index. Pages with
+ * diagrams load Mermaid from a CDN; offline their diagrams stay readable as
+ * source.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { anchor, Block, DocPage, flattenBlocks, HintStyle } from './document';
+import { GeneratorError } from './errors';
+import { SearchIndex } from './search';
+
+// ============== TYPES ==============
+
+export type DocsFormat = 'gitbook' | 'gfm' | 'docusaurus' | 'html';
+
+export interface DocRenderer {
+  format: string;
+  extension: string; // Including the dot
+  outputDir: string; // Default directory for this target, relative to the root directory
+  render(page: DocPage): string;
+}
+
+// ============== MARKDOWN DIALECTS ==============
+
+interface MarkdownDialect {
+  text(text: string): string; // Escapes inline text outside code spans
+  hint(style: HintStyle, body: string): string;
+  tabs(tabs: { title: string; body: string }[]): string;
+  preamble(page: DocPage): string;
+}
+
+// Apply `transform` to the parts of `text` outside `code spans`
+function outsideCode(text: string, transform: (part: string) => string): string {
+  return text
+    .split(/(`[^`]*`)/)
+    .map(part => (part.startsWith('`') && part.endsWith('`') && part.length > 1 ? part : transform(part)))
+    .join('');
+}
+
+function renderMarkdownBlock(block: Block, dialect: MarkdownDialect): string {
+  switch (block.type) {
+    case 'heading':
+      return `${'#'.repeat(block.level)} ${dialect.text(block.text)}`;
+    case 'paragraph':
+      return dialect.text(block.text);
+    case 'list':
+      return block.items.map(item => `- ${dialect.text(item)}`).join('\n');
+    case 'table': {
+      const row = (cells: string[]) =>
+        `| ${cells.map(cell => dialect.text(cell.replace(/\|/g, '\\|'))).join(' | ')} |`;
+      return [row(block.headers), `|${block.headers.map(() => '---').join('|')}|`, ...block.rows.map(row)].join('\n');
+    }
+    case 'code':
+      return `\`\`\`${block.language}\n${block.code.replace(/\n$/, '')}\n\`\`\``;
+    case 'diagram':
+      return `\`\`\`mermaid\n${block.code.replace(/\n$/, '')}\n\`\`\``;
+    case 'hint':
+      return dialect.hint(block.style, renderMarkdownBlocks(block.blocks, dialect));
+    case 'tabs':
+      return dialect.tabs(
+        block.tabs.map(tab => ({ title: tab.title, body: renderMarkdownBlocks(tab.blocks, dialect) })),
+      );
+  }
+}
+
+function renderMarkdownBlocks(blocks: Block[], dialect: MarkdownDialect): string {
+  return blocks.map(block => renderMarkdownBlock(block, dialect)).join('\n\n');
+}
+
+function markdownRenderer(
+  format: string,
+  extension: string,
+  outputDir: string,
+  dialect: MarkdownDialect,
+): DocRenderer {
+  return {
+    format,
+    extension,
+    outputDir,
+    render: page => dialect.preamble(page) + renderMarkdownBlocks(page.blocks, dialect) + '\n',
+  };
+}
+
+// A quote or %} in a value would end the {% ... %} tag early
+function gitbookAttribute(value: string): string {
+  return value.replace(/"/g, '&quot;').replace(/%}/g, '%&#125;');
+}
+
+const gitbook = markdownRenderer('gitbook', '.md', 'docs', {
+  text: text => text,
+  hint: (style, body) => `{% hint style="${style}" %}\n${body}\n{% endhint %}`,
+  tabs: tabs =>
+    [
+      '{% tabs %}',
+      ...tabs.map(tab => `{% tab title="${gitbookAttribute(tab.title)}" %}\n\n${tab.body}\n\n{% endtab %}`),
+      '{% endtabs %}',
+    ].join('\n\n'),
+  preamble: () => '',
+});
+
+const GITHUB_ALERTS: Record<HintStyle, string> = {
+  info: 'NOTE',
+  success: 'TIP',
+  warning: 'WARNING',
+  danger: 'CAUTION',
+};
+
+const gfm = markdownRenderer('gfm', '.md', 'docs/github', {
+  text: text => text,
+  hint: (style, body) =>
+    [`[!${GITHUB_ALERTS[style]}]`, ...body.split('\n')].map(line => `> ${line}`.trimEnd()).join('\n'),
+  tabs: tabs =>
+    tabs
+      .map(
+        (tab, index) =>
+          `<details${index === 0 ? ' open' : ''}>\n<summary>${escapeHtml(tab.title)}</summary>\n\n` +
+          `${tab.body}\n\n</details>`,
+      )
+      .join('\n\n'),
+  preamble: () => '',
+});
+
+const DOCUSAURUS_ADMONITIONS: Record<HintStyle, string> = {
+  info: 'info',
+  success: 'tip',
+  warning: 'warning',
+  danger: 'danger',
+};
+
+const docusaurus = markdownRenderer('docusaurus', '.mdx', 'docs/docusaurus', {
+  // MDX treats { } and < as JSX outside code
+  text: text => outsideCode(text, part => part.replace(/([{}])/g, '\\$1').replace(/</g, '&lt;')),
+  hint: (style, body) => `:::${DOCUSAURUS_ADMONITIONS[style]}\n\n${body}\n\n:::`,
+  tabs: tabs =>
+    [
+      '<Tabs>',
+      ...tabs.map(tab => `<TabItem value="${anchor(tab.title)}" label="${tab.title}">\n\n${tab.body}\n\n</TabItem>`),
+      '</Tabs>',
+    ].join('\n'),
+  preamble: page => {
+    const frontMatter = [
+      '---',
+      `sidebar_label: ${JSON.stringify(page.title)}`,
+      `description: ${JSON.stringify(page.description)}`,
+      '---',
+    ];
+    // Tabs and TabItem are Docusaurus theme components, imported only when the page uses them
+    if (flattenBlocks(page.blocks).some(block => block.type === 'tabs')) {
+      frontMatter.push('', "import Tabs from '@theme/Tabs';", "import TabItem from '@theme/TabItem';");
+    }
+    return frontMatter.join('\n') + '\n\n';
+  },
+});
+
+// ============== HTML ==============
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// Markdown inline syntax to HTML; links to .md/.mdx pages point at the .html page instead
+function inlineHtml(text: string): string {
+  return text
+    .split(/(`[^`]*`)/)
+    .map(part => {
+      if (part.startsWith('`') && part.endsWith('`') && part.length > 1) {
+        return `<code>${escapeHtml(part.slice(1, -1))}</code>`;
+      }
+      return escapeHtml(part)
+        .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_, label: string, href: string) => {
+          const target = href.replace(/\.mdx?(#|$)/, '.html$1');
+          return `<a href="${target}">${label}</a>`;
+        })
+        .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+        .replace(/(^|\W)_([^_]+)_(?=\W|$)/g, '$1<em>$2</em>');
+    })
+    .join('');
+}
+
+function renderHtmlBlock(block: Block): string {
+  switch (block.type) {
+    case 'heading':
+      return `<h${block.level} id="${anchor(block.text)}">${inlineHtml(block.text)}</h${block.level}>`;
+    case 'paragraph':
+      return `<p>${inlineHtml(block.text)}</p>`;
+    case 'list':
+      return `<ul>\n${block.items.map(item => `<li>${inlineHtml(item)}</li>`).join('\n')}\n</ul>`;
+    case 'table': {
+      const head = block.headers.map(cell => `<th>${inlineHtml(cell)}</th>`).join('');
+      const rows = block.rows.map(row => `<tr>${row.map(cell => `<td>${inlineHtml(cell)}</td>`).join('')}</tr>`);
+      return `<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${rows.join('\n')}\n</tbody>\n</table>`;
+    }
+    case 'code':
+      return `<pre><code class="language-${block.language}">${escapeHtml(block.code.replace(/\n$/, ''))}</code></pre>`;
+    case 'diagram':
+      return `<pre class="mermaid">${escapeHtml(block.code.replace(/\n$/, ''))}</pre>`;
+    case 'hint':
+      return `<aside class="hint hint-${block.style}">\n${renderHtmlBlocks(block.blocks)}\n</aside>`;
+    case 'tabs':
+      return block.tabs
+        .map(
+          (tab, index) =>
+            `<details class="tab"${index === 0 ? ' open' : ''}>\n<summary>${escapeHtml(tab.title)}</summary>\n` +
+            `${renderHtmlBlocks(tab.blocks)}\n</details>`,
+        )
+        .join('\n');
+  }
+}
+
+function renderHtmlBlocks(blocks: Block[]): string {
+  return blocks.map(renderHtmlBlock).join('\n');
+}
+
+const STYLE = `body{font-family:system-ui,sans-serif;max-width:960px;margin:0 auto;padding:1rem 2rem;line-height:1.5;color:#1f2328}
+pre{background:#f6f8fa;padding:1rem;overflow:auto;border-radius:6px}code{font-family:ui-monospace,monospace;font-size:90%}
+table{border-collapse:collapse;margin:1rem 0}th,td{border:1px solid #d0d7de;padding:.3rem .6rem;text-align:left}
+.hint{border-left:4px solid #0969da;background:#ddf4ff;padding:.5rem 1rem;margin:1rem 0}
+.hint-warning{border-color:#9a6700;background:#fff8c5}.hint-danger{border-color:#cf222e;background:#ffebe9}
+.hint-success{border-color:#1a7f37;background:#dafbe1}
+details.tab{border:1px solid #d0d7de;border-radius:6px;margin:.5rem 0;padding:.5rem 1rem}summary{cursor:pointer;font-weight:600}
+nav{margin-bottom:1rem}#search{width:100%;padding:.5rem;font-size:1rem}#results li{margin:.5rem 0}`;
+
+// Diagrams render when the Mermaid module can be fetched from the CDN; offline they stay readable as source
+const MERMAID_SCRIPT =
+  `<script type="module">import mermaid from 'https://cdn.jsdelivr.net/npm/mermaid@10/dist/mermaid.esm.min.mjs';` +
+  `mermaid.initialize({ startOnLoad: true });</script>`;
+
+function htmlDocument(title: string, description: string, body: string, extraHead: string = ''): string {
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<meta name="description" content="${escapeHtml(description)}">`,
+    `<style>${STYLE}</style>`,
+    extraHead,
+    '</head>',
+    '<body>',
+    body,
+    '</body>',
+    '</html>',
+  ]
+    .filter(Boolean)
+    .join('\n')
+    .concat('\n');
+}
+
+const html: DocRenderer = {
+  format: 'html',
+  extension: '.html',
+  outputDir: 'docs/site',
+  render: page => {
+    const depth = page.slug.split('/').length - 1;
+    const nav = `<nav><a href="${'../'.repeat(depth)}index.html">← All pages</a></nav>`;
+    const usesDiagrams = flattenBlocks(page.blocks).some(block => block.type === 'diagram');
+    const body = `${nav}\n<main>\n${renderHtmlBlocks(page.blocks)}\n</main>`;
+    return htmlDocument(page.title, page.description, body, usesDiagrams ? MERMAID_SCRIPT : '');
+  },
+};
+
+// ============== REGISTRY ==============
+
+const RENDERERS: Record<string, DocRenderer> = { gitbook, gfm, docusaurus, html };
+
+export const DOCS_FORMATS: DocsFormat[] = ['gitbook', 'gfm', 'docusaurus', 'html'];
+
+/**
+ * Add or replace a renderer. Its format name becomes valid for generateDocs.
+ */
+export function registerRenderer(renderer: DocRenderer): void {
+  RENDERERS[renderer.format] = renderer;
+}
+
+/**
+ * Throws GeneratorError for formats no renderer is registered for.
+ */
+export function getRenderer(format: string): DocRenderer {
+  const renderer = RENDERERS[format];
+  if (!renderer) {
+    throw new GeneratorError(`Unknown docs format: ${format} (available: ${Object.keys(RENDERERS).join(', ')})`);
+  }
+  return renderer;
+}
+
+export function renderPage(page: DocPage, format: string = 'gitbook'): string {
+  return getRenderer(format).render(page);
+}
+
+// ============== STATIC SITE INDEX ==============
+
+// Client-side search, copied next to index.html
+const SEARCH_SCRIPT = path.join(__dirname, 'assets', 'search.js');
+
+interface SiteEntry {
+  href: string;
+  title: string;
+  description: string;
+  text: string;
+}
+
+function listHtmlFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return listHtmlFiles(fullPath);
+    }
+    return entry.name.endsWith('.html') ? [fullPath] : [];
+  });
+}
+
+function readSiteEntry(siteDir: string, file: string): SiteEntry {
+  const content = fs.readFileSync(file, 'utf-8');
+  const meta = (pattern: RegExp) => (content.match(pattern) || [])[1] || '';
+  const main = meta(/<main>([\s\S]*)<\/main>/);
+  return {
+    href: path.relative(siteDir, file).split(path.sep).join('/'),
+    title: meta(/<title>([^<]*)<\/title>/),
+    description: meta(/<meta name="description" content="([^"]*)">/),
+    text: main
+      .replace(/<[^>]+>/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim(),
+  };
+}
+
+/**
+ * Write `index.html` listing every page of the HTML site, and the search.js it
+ * loads. The page text is embedded so search works from the file system
+ * without a server. With `searchIndex`, example pages are ranked like
+ * searchIndex from search.ts ranks them and listed first; other pages match
+ * when they contain every word.
+ */
+export function writeSiteIndex(siteDir: string, searchIndex?: SearchIndex): string {
+  const entries = listHtmlFiles(siteDir)
+    .filter(file => path.basename(file) !== 'index.html')
+    .map(file => readSiteEntry(siteDir, file))
+    .sort((a, b) => a.href.localeCompare(b.href));
+
+  const list = entries
+    .map(entry => `<li><a href="${entry.href}">${entry.title}</a><br><small>${entry.description}</small></li>`)
+    .join('\n');
+  // Example pages are ranked through the index by their example name
+  const pages = entries.map(entry => {
+    const name = entry.href.replace(/\.html$/, '');
+    return { ...entry, example: searchIndex && searchIndex.ids.includes(name) ? name : null };
+  });
+  const json = (value: unknown) => JSON.stringify(value).replace(/</g, '\\u003c');
+  const script = [
+    `<script type="application/json" id="site-data">${json({ pages, index: searchIndex || null })}</script>`,
+    '<script src="search.js"></script>',
+  ].join('\n');
+
+  const body = [
+    '<main>',
+    '<h1>FHEVM Examples</h1>',
+    '<input id="search" type="search" placeholder="Search examples..." autofocus>',
+    `<ul id="results">\n${list}\n</ul>`,
+    '</main>',
+    script,
+  ].join('\n');
+
+  fs.copyFileSync(SEARCH_SCRIPT, path.join(siteDir, 'search.js'));
+  const indexPath = path.join(siteDir, 'index.html');
+  fs.writeFileSync(indexPath, htmlDocument('FHEVM Examples', 'Documentation of the FHEVM examples', body));
+  return indexPath;
+}
@@ -0,0 +1,170 @@
+/**
+ * search - Ranked fuzzy full-text search over a prebuilt index
+ *
+ * The index maps every term to the documents containing it, weighted by the
+ * field it appears in, so it can be built once by the docs build and shipped
+ * as JSON. A query term matches an indexed term exactly, as a prefix or
+ * within a small edit distance; a document must match every query term and
+ * is ranked by the summed weights. The static site ranks results with
+ * assets/search.js, which mirrors tokenize, editDistance and searchIndex.
+ */
+
+// ============== TYPES ==============
+
+export interface SearchDocument {
+  id: string;
+  fields: Record<string, string | string[]>;
+}
+
+export interface SearchIndex {
+  schemaVersion: number;
+  weights: Record<string, number>; // Field weights the index was built with
+  ids: string[]; // Document ids; postings refer to them by position
+  terms: Record<string, [number, number][]>; // Term → [document, weight] postings
+}
+
+export interface SearchHit {
+  id: string;
+  score: number;
+  terms: string[]; // Indexed terms that matched the query
+}
+
+// ============== CONSTANTS ==============
+
+export const SEARCH_INDEX_SCHEMA_VERSION = 1;
+
+// ============== TERMS ==============
+
+/**
+ * Lowercase words of `text`, without duplicates. camelCase words are kept
+ * whole and also split, so both `allowThis` and `this` find FHE.allowThis.
+ */
+export function tokenize(text: string): string[] {
+  const terms = new Set<string>();
+  text.split(/[^A-Za-z0-9]+/).forEach(word => {
+    const parts = word.split(/(?<=[a-z0-9])(?=[A-Z])/);
+    [word, ...(parts.length > 1 ? parts : [])].forEach(term => {
+      if (term.length > 1) {
+        terms.add(term.toLowerCase());
+      }
+    });
+  });
+  return [...terms];
+}
+
+// Levenshtein distance, giving up with max + 1 once it exceeds max
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    if (Math.min(...current) > max) {
+      return max + 1;
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// ============== INDEX ==============
+
+/**
+ * Index `documents`; a term found in several fields of a document adds up
+ * their weights. Fields without a weight are weighted 1.
+ */
+export function buildSearchIndex(documents: SearchDocument[], weights: Record<string, number> = {}): SearchIndex {
+  const terms: Record<string, [number, number][]> = {};
+  documents.forEach((document, position) => {
+    const scores = new Map<string, number>();
+    Object.entries(document.fields).forEach(([field, value]) => {
+      const text = Array.isArray(value) ? value.join(' ') : value;
+      tokenize(text).forEach(term => scores.set(term, (scores.get(term) || 0) + (weights[field] || 1)));
+    });
+    scores.forEach((score, term) => {
+      (terms[term] = terms[term] || []).push([position, score]);
+    });
+  });
+
+  // Sorted keys keep the serialized index stable
+  const sorted: Record<string, [number, number][]> = {};
+  Object.keys(terms)
+    .sort()
+    .forEach(term => {
+      sorted[term] = terms[term];
+    });
+  return {
+    schemaVersion: SEARCH_INDEX_SCHEMA_VERSION,
+    weights,
+    ids: documents.map(document => document.id),
+    terms: sorted,
+  };
+}
+
+// ============== QUERY ==============
+
+/**
+ * Documents matching every term of `query`, best first; ties are ordered by
+ * id. Exact matches count fully, prefixes 0.75 and typos (one edit from 4
+ * letters, two from 8) 0.5 or less.
+ */
+export function searchIndex(index: SearchIndex, query: string, limit: number = 0): SearchHit[] {
+  const queryTerms = tokenize(query);
+  if (queryTerms.length === 0) {
+    return [];
+  }
+
+  const indexed = Object.keys(index.terms);
+  const hits = new Map<number, { score: number; terms: Set<string>; matched: number }>();
+
+  queryTerms.forEach(queryTerm => {
+    const allowed = queryTerm.length >= 8 ? 2 : queryTerm.length >= 4 ? 1 : 0;
+    const best = new Map<number, { score: number; term: string }>();
+
+    indexed.forEach(term => {
+      let quality = 0;
+      if (term === queryTerm) {
+        quality = 1;
+      } else if (term.startsWith(queryTerm)) {
+        quality = 0.75;
+      } else if (allowed > 0) {
+        const distance = editDistance(queryTerm, term, allowed);
+        quality = distance <= allowed ? 0.5 / distance : 0;
+      }
+      if (quality === 0) {
+        return;
+      }
+      index.terms[term].forEach(([position, weight]) => {
+        const score = quality * weight;
+        const current = best.get(position);
+        if (!current || score > current.score) {
+          best.set(position, { score, term });
+        }
+      });
+    });
+
+    best.forEach(({ score, term }, position) => {
+      const hit = hits.get(position) || { score: 0, terms: new Set<string>(), matched: 0 };
+      hit.score += score;
+      hit.terms.add(term);
+      hit.matched += 1;
+      hits.set(position, hit);
+    });
+  });
+
+  const results = [...hits.entries()]
+    .filter(([, hit]) => hit.matched === queryTerms.length)
+    .map(([position, hit]) => ({
+      id: index.ids[position],
+      score: Math.round(hit.score * 100) / 100,
+      terms: [...hit.terms].sort(),
+    }))
+    .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+  return limit > 0 ? results.slice(0, limit) : results;
+}
+
@@ -0,0 +1,16 @@
+/**
+ * solc - Type declarations for the part of solc-js used by compiler.ts
+ *
+ * solc ships no type declarations of its own.
+ */
+
+declare module 'solc' {
+  type ImportResult = { contents: string } | { error: string };
+
+  interface Solc {
+    compile(input: string, callbacks?: { import: (importPath: string) => ImportResult }): string;
+  }
+
+  const solc: Solc;
+  export default solc;
+}
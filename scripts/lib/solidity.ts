@@ -0,0 +1,231 @@
+/**
+ * solidity - Structured model of Solidity source files built from the parser AST
+ *
+ * Replaces the `contract\s+(\w+)` regex the scripts used to share, which picked
+ * the wrong name whenever a file declared an interface, library or abstract
+ * contract first, or contained several contracts.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse, visit } from '@solidity-parser/parser';
+import type * as AST from '@solidity-parser/parser/dist/src/ast-types';
+
+// ============== TYPES ==============
+
+export type ContractKind = 'contract' | 'abstract' | 'interface' | 'library';
+
+export interface SolidityParameter {
+  name: string | null;
+  type: string;
+  storageLocation: string | null;
+  indexed: boolean; // Only meaningful for event parameters
+}
+
+export interface SolidityFunction {
+  name: string;
+  visibility: 'public' | 'external';
+  stateMutability: 'pure' | 'view' | 'payable' | 'nonpayable';
+  parameters: SolidityParameter[];
+  returns: SolidityParameter[];
+  modifiers: string[];
+  emits: string[]; // Events emitted directly in the body, in order of first appearance
+  signature: string; // e.g. add(externalEuint32,bytes)
+  range: [number, number];
+}
+
+export interface SolidityEvent {
+  name: string;
+  parameters: SolidityParameter[];
+}
+
+export interface SolidityContract {
+  name: string;
+  kind: ContractKind;
+  baseContracts: string[];
+  constructorParameters: SolidityParameter[]; // Empty without a constructor
+  functions: SolidityFunction[]; // Public and external functions only
+  events: SolidityEvent[];
+  range: [number, number];
+}
+
+export interface SolidityImport {
+  path: string;
+  symbols: string[]; // Imported names; empty for `import "x.sol";`
+  unitAlias: string | null;
+}
+
+export interface SolidityFile {
+  path: string | null;
+  pragma: string | null;
+  imports: SolidityImport[];
+  contracts: SolidityContract[];
+}
+
+// Thrown when a file cannot be parsed as Solidity
+export class SolidityParseError extends Error {
+  constructor(
+    public readonly filePath: string | null,
+    message: string,
+  ) {
+    super(`${filePath || '<source>'}: ${message}`);
+    this.name = 'SolidityParseError';
+  }
+}
+
+// ============== AST CONVERSION ==============
+
+function typeNameToString(typeName: AST.TypeName | null): string {
+  if (!typeName) {
+    return '';
+  }
+  switch (typeName.type) {
+    case 'ElementaryTypeName':
+      return typeName.name;
+    case 'UserDefinedTypeName':
+      return typeName.namePath;
+    case 'ArrayTypeName': {
+      const length = typeName.length && typeName.length.type === 'NumberLiteral' ? typeName.length.number : '';
+      return `${typeNameToString(typeName.baseTypeName)}[${length}]`;
+    }
+    case 'Mapping':
+      return `mapping(${typeNameToString(typeName.keyType)} => ${typeNameToString(typeName.valueType)})`;
+    default:
+      return 'function';
+  }
+}
+
+function toParameter(declaration: AST.VariableDeclaration): SolidityParameter {
+  return {
+    name: declaration.name,
+    type: typeNameToString(declaration.typeName),
+    storageLocation: declaration.storageLocation,
+    indexed: declaration.isIndexed,
+  };
+}
+
+function toRange(node: AST.BaseASTNode): [number, number] {
+  return node.range ? [node.range[0], node.range[1]] : [0, 0];
+}
+
+function emittedEvents(node: AST.FunctionDefinition): string[] {
+  const events: string[] = [];
+  if (node.body) {
+    visit(node.body, {
+      EmitStatement: statement => {
+        const call = statement.eventCall.expression;
+        const name = call.type === 'Identifier' ? call.name : call.type === 'MemberAccess' ? call.memberName : null;
+        if (name && !events.includes(name)) {
+          events.push(name);
+        }
+      },
+    });
+  }
+  return events;
+}
+
+function toFunction(node: AST.FunctionDefinition): SolidityFunction | null {
+  if (!node.name || node.isConstructor || (node.visibility !== 'public' && node.visibility !== 'external')) {
+    return null;
+  }
+
+  const parameters = node.parameters.map(toParameter);
+  const mutability = node.stateMutability === 'constant' ? 'view' : node.stateMutability;
+
+  return {
+    name: node.name,
+    visibility: node.visibility,
+    stateMutability: mutability || 'nonpayable',
+    parameters,
+    returns: (node.returnParameters || []).map(toParameter),
+    modifiers: node.modifiers.map(modifier => modifier.name),
+    emits: emittedEvents(node),
+    signature: `${node.name}(${parameters.map(p => p.type).join(',')})`,
+    range: toRange(node),
+  };
+}
+
+function toContract(node: AST.ContractDefinition): SolidityContract {
+  const functions: SolidityFunction[] = [];
+  const events: SolidityEvent[] = [];
+  let constructorParameters: SolidityParameter[] = [];
+
+  node.subNodes.forEach(subNode => {
+    if (subNode.type === 'FunctionDefinition' && (subNode as AST.FunctionDefinition).isConstructor) {
+      constructorParameters = (subNode as AST.FunctionDefinition).parameters.map(toParameter);
+    } else if (subNode.type === 'FunctionDefinition') {
+      const fn = toFunction(subNode as AST.FunctionDefinition);
+      if (fn) {
+        functions.push(fn);
+      }
+    } else if (subNode.type === 'EventDefinition') {
+      const event = subNode as AST.EventDefinition;
+      events.push({ name: event.name, parameters: event.parameters.map(toParameter) });
+    }
+  });
+
+  return {
+    name: node.name,
+    kind: node.kind as ContractKind,
+    baseContracts: node.baseContracts.map(base => base.baseName.namePath),
+    constructorParameters,
+    functions,
+    events,
+    range: toRange(node),
+  };
+}
+
+// ============== PUBLIC API ==============
+
+/**
+ * Parse Solidity source into contracts, imports and the version pragma.
+ */
+export function analyzeSolidity(source: string, filePath: string | null = null): SolidityFile {
+  let unit: AST.SourceUnit;
+  try {
+    unit = parse(source, { range: true }) as AST.SourceUnit;
+  } catch (err) {
+    throw new SolidityParseError(filePath, err instanceof Error ? err.message : String(err));
+  }
+
+  const file: SolidityFile = { path: filePath, pragma: null, imports: [], contracts: [] };
+
+  unit.children.forEach(node => {
+    if (node.type === 'PragmaDirective') {
+      const pragma = node as AST.PragmaDirective;
+      if (pragma.name === 'solidity') {
+        file.pragma = pragma.value;
+      }
+    } else if (node.type === 'ImportDirective') {
+      const directive = node as AST.ImportDirective;
+      file.imports.push({
+        path: directive.path,
+        symbols: (directive.symbolAliases || []).map(([symbol]) => symbol),
+        unitAlias: directive.unitAlias,
+      });
+    } else if (node.type === 'ContractDefinition') {
+      file.contracts.push(toContract(node as AST.ContractDefinition));
+    }
+  });
+
+  return file;
+}
+
+export function analyzeSolidityFile(filePath: string): SolidityFile {
+  return analyzeSolidity(fs.readFileSync(filePath, 'utf-8'), filePath);
+}
+
+/**
+ * Pick the contract a file exists for: the deployable contract named after the
+ * file, otherwise the last deployable contract declared (helpers usually come first).
+ */
+export function findMainContract(file: SolidityFile): SolidityContract | undefined {
+  const deployable = file.contracts.filter(contract => contract.kind === 'contract');
+  const stem = file.path ? path.basename(file.path, '.sol') : null;
+  return deployable.find(contract => contract.name === stem) || deployable[deployable.length - 1];
+}
+
+export function getContractName(contractPath: string): string | null {
+  const main = findMainContract(analyzeSolidityFile(contractPath));
+  return main ? main.name : null;
+}
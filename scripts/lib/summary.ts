@@ -0,0 +1,166 @@
+/**
+ * summary - Rebuilds docs/SUMMARY.md from the registry
+ *
+ * The generated part lists every example that has a GitBook page, grouped by
+ * category in registry order and sorted by difficulty, then title, so the file
+ * only changes when the set of pages does. Examples without a page are left
+ * out until `generate-docs` writes one, so a fresh checkout lists none.
+ * The file's `# ` title and hand-written sections wrapped in manual guard
+ * comments survive a rebuild; everything else is regenerated.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { SummaryFormatError } from './errors';
+import { Logger, silentLogger } from './logger';
+import { CATEGORIES, Difficulty, EXAMPLES_MAP, ExampleConfig } from './registry';
+
+// ============== TYPES ==============
+
+export interface SummaryCheck {
+  summaryPath: string; // Relative to rootDir
+  upToDate: boolean;
+  expected: string;
+  actual: string | null; // null when the file does not exist
+}
+
+// ============== CONSTANTS ==============
+
+export const SUMMARY_PATH = 'docs/SUMMARY.md';
+
+// Hand-written sections are kept verbatim between these lines
+export const MANUAL_START = '<!-- summary:manual:start -->';
+export const MANUAL_END = '<!-- summary:manual:end -->';
+
+// Bracket the generated list so manual sections can sit before or after it
+export const GENERATED_START = '<!-- summary:generated:start -->';
+export const GENERATED_END = '<!-- summary:generated:end -->';
+
+const DEFAULT_TITLE = '# Summary';
+
+const DIFFICULTY_ORDER: Difficulty[] = ['beginner', 'intermediate', 'advanced'];
+
+// ============== MANUAL SECTIONS ==============
+
+interface ManualSections {
+  title: string | null; // First top-level heading outside the guards
+  before: string[]; // Sections above the generated list
+  after: string[]; // Sections below it
+}
+
+function readManualSections(existing: string): ManualSections {
+  const sections: ManualSections = { title: null, before: [], after: [] };
+  let current: string[] | null = null;
+  let pastGenerated = false;
+
+  existing.split(/\r?\n/).forEach((line, index) => {
+    const marker = line.trim();
+    if (current) {
+      current.push(line);
+      if (marker === MANUAL_START) {
+        throw new SummaryFormatError(SUMMARY_PATH, `nested ${MANUAL_START} on line ${index + 1}`);
+      }
+      if (marker === MANUAL_END) {
+        (pastGenerated ? sections.after : sections.before).push(current.join('\n'));
+        current = null;
+      }
+    } else if (marker === MANUAL_START) {
+      current = [line];
+    } else if (marker === MANUAL_END) {
+      throw new SummaryFormatError(SUMMARY_PATH, `${MANUAL_END} without a start on line ${index + 1}`);
+    } else if (marker === GENERATED_END) {
+      pastGenerated = true;
+    } else if (sections.title === null && /^# \S/.test(marker)) {
+      sections.title = marker;
+    }
+  });
+
+  if (current) {
+    throw new SummaryFormatError(SUMMARY_PATH, `${MANUAL_START} is never closed`);
+  }
+  return sections;
+}
+
+// ============== RENDERING ==============
+
+function compareExamples(a: ExampleConfig, b: ExampleConfig): number {
+  const difficulty = DIFFICULTY_ORDER.indexOf(a.difficulty) - DIFFICULTY_ORDER.indexOf(b.difficulty);
+  return difficulty || a.title.localeCompare(b.title) || a.name.localeCompare(b.name);
+}
+
+// Registered categories first, in registry order; unknown ones after, by name
+function orderCategories(examples: ExampleConfig[]): string[] {
+  const known = Object.keys(CATEGORIES);
+  const unknown = [...new Set(examples.map(example => example.category))].filter(name => !known.includes(name));
+  return [...known, ...unknown.sort()];
+}
+
+function renderGeneratedList(examples: ExampleConfig[]): string {
+  const sections = orderCategories(examples)
+    .map(categoryName => {
+      const entries = examples.filter(example => example.category === categoryName).sort(compareExamples);
+      if (entries.length === 0) {
+        return '';
+      }
+      const title = CATEGORIES[categoryName] ? CATEGORIES[categoryName].title : categoryName;
+      return [`## ${title}`, '', ...entries.map(example => `- [${example.title}](${example.name}.md)`)].join('\n');
+    })
+    .filter(Boolean);
+  const list = sections.length > 0 ? [sections.join('\n\n')] : [];
+  return [GENERATED_START, ...list, GENERATED_END].join('\n');
+}
+
+/**
+ * Build SUMMARY.md listing `examples`, keeping the title and manual sections
+ * of `existing`. Throws SummaryFormatError for unbalanced guard comments.
+ */
+export function renderSummary(examples: ExampleConfig[], existing: string = ''): string {
+  const manual = readManualSections(existing);
+  const parts = [manual.title || DEFAULT_TITLE, ...manual.before, renderGeneratedList(examples), ...manual.after];
+  return parts.join('\n\n') + '\n';
+}
+
+// ============== FILE ==============
+
+// Examples whose GitBook page exists, so the summary never links to a missing page
+export function summaryExamples(rootDir: string): ExampleConfig[] {
+  return Object.values(EXAMPLES_MAP).filter(example => fs.existsSync(path.join(rootDir, 'docs', `${example.name}.md`)));
+}
+
+function readSummary(rootDir: string): string | null {
+  const summaryPath = path.join(rootDir, SUMMARY_PATH);
+  return fs.existsSync(summaryPath) ? fs.readFileSync(summaryPath, 'utf-8') : null;
+}
+
+/**
+ * Compare docs/SUMMARY.md with what a rebuild would write. Line endings are
+ * ignored, so a CRLF checkout is not reported as stale.
+ */
+export function checkSummary(rootDir: string = process.cwd()): SummaryCheck {
+  const actual = readSummary(rootDir);
+  const expected = renderSummary(summaryExamples(rootDir), actual || '');
+  return {
+    summaryPath: SUMMARY_PATH,
+    upToDate: actual !== null && actual.replace(/\r\n/g, '\n') === expected,
+    expected,
+    actual,
+  };
+}
+
+/**
+ * Rebuild docs/SUMMARY.md, keeping the file's line endings. Returns false
+ * when it was already up to date.
+ */
+export function updateSummary(rootDir: string = process.cwd(), logger: Logger = silentLogger): boolean {
+  const check = checkSummary(rootDir);
+  if (check.upToDate) {
+    logger.info('SUMMARY.md is up to date');
+    return false;
+  }
+
+  const crlf = check.actual !== null && check.actual.includes('\r\n');
+  fs.mkdirSync(path.join(rootDir, 'docs'), { recursive: true });
+  fs.writeFileSync(path.join(rootDir, SUMMARY_PATH), crlf ? check.expected.replace(/\n/g, '\r\n') : check.expected);
+  logger.success(check.actual === null ? 'Created SUMMARY.md' : 'Rebuilt SUMMARY.md');
+  return true;
+}
@@ -0,0 +1,169 @@
+/**
+ * update - Refreshes a previously generated repository in place
+ *
+ * Every generation writes a manifest holding the files exactly as they were
+ * generated. On update, that snapshot is the common base of a three-way merge
+ * between the user's files on disk and the freshly generated ones, so upstream
+ * contract or test changes land without wiping local edits. Files an update
+ * leaves with conflict markers are recorded in the manifest, and the next
+ * update is refused until the markers are gone.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { UpdateError } from './errors';
+import { CONFLICT_MARKERS, mergeThreeWay } from './merge';
+
+// ============== TYPES ==============
+
+export interface GenerationManifest {
+  version: number;
+  example: string;
+  generatedAt: string; // ISO timestamp
+  files: Record<string, string>; // Relative posix path → content as generated
+  conflicts?: string[]; // Files the last update left in conflict
+}
+
+export interface UpdateReport {
+  added: string[]; // New generated files written to disk
+  updated: string[]; // Untouched locally, replaced by the new version
+  merged: string[]; // Changed on both sides, merged cleanly
+  removed: string[]; // No longer generated and untouched locally
+  kept: string[]; // Changed locally only, left as is
+  conflicts: string[]; // Changed on both sides in overlapping places, or edited/deleted on one side
+}
+
+// ============== CONSTANTS ==============
+
+export const MANIFEST_FILE = '.fhevm-example.json';
+const MANIFEST_VERSION = 1;
+
+// Never part of a generation, so never snapshotted or merged
+const IGNORED_DIRECTORIES = ['node_modules', 'artifacts', 'cache', 'coverage', 'types', 'dist', '.git'];
+
+// ============== MANIFEST ==============
+
+/**
+ * Read every generated file under `dir` into a path → content map.
+ */
+export function snapshotFiles(dir: string, relativeDir = ''): Record<string, string> {
+  const files: Record<string, string> = {};
+
+  fs.readdirSync(path.join(dir, relativeDir), { withFileTypes: true }).forEach(entry => {
+    const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      if (!IGNORED_DIRECTORIES.includes(entry.name)) {
+        Object.assign(files, snapshotFiles(dir, relativePath));
+      }
+    } else if (relativePath !== MANIFEST_FILE) {
+      files[relativePath] = fs.readFileSync(path.join(dir, relativePath), 'utf-8');
+    }
+  });
+
+  return files;
+}
+
+export function writeManifest(
+  outputDir: string,
+  example: string,
+  files: Record<string, string>,
+  conflicts: string[] = [],
+): void {
+  const manifest: GenerationManifest = {
+    version: MANIFEST_VERSION,
+    example,
+    generatedAt: new Date().toISOString(),
+    files,
+    ...(conflicts.length > 0 ? { conflicts } : {}),
+  };
+  fs.writeFileSync(path.join(outputDir, MANIFEST_FILE), JSON.stringify(manifest, null, 2) + '\n');
+}
+
+/**
+ * The manifest of a generated repository, or null when there is none. Throws
+ * UpdateError when it is corrupt or written by an unsupported version.
+ */
+export function readManifest(outputDir: string): GenerationManifest | null {
+  const manifestPath = path.join(outputDir, MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath)) {
+    return null;
+  }
+  let manifest: GenerationManifest;
+  try {
+    manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+  } catch (err) {
+    throw new UpdateError(outputDir, `${manifestPath} is not valid JSON (${err instanceof Error ? err.message : err})`);
+  }
+  if (manifest.version !== MANIFEST_VERSION) {
+    throw new UpdateError(outputDir, `unsupported manifest version ${manifest.version} in ${manifestPath}`);
+  }
+  return manifest;
+}
+
+/**
+ * The files the last update left in conflict that still hold conflict
+ * markers. Updating again before they are resolved would merge the markers
+ * themselves into the files.
+ */
+export function unresolvedConflicts(outputDir: string, manifest: GenerationManifest): string[] {
+  return (manifest.conflicts || []).filter(relativePath => {
+    const filePath = path.join(outputDir, relativePath);
+    return fs.existsSync(filePath) && fs.readFileSync(filePath, 'utf-8').includes(CONFLICT_MARKERS.local);
+  });
+}
+
+// ============== UPDATE ==============
+
+/**
+ * Bring `outputDir` up to date with the files of a fresh generation. Files
+ * the user added that were never generated are left alone. Conflicting
+ * content is written with conflict markers; a file deleted on one side and
+ * changed on the other is left as it is on disk.
+ */
+export function applyUpdate(
+  outputDir: string,
+  base: Record<string, string>,
+  generated: Record<string, string>,
+): UpdateReport {
+  const report: UpdateReport = { added: [], updated: [], merged: [], removed: [], kept: [], conflicts: [] };
+  const paths = Array.from(new Set([...Object.keys(base), ...Object.keys(generated)])).sort();
+
+  paths.forEach(relativePath => {
+    const filePath = path.join(outputDir, relativePath);
+    const baseContent = relativePath in base ? base[relativePath] : null;
+    const newContent = relativePath in generated ? generated[relativePath] : null;
+    const localContent = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : null;
+
+    if (localContent === newContent || baseContent === newContent) {
+      // Nothing new upstream, or the user already has it
+      if (localContent !== baseContent && localContent !== newContent) {
+        report.kept.push(relativePath);
+      }
+      return;
+    }
+
+    if (localContent === baseContent) {
+      if (newContent === null) {
+        fs.rmSync(filePath, { force: true });
+        report.removed.push(relativePath);
+      } else {
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, newContent);
+        (baseContent === null ? report.added : report.updated).push(relativePath);
+      }
+      return;
+    }
+
+    // Both sides changed. Deletions and files created independently on both sides cannot be merged by line
+    if (localContent === null || newContent === null || baseContent === null) {
+      report.conflicts.push(relativePath);
+      return;
+    }
+
+    const merge = mergeThreeWay(baseContent, localContent, newContent);
+    fs.writeFileSync(filePath, merge.content);
+    (merge.conflicts > 0 ? report.conflicts : report.merged).push(relativePath);
+  });
+
+  return report;
+}
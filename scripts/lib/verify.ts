@@ -0,0 +1,319 @@
+/**
+ * verify - Installs, compiles and tests a generated example repository
+ *
+ * Used by the scaffolder's --verify mode so reviewers know a generated repo
+ * actually works before it is published. Installs resolve from the local npm
+ * cache (or an offline mirror configured as that cache), and tests run on the
+ * in-process Hardhat network. With gasReport, hardhat-gas-reporter measures
+ * the gas of every call the tests make.
+ */
+
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// ============== TYPES ==============
+
+export interface CompileError {
+  file: string | null; // Source path relative to the generated repo, when solc reports one
+  line: number | null;
+  column: number | null;
+  type: string; // e.g. TypeError, DeclarationError, ParserError
+  message: string;
+}
+
+export interface TestFailure {
+  title: string; // Full title: describe blocks and test name
+  file: string | null;
+  message: string;
+}
+
+export interface GasStats {
+  min: number;
+  max: number;
+  avg: number; // Rounded mean
+  calls: number;
+}
+
+export interface MethodGas extends GasStats {
+  contract: string;
+  method: string; // Function name
+  signature: string; // e.g. add(bytes32,bytes)
+}
+
+export interface DeploymentGas extends GasStats {
+  contract: string;
+}
+
+export interface GasUsage {
+  methods: MethodGas[]; // Only methods the tests called, sorted by contract and signature
+  deployments: DeploymentGas[];
+}
+
+export interface VerificationResult {
+  installed: boolean;
+  compiled: boolean;
+  compileErrors: CompileError[];
+  tests: { passed: number; failed: number; pending: number };
+  testFailures: TestFailure[];
+  errors: string[]; // Step failures that produced no structured output (e.g. npm install errors)
+  gas?: GasUsage; // Only set with gasReport, once the reporter wrote its output
+}
+
+export interface VerifyOptions {
+  offline?: boolean; // Never reach the registry; fail if the cache misses
+  npmCache?: string; // Cache directory or offline mirror to install from
+  timeoutMs?: number; // Per step
+  gasReport?: boolean; // Measure gas with hardhat-gas-reporter during the tests
+}
+
+// Subset of a failure entry in mocha's JSON report
+interface MochaFailure {
+  fullTitle: string;
+  file?: string;
+  err?: { message?: string };
+}
+
+// Subset of a method or deployment entry in hardhat-gas-reporter's JSON output
+interface GasReporterEntry {
+  contract?: string;
+  name?: string; // Deployments
+  method?: string;
+  fnSig?: string;
+  gasData?: number[];
+}
+
+interface CommandOutput {
+  status: number | null;
+  output: string;
+}
+
+// ============== CONSTANTS ==============
+
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Written next to hardhat.config.ts for the test run only
+const VERIFY_CONFIG_FILE = 'hardhat.verify.config.ts';
+const TEST_REPORT_FILE = path.join('cache', 'verify-test-report.json');
+const GAS_REPORT_FILE = path.join('cache', 'verify-gas-report.json');
+
+// Lines kept from a failing step when nothing more structured could be parsed
+const OUTPUT_TAIL_LINES = 20;
+
+// ============== HELPERS ==============
+
+function npmCommand(): string {
+  return process.platform === 'win32' ? 'npm.cmd' : 'npm';
+}
+
+function npxCommand(): string {
+  return process.platform === 'win32' ? 'npx.cmd' : 'npx';
+}
+
+// Asynchronous so batch runs can verify several repos at once
+function run(command: string, args: string[], cwd: string, timeoutMs: number): Promise<CommandOutput> {
+  return new Promise(resolve => {
+    const child = spawn(command, args, {
+      cwd,
+      timeout: timeoutMs,
+      env: { ...process.env, FORCE_COLOR: '0', NO_COLOR: '1' },
+    });
+    let output = '';
+
+    child.stdout.on('data', chunk => (output += chunk));
+    child.stderr.on('data', chunk => (output += chunk));
+    child.on('error', err => resolve({ status: null, output: err.message }));
+    child.on('close', status => resolve({ status, output }));
+  });
+}
+
+function outputTail(output: string): string {
+  return output.trim().split('\n').slice(-OUTPUT_TAIL_LINES).join('\n');
+}
+
+// Prices are never fetched, so gas reporting works offline
+function verifyConfigSource(reportPath: string, gasReportPath?: string): string {
+  const gasReporter = gasReportPath
+    ? `
+  gasReporter: {
+    ...config.gasReporter,
+    enabled: true,
+    offline: true,
+    outputJSON: true,
+    outputJSONFile: ${JSON.stringify(gasReportPath)},
+  },`
+    : '';
+  return `import config from "./hardhat.config";
+
+export default {
+  ...config,
+  mocha: {
+    ...config.mocha,
+    reporter: "json",
+    reporterOption: { output: ${JSON.stringify(reportPath)} },
+  },${gasReporter}
+};
+`;
+}
+
+function gasStats(gasData: number[]): GasStats {
+  return {
+    min: Math.min(...gasData),
+    max: Math.max(...gasData),
+    avg: Math.round(gasData.reduce((sum, gas) => sum + gas, 0) / gasData.length),
+    calls: gasData.length,
+  };
+}
+
+// ============== OUTPUT PARSING ==============
+
+/**
+ * Extract solc errors from `hardhat compile` output, e.g.
+ *
+ *   DeclarationError: Undeclared identifier.
+ *     --> contracts/Counter.sol:12:5:
+ */
+export function parseCompileErrors(output: string): CompileError[] {
+  const errors: CompileError[] = [];
+  const pattern = /^(\w*Error): (.+)\r?\n\s*--> ([^\r\n]+?):(\d+):(\d+):/gm;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(output)) !== null) {
+    errors.push({
+      file: match[3],
+      line: Number(match[4]),
+      column: Number(match[5]),
+      type: match[1],
+      message: match[2].trim(),
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Read a mocha JSON report into pass/fail counts and failures.
+ */
+export function parseTestReport(report: string): Pick<VerificationResult, 'tests' | 'testFailures'> {
+  const json = JSON.parse(report);
+  const stats = json.stats || {};
+
+  return {
+    tests: { passed: stats.passes || 0, failed: stats.failures || 0, pending: stats.pending || 0 },
+    testFailures: (json.failures || []).map((failure: MochaFailure) => ({
+      title: failure.fullTitle,
+      file: failure.file || null,
+      message: (failure.err && failure.err.message) || 'Unknown failure',
+    })),
+  };
+}
+
+/**
+ * Read hardhat-gas-reporter's JSON output into gas figures per called method
+ * and deployed contract, computed from the measured gas of every call.
+ */
+export function parseGasReport(report: string): GasUsage {
+  const data = JSON.parse(report).data || {};
+  const measured = (entry: GasReporterEntry) => Array.isArray(entry.gasData) && entry.gasData.length > 0;
+
+  const methods = (Object.values(data.methods || {}) as GasReporterEntry[]).filter(measured).map(entry => ({
+    contract: entry.contract || '',
+    method: entry.method || '',
+    signature: entry.fnSig || entry.method || '',
+    ...gasStats(entry.gasData as number[]),
+  }));
+  methods.sort((a, b) => a.contract.localeCompare(b.contract) || a.signature.localeCompare(b.signature));
+
+  const deployments = ((data.deployments || []) as GasReporterEntry[]).filter(measured).map(entry => ({
+    contract: entry.name || entry.contract || '',
+    ...gasStats(entry.gasData as number[]),
+  }));
+
+  return { methods, deployments };
+}
+
+// ============== PUBLIC API ==============
+
+/**
+ * Install dependencies, compile and run the tests of the repository at
+ * `repoDir`. Each step only runs when the previous one succeeded.
+ */
+export async function verifyGeneratedRepo(repoDir: string, options: VerifyOptions = {}): Promise<VerificationResult> {
+  const timeoutMs = options.timeoutMs || DEFAULT_TIMEOUT_MS;
+  const result: VerificationResult = {
+    installed: false,
+    compiled: false,
+    compileErrors: [],
+    tests: { passed: 0, failed: 0, pending: 0 },
+    testFailures: [],
+    errors: [],
+  };
+
+  // Step 1: Install from the cache
+  const installArgs = ['install', '--no-audit', '--no-fund', options.offline ? '--offline' : '--prefer-offline'];
+  if (options.npmCache) {
+    installArgs.push('--cache', path.resolve(options.npmCache));
+  }
+  const install = await run(npmCommand(), installArgs, repoDir, timeoutMs);
+  if (install.status !== 0) {
+    result.errors.push(`npm install failed:\n${outputTail(install.output)}`);
+    return result;
+  }
+  result.installed = true;
+
+  // Step 2: Compile
+  const compile = await run(npxCommand(), ['hardhat', 'compile'], repoDir, timeoutMs);
+  if (compile.status !== 0) {
+    result.compileErrors = parseCompileErrors(compile.output);
+    if (result.compileErrors.length === 0) {
+      result.errors.push(`hardhat compile failed:\n${outputTail(compile.output)}`);
+    }
+    return result;
+  }
+  result.compiled = true;
+
+  // Step 3: Test on the in-process network, reporting through mocha's JSON reporter
+  const configPath = path.join(repoDir, VERIFY_CONFIG_FILE);
+  const reportPath = path.join(repoDir, TEST_REPORT_FILE);
+  const gasReportPath = options.gasReport ? path.join(repoDir, GAS_REPORT_FILE) : undefined;
+  fs.writeFileSync(configPath, verifyConfigSource(reportPath, gasReportPath));
+  try {
+    [reportPath, gasReportPath].forEach(file => file && fs.rmSync(file, { force: true }));
+    const test = await run(
+      npxCommand(),
+      ['hardhat', 'test', '--config', VERIFY_CONFIG_FILE, '--network', 'hardhat', '--no-compile'],
+      repoDir,
+      timeoutMs,
+    );
+
+    if (fs.existsSync(reportPath)) {
+      Object.assign(result, parseTestReport(fs.readFileSync(reportPath, 'utf-8')));
+    } else if (test.status !== 0) {
+      // Failed before mocha ran (config or TypeScript errors)
+      result.errors.push(`hardhat test failed:\n${outputTail(test.output)}`);
+    }
+
+    if (gasReportPath && fs.existsSync(gasReportPath)) {
+      result.gas = parseGasReport(fs.readFileSync(gasReportPath, 'utf-8'));
+    }
+  } finally {
+    [configPath, reportPath, gasReportPath].forEach(file => file && fs.rmSync(file, { force: true }));
+  }
+
+  return result;
+}
+
+export function formatCompileError(compileError: CompileError): string {
+  const location = compileError.file ? `${compileError.file}:${compileError.line}:${compileError.column}: ` : '';
+  return `${location}${compileError.type}: ${compileError.message}`;
+}
+
+export function isVerified(result: VerificationResult): boolean {
+  return (
+    result.installed &&
+    result.compiled &&
+    result.errors.length === 0 &&
+    result.tests.failed === 0 &&
+    result.tests.passed > 0
+  );
+}
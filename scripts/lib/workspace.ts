@@ -0,0 +1,212 @@
+/**
+ * workspace - Exports a category as an npm-workspaces monorepo
+ *
+ * Every example becomes its own package under packages/, generated by
+ * createExample exactly like a standalone repository, so examples never share
+ * contracts, tests or deployments. Dev dependencies that every package
+ * declares in the same version are hoisted into the private root package,
+ * whose scripts compile and test all packages after a single install.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { resolveCategory } from './category';
+import { GeneratorError, OutputExistsError } from './errors';
+import { createExample } from './example';
+import { Logger, silentLogger } from './logger';
+import { Category, ExampleConfig } from './registry';
+
+// ============== TYPES ==============
+
+export interface CreateWorkspaceOptions {
+  logger?: Logger;
+}
+
+// One example of the workspace; directory is relative to the workspace root
+export interface WorkspacePackage {
+  example: ExampleConfig;
+  name: string; // npm package name, e.g. fhevm-example-fhe-counter
+  directory: string; // e.g. packages/fhe-counter
+}
+
+export interface CreateWorkspaceResult {
+  outputPath: string;
+  packages: WorkspacePackage[]; // In example order
+  sharedDevDependencies: string[]; // Hoisted into the root package.json
+}
+
+interface PackageJson {
+  name: string;
+  license?: string;
+  engines?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  [field: string]: unknown;
+}
+
+// ============== CONSTANTS ==============
+
+export const WORKSPACE_PACKAGES_DIR = 'packages';
+
+// Run in every package, in workspace order; --if-present skips packages without the script
+const ROOT_SCRIPTS: Record<string, string> = {
+  compile: 'npm run compile --workspaces',
+  test: 'npm run test --workspaces',
+  lint: 'npm run lint --workspaces --if-present',
+  clean: 'npm run clean --workspaces --if-present',
+};
+
+// ============== MANIFESTS ==============
+
+function readPackageJson(packageDir: string): PackageJson {
+  return JSON.parse(fs.readFileSync(path.join(packageDir, 'package.json'), 'utf-8'));
+}
+
+function writePackageJson(packageDir: string, packageJson: object): void {
+  fs.writeFileSync(path.join(packageDir, 'package.json'), JSON.stringify(packageJson, null, 2) + '\n');
+}
+
+// Dev dependencies every package declares with the same range, in the first package's order
+function sharedDevDependencies(manifests: PackageJson[]): Record<string, string> {
+  const [first, ...rest] = manifests;
+  const shared: Record<string, string> = {};
+  Object.entries((first && first.devDependencies) || {}).forEach(([name, range]) => {
+    if (rest.every(manifest => (manifest.devDependencies || {})[name] === range)) {
+      shared[name] = range;
+    }
+  });
+  return shared;
+}
+
+/**
+ * The private root package: workspaces in example order, scripts running in
+ * every package and the hoisted dev dependencies.
+ */
+export function generateWorkspacePackageJson(
+  category: Category,
+  packages: WorkspacePackage[],
+  devDependencies: Record<string, string>,
+  template: Pick<PackageJson, 'license' | 'engines'> = {},
+): object {
+  return {
+    name: `fhevm-workspace-${category.name}`,
+    description: category.description,
+    version: '1.0.0',
+    private: true,
+    ...(template.license ? { license: template.license } : {}),
+    ...(template.engines ? { engines: template.engines } : {}),
+    workspaces: packages.map(pkg => pkg.directory),
+    scripts: ROOT_SCRIPTS,
+    devDependencies,
+  };
+}
+
+export function generateWorkspaceReadme(category: Category, packages: WorkspacePackage[]): string {
+  const rows = packages.map(pkg => {
+    const link = `[${pkg.directory}](${pkg.directory})`;
+    const columns = [pkg.example.title, `\`${pkg.name}\``, link, pkg.example.difficulty];
+    return `| ${columns.join(' | ')} |`;
+  });
+  const first = packages.length > 0 ? packages[0].name : 'fhevm-example-<name>';
+
+  return `# ${category.title}
+
+${category.description}
+
+An npm workspace with one package per example. Every package is a complete Hardhat project with its own contracts,
+tests and deploy scripts; the dev dependencies they share are installed once at the root.
+
+## Packages
+
+| Example | Package | Directory | Difficulty |
+|---|---|---|---|
+${rows.join('\n')}
+
+## Quick Start
+
+### Prerequisites
+
+- **Node.js**: Version 20 or higher
+- **npm**: Version 7 or higher (workspaces)
+
+### Install, compile and test everything
+
+\`\`\`bash
+npm install
+npm run compile
+npm run test
+\`\`\`
+
+### Work on a single package
+
+\`\`\`bash
+npm run test -w ${first}
+npm run deploy:localhost -w ${first}
+\`\`\`
+
+Each package's README describes its example, and \`npm run lint\` and \`npm run clean\` run in every package that
+defines them.
+
+---
+
+**Built with FHEVM by Zama**
+`;
+}
+
+// ============== PUBLIC API ==============
+
+/**
+ * Generate a workspace for a registry category, or a custom one such as a
+ * resolved bundle definition, into `outputDir`.
+ *
+ * Throws UnknownCategoryError, UnknownExampleError, OutputExistsError, or any
+ * GeneratorError createExample throws for one of the examples.
+ */
+export async function createWorkspace(
+  categoryOrName: string | Category,
+  outputDir: string,
+  options: CreateWorkspaceOptions = {},
+): Promise<CreateWorkspaceResult> {
+  const logger = options.logger || silentLogger;
+  const { category, examples } = resolveCategory(categoryOrName);
+
+  logger.info(`Creating FHEVM workspace: ${category.name}`);
+  logger.info(`Output directory: ${outputDir}`);
+
+  if (fs.existsSync(outputDir)) {
+    throw new OutputExistsError(outputDir);
+  }
+
+  // Step 1: One standalone repository per example
+  const packages: WorkspacePackage[] = [];
+  for (const example of examples) {
+    logger.step(`📦 Generating package ${packages.length + 1}/${examples.length}: ${example.name}...`);
+    const directory = `${WORKSPACE_PACKAGES_DIR}/${example.name}`;
+    const result = await createExample(example.name, path.join(outputDir, directory), { logger });
+    if (!result.success) {
+      throw new GeneratorError(result.message);
+    }
+    packages.push({ example, name: readPackageJson(result.outputPath).name, directory });
+  }
+
+  // Step 2: Hoist the shared dev dependencies into the root package
+  logger.step('⚙️  Writing the root package...');
+  const manifests = packages.map(pkg => readPackageJson(path.join(outputDir, pkg.directory)));
+  const shared = sharedDevDependencies(manifests);
+  manifests.forEach((manifest, index) => {
+    const devDependencies = manifest.devDependencies || {};
+    Object.keys(shared).forEach(name => delete devDependencies[name]);
+    if (Object.keys(devDependencies).length === 0) {
+      delete manifest.devDependencies;
+    }
+    writePackageJson(path.join(outputDir, packages[index].directory), manifest);
+  });
+  writePackageJson(outputDir, generateWorkspacePackageJson(category, packages, shared, manifests[0]));
+  logger.success(`${Object.keys(shared).length} shared dev dependencies hoisted into package.json`);
+
+  // Step 3: Generate README
+  logger.step('📝 Generating README...');
+  fs.writeFileSync(path.join(outputDir, 'README.md'), generateWorkspaceReadme(category, packages));
+  logger.success('README.md generated');
+
+  return { outputPath: outputDir, packages, sharedDevDependencies: Object.keys(shared) };
+}
@@ -0,0 +1,79 @@
+#!/usr/bin/env ts-node
+
+/**
+ * validate-examples - Reports the examples discovered from contract NatSpec front-matter
+ *
+ * Usage: ts-node scripts/validate-examples.ts
+ *
+ * Lists every discovered example, warns about orphaned tests and contracts
+ * without metadata, and exits non-zero when the registry is invalid.
+ */
+
+import * as path from 'path';
+import { discoverExamples } from './lib/discovery';
+
+// Color codes for terminal output
+enum Color {
+  Reset = '\x1b[0m',
+  Green = '\x1b[32m',
+  Blue = '\x1b[34m',
+  Yellow = '\x1b[33m',
+  Red = '\x1b[31m',
+  Cyan = '\x1b[36m',
+}
+
+function log(message: string, color: Color = Color.Reset): void {
+  console.log(`${color}${message}${Color.Reset}`);
+}
+
+function error(message: string): never {
+  log(`❌ Error: ${message}`, Color.Red);
+  process.exit(1);
+}
+
+function success(message: string): void {
+  log(`✅ ${message}`, Color.Green);
+}
+
+function warn(message: string): void {
+  log(`⚠️  Warning: ${message}`, Color.Yellow);
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+
+  if (args[0] === '--help' || args[0] === '-h') {
+    log('FHEVM Example Validator', Color.Cyan);
+    log('\nUsage: ts-node scripts/validate-examples.ts\n');
+    log('Examples are declared with @custom:example, @custom:category, @custom:difficulty');
+    log('and related NatSpec tags on contracts in contracts/. See scripts/lib/discovery.ts.\n');
+    process.exit(0);
+  }
+
+  const rootDir = path.resolve(__dirname, '..');
+  const discovery = discoverExamples(rootDir);
+
+  log('\n🔍 Discovered examples:', Color.Cyan);
+  Object.values(discovery.examples).forEach(example => {
+    log(`  ${example.name}`, Color.Green);
+    log(`    ${example.contractFile} ↔ ${example.testFile} (${example.category}, ${example.difficulty})`);
+  });
+
+  if (discovery.orphanedTests.length > 0 || discovery.contractsWithoutMetadata.length > 0) {
+    log('');
+  }
+  discovery.orphanedTests.forEach(file => warn(`Test is not paired with any example: ${file}`));
+  discovery.contractsWithoutMetadata.forEach(file => warn(`Contract has no @custom:example metadata: ${file}`));
+
+  // The registry validates itself on load and throws a RegistryError listing every problem
+  try {
+    await import('./lib/registry');
+  } catch (err) {
+    error(err instanceof Error ? err.message : String(err));
+  }
+
+  log('');
+  success(`Registry is valid (${Object.keys(discovery.examples).length} examples)`);
+}
+
+main().catch(err => error(err instanceof Error ? err.message : String(err)));
@@ -0,0 +1,127 @@
+/**
+ * PrivacyComplianceAudit Contract - Test Suite
+ *
+ * Tests the audit request / result lifecycle with FHEVM
+ * Demonstrates how encrypted audit results are shared between parties
+ */
+
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import type { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+import type { PrivacyComplianceAudit, PrivacyComplianceAudit__factory } from '../types';
+
+const GDPR = 0;
+const HIPAA = 2;
+const DATA_HASH = ethers.encodeBytes32String('dataset-v1');
+const REPORT_HASH = ethers.encodeBytes32String('report-v1');
+const ONE_YEAR = 365 * 24 * 60 * 60;
+
+describe('PrivacyComplianceAudit Contract Tests', () => {
+  let audit: PrivacyComplianceAudit;
+  let owner: HardhatEthersSigner;
+  let auditor: HardhatEthersSigner;
+  let entity: HardhatEthersSigner;
+  let outsider: HardhatEthersSigner;
+
+  beforeEach(async () => {
+    [owner, auditor, entity, outsider] = await ethers.getSigners();
+
+    const AuditFactory = (await ethers.getContractFactory('PrivacyComplianceAudit')) as PrivacyComplianceAudit__factory;
+    audit = await AuditFactory.deploy();
+    await audit.waitForDeployment();
+  });
+
+  describe('✅ Deployment', () => {
+    it('should set the deployer as owner and auditor', async () => {
+      expect(await audit.owner()).to.equal(owner.address);
+      expect(await audit.auditor()).to.equal(owner.address);
+      expect(await audit.getTotalAudits()).to.equal(0);
+    });
+
+    it('should let the owner change the auditor', async () => {
+      await expect(audit.setAuditor(auditor.address))
+        .to.emit(audit, 'AuditorChanged')
+        .withArgs(owner.address, auditor.address);
+      expect(await audit.auditor()).to.equal(auditor.address);
+    });
+  });
+
+  describe('✅ Audit Lifecycle', () => {
+    beforeEach(async () => {
+      await audit.setAuditor(auditor.address);
+    });
+
+    it('should record an audit request', async () => {
+      await expect(audit.connect(entity).requestAudit(GDPR, 80, DATA_HASH))
+        .to.emit(audit, 'AuditRequested')
+        .withArgs(1, entity.address, GDPR);
+      expect(await audit.getTotalAudits()).to.equal(1);
+    });
+
+    it('should complete an audit with encrypted results', async () => {
+      await audit.connect(entity).requestAudit(GDPR, 80, DATA_HASH);
+
+      await expect(audit.connect(auditor).submitAuditResults(1, 92, 1, true, REPORT_HASH, ONE_YEAR))
+        .to.emit(audit, 'AuditCompleted')
+        .withArgs(1, entity.address, GDPR);
+
+      expect(await audit.isComplianceValid(1)).to.equal(true);
+      expect([...(await audit.getEntityAudits(entity.address))]).to.deep.equal([1n]);
+      expect(await audit.getLatestAuditId(entity.address, GDPR)).to.equal(1);
+    });
+
+    it('should expire an audit when it is revoked', async () => {
+      await audit.connect(entity).requestAudit(HIPAA, 70, DATA_HASH);
+      await audit.connect(auditor).submitAuditResults(1, 75, 2, true, REPORT_HASH, ONE_YEAR);
+
+      await audit.connect(auditor).revokeAudit(1, 'Data breach');
+
+      expect(await audit.isComplianceValid(1)).to.equal(false);
+    });
+  });
+
+  describe('🔐 Access Control', () => {
+    beforeEach(async () => {
+      await audit.setAuditor(auditor.address);
+      await audit.connect(entity).requestAudit(GDPR, 80, DATA_HASH);
+      await audit.connect(auditor).submitAuditResults(1, 92, 1, true, REPORT_HASH, ONE_YEAR);
+    });
+
+    it('should let the audited entity grant view access', async () => {
+      await expect(audit.connect(entity).grantAuditAccess(1, outsider.address))
+        .to.emit(audit, 'AccessGranted')
+        .withArgs(1, outsider.address);
+      expect(await audit.auditViewAccess(1, outsider.address)).to.equal(true);
+
+      const info = await audit.connect(outsider).getAuditInfo(1);
+      expect(info.auditedEntity).to.equal(entity.address);
+    });
+
+    it('should hide audit info from unauthorized users', async () => {
+      await expect(audit.connect(outsider).getAuditInfo(1)).to.be.revertedWith('Not authorized to access this audit');
+    });
+  });
+
+  describe('❌ Error Handling', () => {
+    it('should reject expected scores above 100', async () => {
+      await expect(audit.connect(entity).requestAudit(GDPR, 101, DATA_HASH)).to.be.revertedWith(
+        'Expected score must be between 0-100',
+      );
+    });
+
+    it('should reject results from non-auditors', async () => {
+      await audit.connect(entity).requestAudit(GDPR, 80, DATA_HASH);
+      await expect(
+        audit.connect(outsider).submitAuditResults(1, 92, 1, true, REPORT_HASH, ONE_YEAR),
+      ).to.be.revertedWith('Only auditor can perform this action');
+    });
+
+    it('should reject processing the same audit twice', async () => {
+      await audit.connect(entity).requestAudit(GDPR, 80, DATA_HASH);
+      await audit.submitAuditResults(1, 92, 1, true, REPORT_HASH, ONE_YEAR);
+      await expect(audit.submitAuditResults(1, 92, 1, true, REPORT_HASH, ONE_YEAR)).to.be.revertedWith(
+        'Audit already processed',
+      );
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Anti-Pattern Pages - Test Suite
+ *
+ * Tests error extraction from test assertions and the broken vs. fixed section
+ */
+
+import { expect } from 'chai';
+import { buildAntiPatternBlocks, findExpectedErrors } from '../../scripts/lib/antipatterns';
+import { EXAMPLES_MAP } from '../../scripts/lib/registry';
+import { renderPage } from '../../scripts/lib/renderers';
+
+const BROKEN_TEST = `describe('MissingAllowThis', () => {
+  it('should revert when the contract reuses its value', async () => {
+    await contract.store(handle, proof);
+    await expect(contract.increment()).to.be.revertedWithCustomError(
+      contract,
+      'ACLNotAllowed',
+    );
+  });
+
+  it('should reject decryption', async () => {
+    await expect(fhevm.userDecryptEuint(euint32, handle, address, alice)).to.be.rejectedWith('not authorized');
+  });
+
+  it('should fail somehow', async () => {
+    await expect(contract.reset()).to.be.reverted;
+  });
+
+  // docs:exclude
+  it('should not be documented', async () => {
+    await expect(contract.hidden()).to.be.revertedWith('Hidden');
+  });
+});
+`;
+
+const BROKEN_CONTRACT = `contract MissingAllowThis {
+  function store(externalEuint32 input, bytes calldata proof) external {
+    value = FHE.fromExternal(input, proof);
+    FHE.allow(value, msg.sender);
+  }
+}
+`;
+
+const FIXED_CONTRACT = `contract FixedAllowThis {
+  function store(externalEuint32 input, bytes calldata proof) external {
+    value = FHE.fromExternal(input, proof);
+    FHE.allowThis(value);
+    FHE.allow(value, msg.sender);
+  }
+}
+`;
+
+describe('Anti-Pattern Pages', () => {
+  describe('✅ Expected Errors', () => {
+    it('should read the revert, rejection and test of every failing assertion', () => {
+      const errors = findExpectedErrors(BROKEN_TEST);
+
+      expect(errors.map(error => [error.matcher, error.error])).to.deep.equal([
+        ['revertedWithCustomError', 'ACLNotAllowed'],
+        ['rejectedWith', 'not authorized'],
+        ['reverted', 'Revert'],
+      ]);
+      expect(errors[0].test).to.equal('MissingAllowThis › should revert when the contract reuses its value');
+      expect(errors[0].code).to.equal(
+        "await expect(contract.increment()).to.be.revertedWithCustomError( contract, 'ACLNotAllowed', );",
+      );
+    });
+
+    it('should find nothing in a test without failing assertions', () => {
+      expect(findExpectedErrors("it('works', () => { expect(1).to.equal(1); });")).to.deep.equal([]);
+    });
+  });
+
+  describe('✅ Broken vs. Fixed', () => {
+    const fixed = { ...EXAMPLES_MAP['fhe-counter'], contractFile: 'contracts/FixedAllowThis.sol' };
+
+    it('should show the diff, the errors and both contracts', () => {
+      const blocks = buildAntiPatternBlocks('contracts/MissingAllowThis.sol', BROKEN_CONTRACT, BROKEN_TEST, {
+        fixed,
+        fixedContract: FIXED_CONTRACT,
+        expectedError: 'The contract loses access to its own value.',
+      });
+      const page = renderPage({ slug: 'missing-allow-this', title: 'Missing allowThis', description: '', blocks });
+
+      expect(page).to.contain('[FHE Counter](fhe-counter.md) is the corrected version');
+      expect(page).to.contain('```diff\n--- a/contracts/MissingAllowThis.sol\n+++ b/contracts/FixedAllowThis.sol\n');
+      expect(page).to.contain('\n-contract MissingAllowThis {\n+contract FixedAllowThis {\n');
+      expect(page).to.contain('\n+    FHE.allowThis(value);\n');
+      expect(page).to.contain('{% hint style="danger" %}\nThe contract loses access to its own value.');
+      expect(page).to.contain('- _MissingAllowThis › should reject decryption_ → `not authorized`');
+      expect(page).not.to.contain('Hidden');
+      expect(page).to.contain('{% tab title="❌ MissingAllowThis.sol" %}');
+      expect(page).to.contain('{% tab title="✅ FixedAllowThis.sol" %}');
+    });
+
+    it('should leave out what goes wrong when nothing is known', () => {
+      const blocks = buildAntiPatternBlocks('contracts/A.sol', BROKEN_CONTRACT, '', {
+        fixed,
+        fixedContract: FIXED_CONTRACT,
+      });
+
+      expect(blocks.map(block => (block.type === 'heading' ? block.text : block.type))).to.deep.equal([
+        'Broken vs. Fixed',
+        'paragraph',
+        'code',
+        'The Fix',
+        'tabs',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Batch Generation - Test Suite
+ *
+ * Tests the concurrency limit, failure isolation and the summary table
+ */
+
+import { expect } from 'chai';
+import { formatBatchTable, mapWithConcurrency, runBatch } from '../../scripts/lib/batch';
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('Batch Generation', () => {
+  describe('✅ Concurrency', () => {
+    it('should never exceed the limit and keep input order', async () => {
+      let running = 0;
+      let peak = 0;
+
+      const results = await mapWithConcurrency([30, 5, 20, 1, 10], 2, async ms => {
+        running++;
+        peak = Math.max(peak, running);
+        await delay(ms);
+        running--;
+        return ms * 2;
+      });
+
+      expect(peak).to.equal(2);
+      expect(results).to.deep.equal([60, 10, 40, 2, 20]);
+    });
+  });
+
+  describe('❌ Failures', () => {
+    it('should record thrown errors and keep going', async () => {
+      const done: string[] = [];
+
+      const report = await runBatch(
+        ['a', 'broken', 'c'],
+        3,
+        async name => {
+          if (name === 'broken') {
+            throw new Error('Unresolved local imports');
+          }
+          return { success: true, outputPath: `out/${name}`, errors: [] };
+        },
+        result => done.push(result.name),
+      );
+
+      expect(report).to.include({ total: 3, succeeded: 2, failed: 1 });
+      expect(report.results.map(result => result.name)).to.deep.equal(['a', 'broken', 'c']);
+      expect(report.results[1]).to.include({ success: false });
+      expect(report.results[1].errors).to.deep.equal(['Unresolved local imports']);
+      expect(done).to.have.members(['a', 'broken', 'c']);
+    });
+
+    it('should show the first error line of failed items in the table', async () => {
+      const report = await runBatch(['ok', 'bad'], 1, async name =>
+        name === 'ok'
+          ? { success: true, outputPath: 'out/ok', errors: [] }
+          : { success: false, errors: ['npm install failed:\nERESOLVE'] },
+      );
+
+      const lines = formatBatchTable(report).split('\n');
+
+      expect(lines[0]).to.match(/^Example\s+Status\s+Time\s+Output \/ Error$/);
+      expect(lines[2]).to.match(/^ok\s+OK\s+\d+\.\ds\s+out\/ok$/);
+      expect(lines[3]).to.match(/^bad\s+FAILED\s+\d+\.\ds\s+npm install failed:$/);
+    });
+  });
+});
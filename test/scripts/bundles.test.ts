@@ -0,0 +1,136 @@
+/**
+ * Bundle Definitions - Test Suite
+ *
+ * Tests example queries, resolving YAML/JSON bundle definitions and generating a bundle
+ */
+
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { isBundleFile, loadBundle, parseExampleQuery, resolveBundle, selectExamples } from '../../scripts/lib/bundles';
+import { createCategory } from '../../scripts/lib/category';
+import { BundleDefinitionError, ExampleQueryError } from '../../scripts/lib/errors';
+
+function names(query: string): string[] {
+  return selectExamples(query).map(example => example.name);
+}
+
+describe('Bundle Definitions', () => {
+  let rootDir: string;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fhevm-bundles-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  describe('✅ Queries', () => {
+    it('should match list fields by any value, case-insensitively', () => {
+      expect(names('difficulty=beginner AND concept=permissions')).to.deep.equal(['fhe-counter']);
+      expect(names('Tag=Compliance')).to.deep.equal(['privacy-compliance-audit']);
+      expect(names('chapter="Getting Started"')).to.deep.equal(['fhe-counter']);
+    });
+
+    it('should bind NOT before AND before OR and honour parentheses', () => {
+      expect(names('concept=comparison AND NOT category=compliance')).to.deep.equal(['fhe-eq']);
+      expect(names('name=fhe-add OR name=fhe-eq AND difficulty=advanced')).to.deep.equal(['fhe-add']);
+      expect(names('(name=fhe-add OR name=fhe-eq) AND difficulty!=advanced')).to.deep.equal(['fhe-add', 'fhe-eq']);
+    });
+
+    it('should parse into a tree of comparisons', () => {
+      expect(parseExampleQuery('tags=basic or not difficulty=advanced')).to.deep.equal({
+        type: 'or',
+        operands: [
+          { type: 'match', field: 'tag', value: 'basic', negated: false },
+          { type: 'not', operand: { type: 'match', field: 'difficulty', value: 'advanced', negated: false } },
+        ],
+      });
+    });
+  });
+
+  describe('❌ Queries', () => {
+    ['difficulty', 'level=beginner', 'difficulty=beginner AND', '(tag=basic', 'tag=basic)', 'tag=a & b'].forEach(
+      query => {
+        it(`should reject "${query}"`, () => {
+          expect(() => parseExampleQuery(query)).to.throw(ExampleQueryError);
+        });
+      },
+    );
+  });
+
+  describe('✅ Definitions', () => {
+    it('should add listed examples first, then tag and query matches in registry order', () => {
+      const category = resolveBundle({
+        name: 'decryption-deep-dive',
+        examples: ['fhe-eq'],
+        tags: ['Arithmetic'],
+        query: 'category=compliance',
+      });
+
+      expect(category).to.deep.equal({
+        name: 'decryption-deep-dive',
+        title: 'Decryption Deep Dive',
+        description: '4 FHEVM examples bundled for Decryption Deep Dive',
+        examples: ['fhe-eq', 'fhe-add', 'fhe-counter', 'privacy-compliance-audit'],
+        difficulty: 'advanced',
+      });
+    });
+
+    it('should load YAML and JSON files', () => {
+      const yamlFile = path.join(rootDir, 'workshop.yaml');
+      fs.writeFileSync(yamlFile, 'name: workshop\ntitle: Workshop\nquery: concept=permissions AND tag=basic\n');
+      const jsonFile = path.join(rootDir, 'workshop.json');
+      const definition = { name: 'workshop', examples: ['fhe-add'], difficulty: 'intermediate' };
+      fs.writeFileSync(jsonFile, JSON.stringify(definition));
+
+      expect(loadBundle(yamlFile).examples).to.deep.equal(['fhe-counter']);
+      expect(loadBundle(jsonFile)).to.include({ title: 'Workshop', difficulty: 'intermediate' });
+      expect([yamlFile, jsonFile, 'bundle.YML', 'basic'].map(isBundleFile)).to.deep.equal([true, true, true, false]);
+    });
+
+    it('should generate a project from a bundle', function () {
+      // Renders a docs page per example
+      this.timeout(10000);
+      const category = resolveBundle({ name: 'workshop', examples: ['fhe-counter', 'fhe-eq'] });
+      const outputDir = path.join(rootDir, 'workshop');
+
+      const result = createCategory(category, outputDir);
+
+      expect(result.contracts).to.deep.equal(['FHECounter', 'FHEEq']);
+      const packageJson = JSON.parse(fs.readFileSync(path.join(outputDir, 'package.json'), 'utf-8'));
+      expect(packageJson.name).to.equal('fhevm-category-workshop');
+      expect(fs.readFileSync(path.join(outputDir, 'test', 'fixtures.ts'), 'utf-8')).to.contain(
+        'await deployments.fixture(["workshop"]);',
+      );
+    });
+  });
+
+  describe('❌ Definitions', () => {
+    it('should report every problem of a definition file', () => {
+      const file = path.join(rootDir, 'broken.yml');
+      fs.writeFileSync(file, 'name: Broken Bundle\ndifficulty: expert\nexample: [fhe-add]\n');
+
+      expect(() => loadBundle(file))
+        .to.throw(BundleDefinitionError)
+        .with.property('problems')
+        .that.deep.equals([
+          'Unknown field "example"',
+          '"name" must be a kebab-case string',
+          '"difficulty" must be one of: beginner, intermediate, advanced',
+          'Select examples with "examples", "tags" or "query"',
+        ]);
+    });
+
+    it('should reject unknown examples, malformed queries and empty selections', () => {
+      expect(() => resolveBundle({ name: 'typo', examples: ['fhe-ad'], query: 'level=1' }))
+        .to.throw(BundleDefinitionError)
+        .with.property('problems')
+        .with.length(2);
+      expect(() => resolveBundle({ name: 'empty', tags: ['nothing'] })).to.throw('The bundle selects no examples');
+      expect(() => loadBundle(path.join(rootDir, 'missing.yaml'))).to.throw(BundleDefinitionError);
+    });
+  });
+});
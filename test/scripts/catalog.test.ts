@@ -0,0 +1,99 @@
+/**
+ * Example Catalog - Test Suite
+ *
+ * Tests the catalog.json entries, their stability and the catalog search used by the CLI and the site
+ */
+
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  buildCatalog,
+  buildCatalogIndex,
+  CATALOG_SCHEMA_VERSION,
+  searchCatalog,
+  writeCatalog,
+} from '../../scripts/lib/catalog';
+import { EXAMPLES_MAP } from '../../scripts/lib/registry';
+import { writeSiteIndex } from '../../scripts/lib/renderers';
+
+describe('Example Catalog', () => {
+  describe('✅ Entries', () => {
+    it('should describe every example with its functions, file hashes and page', () => {
+      const catalog = buildCatalog();
+
+      expect(catalog.schemaVersion).to.equal(CATALOG_SCHEMA_VERSION);
+      expect(catalog.examples.map(example => example.name)).to.deep.equal(Object.keys(EXAMPLES_MAP).sort());
+
+      const add = catalog.examples.find(example => example.name === 'fhe-add');
+      expect(add && add.contract.name).to.equal('FHEAdd');
+      expect(add && add.contract.functions[0]).to.deep.equal({
+        name: 'add',
+        signature: 'add(externalEuint32,bytes)',
+        stateMutability: 'nonpayable',
+      });
+      expect(Object.keys((add && add.hashes) || {})).to.deep.equal(['contracts/FHEAdd.sol', 'test/FHEAdd.test.ts']);
+      expect(add && add.hashes['contracts/FHEAdd.sol']).to.match(/^[0-9a-f]{64}$/);
+      expect(add && add.docUrl).to.equal('docs/fhe-add.md');
+    });
+
+    it('should point at the chosen format or a published site', () => {
+      const [first] = buildCatalog({ format: 'html' }).examples;
+      const [published] = buildCatalog({ baseUrl: 'https://docs.example.com/fhevm/' }).examples;
+
+      expect(first.docUrl).to.equal(`docs/site/${first.name}.html`);
+      expect(published.docUrl).to.equal(`https://docs.example.com/fhevm/${published.name}.md`);
+    });
+
+    it('should keep the revision until an example changes', () => {
+      const examples = { ...EXAMPLES_MAP };
+      const revision = buildCatalog({ examples }).revision;
+
+      expect(buildCatalog({ examples }).revision).to.equal(revision);
+      examples['fhe-add'] = { ...examples['fhe-add'], title: 'Renamed' };
+      expect(buildCatalog({ examples }).revision).not.to.equal(revision);
+    });
+  });
+
+  describe('✅ Search', () => {
+    it('should rank matching examples and tolerate typos', () => {
+      const catalog = buildCatalog();
+
+      expect(searchCatalog(catalog, 'compliance').map(result => result.example.name)).to.deep.equal([
+        'privacy-compliance-audit',
+      ]);
+      expect(searchCatalog(catalog, 'permision')[0].example.name).to.equal('fhe-counter');
+      expect(searchCatalog(catalog, 'fhe', { limit: 2 })).to.have.length(2);
+    });
+  });
+
+  describe('✅ Files', () => {
+    let docsDir: string;
+
+    beforeEach(() => {
+      docsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fhevm-catalog-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(docsDir, { recursive: true, force: true });
+    });
+
+    it('should write the catalog and the index it is searched with', () => {
+      const catalog = buildCatalog();
+      const [catalogPath, indexPath] = writeCatalog(docsDir, catalog);
+
+      expect(JSON.parse(fs.readFileSync(catalogPath, 'utf-8'))).to.deep.equal(catalog);
+      expect(JSON.parse(fs.readFileSync(indexPath, 'utf-8'))).to.deep.equal(buildCatalogIndex(catalog));
+    });
+
+    it('should ship the search script and embed the index in the HTML site', () => {
+      fs.writeFileSync(path.join(docsDir, 'fhe-counter.html'), '<title>FHE Counter</title><main>Counter</main>');
+
+      const index = fs.readFileSync(writeSiteIndex(docsDir, buildCatalogIndex(buildCatalog())), 'utf-8');
+
+      expect(fs.readFileSync(path.join(docsDir, 'search.js'), 'utf-8')).to.contain('function searchIndex(index, query');
+      expect(index).to.contain('"example":"fhe-counter"');
+    });
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Category Generator - Test Suite
+ *
+ * Tests createCategory against the registered categories
+ */
+
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BundleItem, createCategory, generateDeployScript } from '../../scripts/lib/category';
+import {
+  DependencyConflictError,
+  MissingDeployArgumentError,
+  NameCollisionError,
+  OutputExistsError,
+  UnknownCategoryError,
+} from '../../scripts/lib/errors';
+import { rewriteRelativeImports } from '../../scripts/lib/project';
+import { CATEGORIES, EXAMPLES_MAP, getExamplesByCategory } from '../../scripts/lib/registry';
+
+describe('Category Generator', () => {
+  let rootDir: string;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fhevm-category-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  describe('✅ Generation', () => {
+    it('should copy every contract of the category', function () {
+      this.timeout(10000);
+      const outputDir = path.join(rootDir, 'basic');
+
+      const result = createCategory('basic', outputDir);
+
+      expect(result.outputPath).to.equal(outputDir);
+      expect(result.contracts).to.have.length(getExamplesByCategory('basic').length);
+      result.contracts.forEach(name => {
+        expect(fs.existsSync(path.join(outputDir, 'contracts', `${name}.sol`))).to.equal(true);
+      });
+      expect(fs.readFileSync(path.join(outputDir, 'README.md'), 'utf-8')).to.contain('## Included Examples');
+    });
+
+    it('should write a tagged deploy script per contract and a fixture deploying them all', function () {
+      // Renders a docs page per example
+      this.timeout(10000);
+      const outputDir = path.join(rootDir, 'basic');
+
+      const result = createCategory('basic', outputDir);
+
+      expect(result.deployScripts).to.deep.equal(result.contracts.map(name => `deploy/${name}.ts`));
+      expect(fs.existsSync(path.join(outputDir, 'deploy', 'Counter.ts'))).to.equal(false);
+      const counterScript = fs.readFileSync(path.join(outputDir, 'deploy', 'FHECounter.ts'), 'utf-8');
+      expect(counterScript).to.contain('func.tags = ["FHECounter", "fhe-counter", "basic"];');
+
+      const fixture = fs.readFileSync(path.join(outputDir, 'test', 'fixtures.ts'), 'utf-8');
+      expect(fixture).to.contain('await deployments.fixture(["basic"]);');
+      expect(fixture).to.contain('FHEAdd: await ethers.getContractAt("FHEAdd"');
+
+      const readme = fs.readFileSync(path.join(outputDir, 'README.md'), 'utf-8');
+      expect(readme).to.contain(
+        '| FHE Counter | [`FHECounter`](contracts/FHECounter.sol) | [FHECounter.test.ts](test/FHECounter.test.ts) | ' +
+          '[fhe-counter.md](docs/fhe-counter.md) | `FHECounter` |',
+      );
+      expect(fs.readFileSync(path.join(outputDir, 'docs', 'fhe-counter.md'), 'utf-8')).to.contain('# FHE Counter');
+      expect(JSON.parse(fs.readFileSync(path.join(outputDir, 'package.json'), 'utf-8')).name).to.equal(
+        'fhevm-category-basic',
+      );
+    });
+
+    it("should add the category's declared dependencies to package.json", function () {
+      this.timeout(10000);
+      const outputDir = path.join(rootDir, 'tokens');
+      const category = { ...CATEGORIES.basic, examples: ['fhe-add'], additionalDeps: { 'fhe-utils': '^1.2.0' } };
+
+      createCategory(category, outputDir);
+
+      const packageJson = JSON.parse(fs.readFileSync(path.join(outputDir, 'package.json'), 'utf-8'));
+      expect(packageJson.dependencies['fhe-utils']).to.equal('^1.2.0');
+    });
+  });
+
+  describe('✅ Name Collisions', () => {
+    // A second example around the same contract, registered for the duration of a test
+    const twin = { ...EXAMPLES_MAP['fhe-add'], name: 'fhe-add-v2' };
+    const bundle = { ...CATEGORIES.basic, name: 'twins', examples: ['fhe-add', 'fhe-add-v2'] };
+
+    beforeEach(() => {
+      EXAMPLES_MAP['fhe-add-v2'] = twin;
+    });
+
+    afterEach(() => {
+      delete EXAMPLES_MAP['fhe-add-v2'];
+    });
+
+    it('should namespace colliding examples and address shared contract names by source file', function () {
+      this.timeout(10000);
+      const outputDir = path.join(rootDir, 'twins');
+
+      const result = createCategory(bundle, outputDir, { collisions: 'namespace' });
+
+      expect(result.deployScripts).to.deep.equal(['deploy/fhe-add/FHEAdd.ts', 'deploy/fhe-add-v2/FHEAdd.ts']);
+      const test = fs.readFileSync(path.join(outputDir, 'test', 'fhe-add-v2', 'FHEAdd.test.ts'), 'utf-8');
+      expect(test).to.contain(`getContractFactory('contracts/fhe-add-v2/FHEAdd.sol:FHEAdd')`);
+      const script = fs.readFileSync(path.join(outputDir, 'deploy', 'fhe-add', 'FHEAdd.ts'), 'utf-8');
+      expect(script).to.contain('deploy("FHEAdd_fhe_add", {\n    contract: "contracts/fhe-add/FHEAdd.sol:FHEAdd",');
+      expect(fs.readFileSync(path.join(outputDir, 'test', 'fixtures.ts'), 'utf-8')).to.contain(
+        'FHEAdd_fhe_add_v2: await ethers.getContractAt("contracts/fhe-add-v2/FHEAdd.sol:FHEAdd"',
+      );
+    });
+
+    it('should point moved tests at their support files and the project root', () => {
+      const test = [
+        'import { deploy } from "./fixtures/deploy";',
+        'import type { T } from "../types";',
+        "require('./util.js');",
+      ];
+
+      const rewritten = rewriteRelativeImports(test.join('\n'), 'test/FHEAdd.test.ts', 'test/fhe-add/FHEAdd.test.ts', {
+        'test/fixtures/deploy.ts': 'test/fhe-add/fixtures/deploy.ts',
+      });
+
+      expect(rewritten.split('\n')).to.deep.equal([
+        'import { deploy } from "./fixtures/deploy";',
+        'import type { T } from "../../types";',
+        "require('../util.js');",
+      ]);
+    });
+  });
+
+  describe('✅ Deploy Scripts', () => {
+    const item: BundleItem = {
+      example: { ...EXAMPLES_MAP['privacy-compliance-audit'], deployArgs: { fee: 'hre.ethers.parseEther("0.01")' } },
+      contractName: 'PrivacyComplianceAudit',
+      contractFile: 'contracts/PrivacyComplianceAudit.sol',
+      testFile: 'test/PrivacyComplianceAudit.test.ts',
+      docsFile: 'docs/privacy-compliance-audit.md',
+      constructorParameters: [
+        { name: 'registry', type: 'AuditorRegistry', storageLocation: null, indexed: false },
+        { name: 'fee', type: 'uint256', storageLocation: null, indexed: false },
+      ],
+    };
+
+    it('should deploy bundle contracts the constructor takes first', () => {
+      const script = generateDeployScript(item, 'compliance', ['AuditorRegistry', 'PrivacyComplianceAudit']);
+
+      expect(script).to.contain('const { deploy, get } = hre.deployments;');
+      expect(script).to.contain('args: [(await get("AuditorRegistry")).address, hre.ethers.parseEther("0.01")],');
+      expect(script).to.contain('func.dependencies = ["AuditorRegistry"];');
+    });
+
+    it('should refuse constructor parameters without a declared value', () => {
+      const undeclared = { ...item, example: EXAMPLES_MAP['privacy-compliance-audit'] };
+
+      expect(() => generateDeployScript(undeclared, 'compliance', ['AuditorRegistry', 'PrivacyComplianceAudit']))
+        .to.throw(MissingDeployArgumentError, 'privacy-compliance-audit')
+        .with.property('parameters')
+        .that.deep.equals(['uint256 fee']);
+    });
+  });
+
+  describe('❌ Typed Errors', () => {
+    it('should reject unknown categories and existing outputs', () => {
+      expect(() => createCategory('nope', path.join(rootDir, 'nope'))).to.throw(UnknownCategoryError);
+      expect(() => createCategory('basic', rootDir)).to.throw(OutputExistsError);
+    });
+
+    it('should report colliding files and contract names before writing anything', () => {
+      const outputDir = path.join(rootDir, 'twins');
+      // Different test sources that would both land on test/FHEAdd.test.ts
+      EXAMPLES_MAP['fhe-add-v2'] = {
+        ...EXAMPLES_MAP['fhe-add'],
+        name: 'fhe-add-v2',
+        testFile: 'test/v2/FHEAdd.test.ts',
+      };
+      try {
+        const bundle = { ...CATEGORIES.basic, name: 'twins', examples: ['fhe-add', 'fhe-add-v2'] };
+        expect(() => createCategory(bundle, outputDir))
+          .to.throw(NameCollisionError)
+          .with.property('collisions')
+          .that.deep.equals([
+            { kind: 'file', name: 'test/FHEAdd.test.ts', examples: ['fhe-add', 'fhe-add-v2'] },
+            { kind: 'contract', name: 'FHEAdd', examples: ['fhe-add', 'fhe-add-v2'] },
+          ]);
+      } finally {
+        delete EXAMPLES_MAP['fhe-add-v2'];
+      }
+      expect(fs.existsSync(outputDir)).to.equal(false);
+    });
+
+    it('should refuse examples requiring incompatible versions before writing anything', () => {
+      const outputDir = path.join(rootDir, 'conflict');
+      const original = EXAMPLES_MAP['fhe-add'];
+      EXAMPLES_MAP['fhe-add'] = { ...original, additionalDeps: { 'fhe-utils': '^2.0.0' } };
+      try {
+        const category = { ...CATEGORIES.basic, additionalDeps: { 'fhe-utils': '^1.2.0' } };
+        expect(() => createCategory(category, outputDir)).to.throw(
+          DependencyConflictError,
+          'fhe-utils: ^2.0.0 (example fhe-add), ^1.2.0 (category basic)',
+        );
+      } finally {
+        EXAMPLES_MAP['fhe-add'] = original;
+      }
+      expect(fs.existsSync(outputDir)).to.equal(false);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * fhevm-examples CLI - Test Suite
+ *
+ * Tests argument parsing, help output and shell completion of the unified CLI
+ */
+
+import { expect } from 'chai';
+import {
+  COMMANDS,
+  completionScript,
+  formatCommandHelp,
+  formatHelp,
+  getCommand,
+  parseArgs,
+  UsageError,
+} from '../../scripts/lib/cli';
+
+describe('fhevm-examples CLI', () => {
+  const create = getCommand('create')!;
+
+  describe('✅ Parsing', () => {
+    it('should split positionals, boolean flags and string flags', () => {
+      const parsed = parseArgs(['fhe-counter', '--out', './out', '--force', '--concurrency=2', '-q'], create);
+
+      expect(parsed).to.deep.equal({
+        positional: ['fhe-counter'],
+        flags: { out: './out', force: true, concurrency: '2', quiet: true },
+      });
+    });
+
+    it('should accept the global flags on every command', () => {
+      COMMANDS.forEach(command => {
+        expect(parseArgs(['--json', '--quiet', '-h'], command).flags).to.deep.equal({
+          json: true,
+          quiet: true,
+          help: true,
+        });
+      });
+    });
+  });
+
+  describe('❌ Usage Errors', () => {
+    it('should reject flags the command does not accept', () => {
+      expect(() => parseArgs(['--verify'], getCommand('list')!)).to.throw(UsageError, '--verify');
+    });
+
+    it('should reject missing values and values on boolean flags', () => {
+      expect(() => parseArgs(['--out'], create)).to.throw(UsageError, 'requires a value');
+      expect(() => parseArgs(['--out', '--force'], create)).to.throw(UsageError, 'requires a value');
+      expect(() => parseArgs(['--force=yes'], create)).to.throw(UsageError, 'does not take a value');
+    });
+  });
+
+  describe('✅ Help & Completion', () => {
+    it('should list every command and its flags', () => {
+      const help = formatHelp('fhevm-examples');
+      COMMANDS.forEach(command => expect(help).to.contain(command.name));
+      expect(formatCommandHelp('fhevm-examples', create)).to.contain('--out <dir>').and.contain('--json');
+    });
+
+    it('should complete commands, flags, examples and categories', () => {
+      const script = completionScript('fhevm-examples', 'zsh', { examples: ['fhe-counter'], categories: ['basic'] });
+
+      expect(script).to.contain('bashcompinit');
+      expect(script).to.contain('create category docs list search validate completion');
+      expect(script).to.match(/create\) words="[^"]*--update[^"]*fhe-counter"/);
+      expect(script).to.contain('complete -F _fhevm_examples_completion fhevm-examples');
+    });
+  });
+});
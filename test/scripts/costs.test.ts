@@ -0,0 +1,168 @@
+/**
+ * Cost Tables - Test Suite
+ *
+ * Tests FHE operation counting, cost reports built from gas measurements and the page's cost table
+ */
+
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  buildCostBlocks,
+  buildCostReport,
+  COST_REPORT_SCHEMA_VERSION,
+  countFheOperations,
+  readCostReport,
+  writeCostReport,
+} from '../../scripts/lib/costs';
+import { EXAMPLES_MAP } from '../../scripts/lib/registry';
+import { renderPage } from '../../scripts/lib/renderers';
+
+const CONTRACT = `pragma solidity ^0.8.24;
+
+contract Vault {
+  euint32 private _balance;
+
+  constructor() {
+    _balance = FHE.asEuint32(0);
+    FHE.allowThis(_balance);
+  }
+
+  function deposit(externalEuint32 input, bytes calldata proof) external {
+    _balance = _add(FHE.fromExternal(input, proof));
+    FHE.allowThis(_balance);
+    FHE.allow(_balance, msg.sender);
+  }
+
+  function withdraw(externalEuint32 input, bytes calldata proof) external {
+    euint32 amount = FHE.fromExternal(input, proof);
+    ebool enough = FHE.ge(_balance, amount);
+    _balance = FHE.select(enough, FHE.sub(_balance, amount), _balance);
+  }
+
+  function getBalance() external view returns (euint32) {
+    return _balance;
+  }
+
+  function _add(euint32 amount) internal returns (euint32) {
+    return FHE.add(_balance, amount);
+  }
+}
+`;
+
+const VAULT = { ...EXAMPLES_MAP['fhe-add'], name: 'vault', contractFile: 'contracts/Vault.sol' };
+
+const stats = (min: number, avg: number, max: number, calls: number) => ({ min, max, avg, calls });
+
+const GAS = {
+  methods: [
+    { contract: 'Vault', method: 'deposit', signature: 'deposit(bytes32,bytes)', ...stats(120000, 130000, 150000, 3) },
+    { contract: 'Other', method: 'deposit', signature: 'deposit(uint256)', ...stats(1, 1, 1, 1) },
+    { contract: 'Vault', method: 'getBalance', signature: 'getBalance()', ...stats(24000, 24000, 24000, 1) },
+  ],
+  deployments: [{ contract: 'Vault', ...stats(900000, 900000, 900000, 1) }],
+};
+
+describe('Cost Tables', () => {
+  describe('✅ FHE Operations', () => {
+    it('should count operations per public function, including internal calls', () => {
+      expect(countFheOperations(CONTRACT)).to.deep.equal([
+        { contract: 'Vault', function: 'constructor', operations: { asEuint32: 1 } },
+        { contract: 'Vault', function: 'deposit', operations: { add: 1, fromExternal: 1 } },
+        { contract: 'Vault', function: 'withdraw', operations: { fromExternal: 1, ge: 1, select: 1, sub: 1 } },
+      ]);
+    });
+
+    it('should count the operations of the registered examples', () => {
+      const source = fs.readFileSync(path.join(__dirname, '..', '..', 'contracts', 'FHECounter.sol'), 'utf-8');
+
+      expect(countFheOperations(source).find(fn => fn.function === 'decrement')).to.deep.equal({
+        contract: 'FHECounter',
+        function: 'decrement',
+        operations: { fromExternal: 1, sub: 1 },
+      });
+    });
+  });
+
+  describe('✅ Reports', () => {
+    it('should pair operation counts with the gas measured for the main contract', () => {
+      const report = buildCostReport(VAULT, CONTRACT, GAS);
+
+      expect(report.schemaVersion).to.equal(COST_REPORT_SCHEMA_VERSION);
+      expect(report.contract).to.equal('Vault');
+      expect(report.deployment).to.deep.equal({ min: 900000, max: 900000, avg: 900000, calls: 1 });
+      expect(report.functions.map(fn => [fn.name, fn.gas && fn.gas.avg])).to.deep.equal([
+        ['constructor', null],
+        ['deposit', 130000],
+        ['getBalance', 24000],
+        ['withdraw', null],
+      ]);
+    });
+
+    it('should combine the measurements of overloaded functions', () => {
+      const overloads = {
+        methods: [
+          { contract: 'Vault', method: 'deposit', signature: 'deposit(bytes32,bytes)', ...stats(100, 150, 200, 2) },
+          { contract: 'Vault', method: 'deposit', signature: 'deposit(bytes32)', ...stats(50, 50, 50, 2) },
+        ],
+        deployments: [],
+      };
+      const deposit = buildCostReport(VAULT, CONTRACT, overloads).functions.find(fn => fn.name === 'deposit');
+
+      expect(deposit && deposit.gas).to.deep.equal({ min: 50, max: 200, avg: 100, calls: 4 });
+    });
+
+    it('should write the report under docs/costs and read it back', () => {
+      const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fhevm-costs-'));
+      try {
+        const report = buildCostReport(VAULT, CONTRACT, GAS);
+
+        expect(writeCostReport(rootDir, report)).to.equal('docs/costs/vault.json');
+        expect(readCostReport(rootDir, 'vault')).to.deep.equal(report);
+        expect(readCostReport(rootDir, 'fhe-add')).to.equal(null);
+      } finally {
+        fs.rmSync(rootDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('✅ Cost Table', () => {
+    const render = (blocks: ReturnType<typeof buildCostBlocks>) =>
+      renderPage({ slug: 'vault', title: 'Vault', description: '', blocks });
+
+    it('should list deployment and function gas next to the operations', () => {
+      const report = buildCostReport(VAULT, CONTRACT, GAS);
+      const page = render(buildCostBlocks('vault', 'contracts/Vault.sol', CONTRACT, report));
+
+      expect(page).to.contain('| Function | FHE operations | Gas (min / avg / max) | Calls |');
+      expect(page).to.contain('| _deployment_ | — | 900,000 / 900,000 / 900,000 | 1 |');
+      expect(page).to.contain('| `deposit` | `add`, `fromExternal` | 120,000 / 130,000 / 150,000 | 3 |');
+      expect(page).to.contain('| `getBalance` | — | 24,000 / 24,000 / 24,000 | 1 |');
+      expect(page).to.contain('| `withdraw` | `fromExternal`, `ge`, `select`, `sub` | — | — |');
+      expect(page).not.to.contain('{% hint');
+    });
+
+    it('should ask for a measurement when none is stored', () => {
+      const page = render(buildCostBlocks('vault', 'contracts/Vault.sol', CONTRACT));
+
+      expect(page).to.contain('Gas has not been measured yet. Run `npm run generate-docs vault -- --costs`');
+    });
+
+    it('should flag gas measured on another version of the contract', () => {
+      const report = buildCostReport(VAULT, CONTRACT, GAS);
+      const changed = CONTRACT.replace('FHE.ge(', 'FHE.gt(');
+
+      expect(render(buildCostBlocks('vault', 'contracts/Vault.sol', changed, report))).to.contain(
+        '{% hint style="warning" %}\nGas was measured on an earlier version of the contract.',
+      );
+    });
+  });
+
+  describe('❌ Nothing To Show', () => {
+    it('should leave the section out when there are no operations and no measurements', () => {
+      const plain = 'contract Plain { function f() external {} }';
+      expect(buildCostBlocks('plain', 'contracts/Plain.sol', plain)).to.deep.equal([]);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Declared Dependencies - Test Suite
+ *
+ * Tests merging the npm dependencies of examples and categories and reporting incompatible versions
+ */
+
+import { expect } from 'chai';
+import {
+  applyDependencies,
+  collectRequirements,
+  findDependencyConflicts,
+  mergeDependencies,
+  PackageManifest,
+} from '../../scripts/lib/dependencies';
+import { DependencyConflictError } from '../../scripts/lib/errors';
+import { Category, EXAMPLES_MAP, ExampleConfig } from '../../scripts/lib/registry';
+
+const OZ = '@openzeppelin/confidential-contracts';
+
+function withDeps(name: string, additionalDeps: Record<string, string>): ExampleConfig {
+  return { ...EXAMPLES_MAP[name], additionalDeps };
+}
+
+describe('Declared Dependencies', () => {
+  describe('✅ Merging', () => {
+    it('should collect example requirements before the category ones', () => {
+      const category = { name: 'tokens', additionalDeps: { [OZ]: '^0.2.0' } } as unknown as Category;
+      const examples = [withDeps('fhe-add', { [OZ]: '^0.2.1' }), EXAMPLES_MAP['fhe-eq']];
+
+      expect(collectRequirements(examples, category)).to.deep.equal([
+        { packageName: OZ, range: '^0.2.1', source: 'example fhe-add' },
+        { packageName: OZ, range: '^0.2.0', source: 'category tokens' },
+      ]);
+    });
+
+    it('should keep the narrowest of compatible ranges', () => {
+      const requirements = collectRequirements([
+        withDeps('fhe-add', { [OZ]: '^0.2.0', 'fhe-utils': '>=1.0.0 <1.5.0' }),
+        withDeps('fhe-eq', { [OZ]: '~0.2.3', 'fhe-utils': '^1.2.0' }),
+        withDeps('fhe-counter', { [OZ]: '^0.2.0', 'fhe-tools': 'latest' }),
+      ]);
+
+      expect(mergeDependencies(requirements)).to.deep.equal({
+        [OZ]: '~0.2.3',
+        'fhe-utils': '>=1.0.0 <1.5.0 ^1.2.0',
+        'fhe-tools': 'latest',
+      });
+    });
+
+    it('should keep a latest requirement as it is', () => {
+      const requirements = collectRequirements([
+        withDeps('fhe-add', { 'fhe-tools': 'latest', [OZ]: '^0.2.0' }),
+        withDeps('fhe-eq', { 'fhe-tools': 'latest' }),
+      ]);
+
+      expect(mergeDependencies(requirements)).to.deep.equal({ 'fhe-tools': 'latest', [OZ]: '^0.2.0' });
+    });
+
+    it('should write into the section the template declares a package in', () => {
+      const packageJson: PackageManifest = {
+        dependencies: { dotenv: '^16.3.1' },
+        devDependencies: { hardhat: '^2.17.0' },
+      };
+
+      applyDependencies(packageJson, { hardhat: '^2.22.0', [OZ]: '^0.2.0' });
+
+      expect(packageJson).to.deep.equal({
+        dependencies: { dotenv: '^16.3.1', [OZ]: '^0.2.0' },
+        devDependencies: { hardhat: '^2.22.0' },
+      });
+    });
+  });
+
+  describe('❌ Conflicts', () => {
+    it('should report every package required in incompatible versions', () => {
+      const requirements = collectRequirements(
+        [withDeps('fhe-add', { [OZ]: '^0.1.0', 'fhe-tools': 'latest' }), withDeps('fhe-eq', { 'fhe-tools': 'next' })],
+        { name: 'tokens', additionalDeps: { [OZ]: '^0.2.0' } } as unknown as Category,
+      );
+
+      expect(findDependencyConflicts(requirements).map(conflict => conflict.packageName)).to.deep.equal([
+        OZ,
+        'fhe-tools',
+      ]);
+      expect(() => mergeDependencies(requirements))
+        .to.throw(DependencyConflictError)
+        .with.property('message')
+        .that.contains(`${OZ}: ^0.1.0 (example fhe-add), ^0.2.0 (category tokens)`)
+        .and.contains('fhe-tools: latest (example fhe-add), next (example fhe-eq)');
+    });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Unified Diff - Test Suite
+ *
+ * Tests the diff -u style output used by the docs drift check
+ */
+
+import { expect } from 'chai';
+import { unifiedDiff } from '../../scripts/lib/diff';
+
+const LABELS = { before: 'a/page.md', after: 'b/page.md' };
+
+function lines(count: number): string[] {
+  return Array.from({ length: count }, (_, index) => `line ${index + 1}`);
+}
+
+describe('Unified Diff', () => {
+  describe('✅ Hunks', () => {
+    it('should print changes with three lines of context', () => {
+      const before = lines(10).join('\n') + '\n';
+      const after = before.replace('line 5\n', 'line five\n');
+
+      expect(unifiedDiff(before, after, LABELS)).to.equal(
+        [
+          '--- a/page.md',
+          '+++ b/page.md',
+          '@@ -2,7 +2,7 @@',
+          ' line 2',
+          ' line 3',
+          ' line 4',
+          '-line 5',
+          '+line five',
+          ' line 6',
+          ' line 7',
+          ' line 8',
+          '',
+        ].join('\n'),
+      );
+    });
+
+    it('should split distant changes into separate hunks and join close ones', () => {
+      const before = lines(30);
+      const after = [...before];
+      after[1] = 'changed 2';
+      after[6] = 'changed 7';
+      after[25] = 'changed 26';
+
+      const headers = unifiedDiff(before.join('\n'), after.join('\n'), LABELS)
+        .split('\n')
+        .filter(line => line.startsWith('@@'));
+
+      expect(headers).to.deep.equal(['@@ -1,10 +1,10 @@', '@@ -23,7 +23,7 @@']);
+    });
+
+    it('should diff a new file against /dev/null', () => {
+      const diff = unifiedDiff('', '# Title\n', { before: '/dev/null', after: 'b/page.md' });
+
+      expect(diff).to.equal(['--- /dev/null', '+++ b/page.md', '@@ -0,0 +1,1 @@', '+# Title', ''].join('\n'));
+    });
+  });
+
+  describe('✅ Equal Inputs', () => {
+    it('should return an empty string', () => {
+      expect(unifiedDiff('same\n', 'same\n', LABELS)).to.equal('');
+    });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Example Discovery - Test Suite
+ *
+ * Tests NatSpec front-matter parsing and contract/test pairing
+ */
+
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { discoverExamples, extractNatSpecBefore, parseNatSpecTags } from '../../scripts/lib/discovery';
+
+function writeFile(rootDir: string, relativePath: string, content: string): void {
+  const filePath = path.join(rootDir, relativePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+}
+
+const ANNOTATED_CONTRACT = `pragma solidity ^0.8.24;
+
+interface IHelper {}
+
+/**
+ * @title Adder
+ * @notice Adds encrypted values
+ * @custom:example adder
+ * @custom:category basic
+ * @custom:difficulty beginner
+ * @custom:concepts arithmetic, fhe-add
+ * @custom:objectives Add values; Grant
+ * permissions
+ */
+contract Adder {}
+`;
+
+describe('Example Discovery', () => {
+  let rootDir: string;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fhevm-discovery-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  describe('✅ NatSpec Parsing', () => {
+    it('should read block and triple-slash comments', () => {
+      const block = '/**\n * @title A\n * @notice B\n */\ncontract A {}';
+      const slashes = '/// @title A\n/// @notice B\n///   continued\ncontract A {}';
+
+      expect(parseNatSpecTags(extractNatSpecBefore(block, block.indexOf('contract')))).to.deep.equal({
+        title: 'A',
+        notice: 'B',
+      });
+      expect(parseNatSpecTags(extractNatSpecBefore(slashes, slashes.indexOf('contract')))).to.deep.equal({
+        title: 'A',
+        notice: 'B continued',
+      });
+    });
+  });
+
+  describe('✅ Pairing', () => {
+    it('should build an example from front-matter and its conventional test', () => {
+      writeFile(rootDir, 'contracts/basic/Adder.sol', ANNOTATED_CONTRACT);
+      writeFile(rootDir, 'test/basic/Adder.test.ts', '');
+
+      const result = discoverExamples(rootDir);
+
+      expect(result.errors).to.deep.equal([]);
+      expect(result.examples.adder).to.deep.equal({
+        name: 'adder',
+        title: 'Adder',
+        description: 'Adds encrypted values',
+        category: 'basic',
+        contractFile: 'contracts/basic/Adder.sol',
+        testFile: 'test/basic/Adder.test.ts',
+        difficulty: 'beginner',
+        concepts: ['arithmetic', 'fhe-add'],
+        tags: [],
+        learningObjectives: ['Add values', 'Grant permissions'],
+      });
+    });
+
+    it('should read declared npm dependencies, scoped or not', () => {
+      const contract = ANNOTATED_CONTRACT.replace(
+        '@custom:difficulty beginner',
+        '@custom:difficulty beginner\n' +
+          ' * @custom:dependencies @openzeppelin/confidential-contracts@^0.2.0, fhe-utils@1.0.0',
+      );
+      writeFile(rootDir, 'contracts/Adder.sol', contract);
+      writeFile(rootDir, 'test/Adder.test.ts', '');
+
+      expect(discoverExamples(rootDir).examples.adder.additionalDeps).to.deep.equal({
+        '@openzeppelin/confidential-contracts': '^0.2.0',
+        'fhe-utils': '1.0.0',
+      });
+    });
+
+    it('should read declared constructor arguments', () => {
+      const contract = ANNOTATED_CONTRACT.replace(
+        '@custom:difficulty beginner',
+        '@custom:difficulty beginner\n * @custom:deploy-args fee=1000n; owners=[deployer, deployer]',
+      );
+      writeFile(rootDir, 'contracts/Adder.sol', contract);
+      writeFile(rootDir, 'test/Adder.test.ts', '');
+
+      expect(discoverExamples(rootDir).examples.adder.deployArgs).to.deep.equal({
+        fee: '1000n',
+        owners: '[deployer, deployer]',
+      });
+    });
+
+    it('should report orphaned tests and contracts without metadata', () => {
+      writeFile(rootDir, 'contracts/Plain.sol', 'contract Plain {}\n');
+      writeFile(rootDir, 'contracts/Lib.sol', 'library Lib {}\n');
+      writeFile(rootDir, 'test/Lonely.test.ts', '');
+      writeFile(rootDir, 'test/scripts/tooling.test.ts', '');
+
+      const result = discoverExamples(rootDir);
+
+      expect(result.contractsWithoutMetadata).to.deep.equal(['contracts/Plain.sol']);
+      expect(result.orphanedTests).to.deep.equal(['test/Lonely.test.ts']);
+    });
+  });
+
+  describe('❌ Invalid Metadata', () => {
+    it('should report examples without a test or a valid difficulty', () => {
+      writeFile(rootDir, 'contracts/Adder.sol', ANNOTATED_CONTRACT.replace('beginner', 'expert'));
+
+      const result = discoverExamples(rootDir);
+
+      expect(result.examples).to.deep.equal({});
+      expect(result.errors).to.have.length(2);
+      expect(result.errors[0]).to.contain('@custom:difficulty');
+      expect(result.errors[1]).to.contain('has no test file');
+    });
+
+    it('should report dependencies without a version range', () => {
+      const contract = ANNOTATED_CONTRACT.replace('fhe-add', 'fhe-add\n * @custom:dependencies @scope/pkg');
+      writeFile(rootDir, 'contracts/Adder.sol', contract);
+      writeFile(rootDir, 'test/Adder.test.ts', '');
+
+      const result = discoverExamples(rootDir);
+
+      expect(result.examples).to.deep.equal({});
+      expect(result.errors).to.deep.equal([
+        'contracts/Adder.sol: example "adder" dependency "@scope/pkg" needs a version range, e.g. @scope/pkg@^1.0.0',
+      ]);
+    });
+  });
+});
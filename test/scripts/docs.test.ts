@@ -0,0 +1,87 @@
+/**
+ * Docs Generator - Test Suite
+ *
+ * Tests generateDocs output and SUMMARY.md updates
+ */
+
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildCostReport, writeCostReport } from '../../scripts/lib/costs';
+import { checkDocs, generateDocs } from '../../scripts/lib/docs';
+import { UnknownExampleError } from '../../scripts/lib/errors';
+import { EXAMPLES_MAP } from '../../scripts/lib/registry';
+
+describe('Docs Generator', () => {
+  let rootDir: string;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fhevm-docs-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  describe('✅ Pages', () => {
+    it('should write the page and list it once in SUMMARY.md', () => {
+      const result = generateDocs('fhe-add', { rootDir });
+
+      expect(result).to.deep.equal({ example: 'fhe-add', outputPath: 'docs/fhe-add.md', summaryUpdated: true });
+      const page = fs.readFileSync(path.join(rootDir, 'docs', 'fhe-add.md'), 'utf-8');
+      expect(page).to.contain('## Contract Overview');
+      expect(page).to.contain('{% tab title="FHEAdd.sol" %}');
+      expect(page).to.contain('## Permission Flow').and.contain('```mermaid\nflowchart LR');
+      expect(page).to.contain('## Walkthrough').and.contain('🔐 **Encrypt:**');
+      expect(page).to.contain('**Learning path:** step 2 of 4');
+      expect(page).to.contain('Next: [FHE Equality Comparison](fhe-eq.md)');
+      expect(fs.existsSync(path.join(rootDir, 'docs', 'learning-path.md'))).to.equal(true);
+
+      expect(generateDocs('fhe-add', { rootDir }).summaryUpdated).to.equal(false);
+      const summary = fs.readFileSync(path.join(rootDir, 'docs', 'SUMMARY.md'), 'utf-8');
+      expect(summary.match(/fhe-add\.md/g)).to.have.length(1);
+    });
+
+    it('should embed the costs stored under docs/costs', () => {
+      const contract = fs.readFileSync(path.join(__dirname, '..', '..', 'contracts', 'FHEAdd.sol'), 'utf-8');
+      const add = { contract: 'FHEAdd', method: 'add', signature: 'add(bytes32,bytes)' };
+      const gas = { methods: [{ ...add, min: 90000, max: 110000, avg: 100000, calls: 2 }], deployments: [] };
+      writeCostReport(rootDir, buildCostReport(EXAMPLES_MAP['fhe-add'], contract, gas));
+
+      generateDocs('fhe-add', { rootDir, noSummary: true });
+
+      const page = fs.readFileSync(path.join(rootDir, 'docs', 'fhe-add.md'), 'utf-8');
+      expect(page).to.contain('## Costs');
+      expect(page).to.contain('| `add` | `add`, `fromExternal` | 90,000 / 100,000 / 110,000 | 2 |');
+    });
+  });
+
+  describe('✅ Drift Check', () => {
+    it('should diff committed pages and SUMMARY.md against a fresh render', function () {
+      // Renders every page, the learning path and the catalog three times
+      this.timeout(20000);
+      generateDocs('fhe-add', { rootDir });
+      const pagePath = path.join(rootDir, 'docs', 'fhe-add.md');
+      expect(checkDocs({ rootDir }).stale.map(page => page.path)).not.to.include('docs/fhe-add.md');
+
+      fs.writeFileSync(pagePath, fs.readFileSync(pagePath, 'utf-8').replace('## Contract Overview', '## Overview'));
+      const result = checkDocs({ rootDir });
+
+      const stale = result.stale.find(page => page.path === 'docs/fhe-add.md');
+      expect(stale && stale.missing).to.equal(false);
+      expect(stale && stale.diff).to.contain('--- a/docs/fhe-add.md\n+++ b/docs/fhe-add.md\n');
+      expect(stale && stale.diff).to.contain('\n-## Overview\n+## Contract Overview\n');
+      expect(result.stale.find(page => page.path === 'docs/fhe-counter.md')).to.include({ missing: true });
+      expect(result.checked).to.include('docs/SUMMARY.md').and.include('docs/learning-path.md');
+      expect(result.stale.map(page => page.path)).not.to.include('docs/catalog.json');
+      expect(result.stale.map(page => page.path)).to.include('docs/SUMMARY.md');
+    });
+  });
+
+  describe('❌ Typed Errors', () => {
+    it('should reject unknown examples', () => {
+      expect(() => generateDocs('does-not-exist', { rootDir })).to.throw(UnknownExampleError);
+    });
+  });
+});
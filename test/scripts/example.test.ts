@@ -0,0 +1,117 @@
+/**
+ * Example Generator - Test Suite
+ *
+ * Tests createExample against the registered examples and the base template
+ */
+
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { OutputExistsError, UnknownExampleError, UpdateError } from '../../scripts/lib/errors';
+import { createExample } from '../../scripts/lib/example';
+import { EXAMPLES_MAP } from '../../scripts/lib/registry';
+import { MANIFEST_FILE } from '../../scripts/lib/update';
+
+describe('Example Generator', () => {
+  let rootDir: string;
+  let outputDir: string;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fhevm-example-'));
+    outputDir = path.join(rootDir, 'fhe-counter');
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  describe('✅ Generation', () => {
+    it('should replace the template sample with the example', async () => {
+      const result = await createExample('fhe-counter', outputDir);
+
+      expect(result).to.deep.include({ success: true, outputPath: outputDir, errors: [] });
+      expect(fs.existsSync(path.join(outputDir, 'hardhat.config.ts'))).to.equal(true);
+      expect(fs.existsSync(path.join(outputDir, 'contracts', 'FHECounter.sol'))).to.equal(true);
+      expect(fs.existsSync(path.join(outputDir, 'test', 'FHECounter.test.ts'))).to.equal(true);
+      expect(fs.existsSync(path.join(outputDir, 'contracts', 'Counter.sol'))).to.equal(false);
+      expect(fs.existsSync(path.join(outputDir, MANIFEST_FILE))).to.equal(true);
+
+      const packageJson = JSON.parse(fs.readFileSync(path.join(outputDir, 'package.json'), 'utf-8'));
+      expect(packageJson.name).to.equal('fhevm-example-fhe-counter');
+      expect(packageJson.devDependencies).to.have.property('hardhat');
+    });
+
+    it('should update an existing output in place', async () => {
+      await createExample('fhe-counter', outputDir);
+      fs.appendFileSync(path.join(outputDir, 'README.md'), '\nLocal notes\n');
+
+      const result = await createExample('fhe-counter', outputDir, { update: true });
+
+      expect(result.success).to.equal(true);
+      expect(result.update).to.deep.include({ kept: ['README.md'], conflicts: [] });
+    });
+
+    it('should copy test helpers beside the flattened test and rewrite its relative imports', async () => {
+      // A test nested one level deeper than the generated one, with a helper next to it
+      EXAMPLES_MAP['fhe-add-nested'] = {
+        ...EXAMPLES_MAP['fhe-add'],
+        name: 'fhe-add-nested',
+        testFile: 'test/scripts/search.test.ts',
+        additionalFiles: ['test/scripts/discovery.test.ts'],
+      };
+      try {
+        await createExample('fhe-add-nested', outputDir);
+      } finally {
+        delete EXAMPLES_MAP['fhe-add-nested'];
+      }
+
+      expect(fs.existsSync(path.join(outputDir, 'test', 'discovery.test.ts'))).to.equal(true);
+      expect(fs.readFileSync(path.join(outputDir, 'test', 'search.test.ts'), 'utf-8')).to.contain(
+        "} from '../scripts/lib/search';",
+      );
+    });
+  });
+
+  describe('❌ Typed Errors', () => {
+    it('should reject unknown examples', async () => {
+      const err = await createExample('does-not-exist', outputDir).catch(e => e);
+
+      expect(err).to.be.instanceOf(UnknownExampleError);
+      expect(err.available).to.include('fhe-counter');
+    });
+
+    it('should refuse to update again until the conflicts of the last update are resolved', async () => {
+      await createExample('fhe-counter', outputDir);
+      const readmePath = path.join(outputDir, 'README.md');
+      const manifestPath = path.join(outputDir, MANIFEST_FILE);
+      const generated = fs.readFileSync(readmePath, 'utf-8');
+      // Upstream and the user both changed the first line since the recorded generation
+      const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+      manifest.files['README.md'] = generated.replace(/^.*/, '# Old title');
+      fs.writeFileSync(manifestPath, JSON.stringify(manifest));
+      fs.writeFileSync(readmePath, generated.replace(/^.*/, '# My title'));
+
+      const result = await createExample('fhe-counter', outputDir, { update: true });
+      expect(result.success).to.equal(false);
+      expect(result.errors).to.deep.equal(['Conflict: README.md']);
+      expect(JSON.parse(fs.readFileSync(manifestPath, 'utf-8')).conflicts).to.deep.equal(['README.md']);
+
+      const err = await createExample('fhe-counter', outputDir, { update: true }).catch(e => e);
+      expect(err).to.be.instanceOf(UpdateError);
+      expect(err.message).to.contain('resolve the conflicts the last update left in README.md first');
+
+      fs.writeFileSync(readmePath, generated.replace(/^.*/, '# My title'));
+      expect((await createExample('fhe-counter', outputDir, { update: true })).success).to.equal(true);
+    });
+
+    it('should refuse an existing output unless updating a generated one', async () => {
+      fs.mkdirSync(outputDir);
+
+      expect(await createExample('fhe-counter', outputDir).catch(e => e)).to.be.instanceOf(OutputExistsError);
+      expect(await createExample('fhe-counter', outputDir, { update: true }).catch(e => e)).to.be.instanceOf(
+        UpdateError,
+      );
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Import Resolution - Test Suite
+ *
+ * Tests the import graph used to scaffold standalone examples
+ */
+
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  copyImportGraph,
+  getPackageName,
+  resolveImportGraph,
+  resolvePackageVersions,
+} from '../../scripts/lib/imports';
+
+function writeFile(rootDir: string, relativePath: string, content: string): void {
+  const filePath = path.join(rootDir, relativePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+}
+
+describe('Import Resolution', () => {
+  let rootDir: string;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fhevm-imports-'));
+    writeFile(
+      rootDir,
+      'contracts/tokens/Vault.sol',
+      [
+        'import { FHE } from "@fhevm/solidity/lib/FHE.sol";',
+        'import "@openzeppelin/confidential-contracts/token/ERC7984.sol";',
+        'import { Math } from "../lib/Math.sol";',
+        'import { IVault } from "./IVault.sol";',
+        'contract Vault {}',
+      ].join('\n'),
+    );
+    writeFile(rootDir, 'contracts/tokens/IVault.sol', 'import { Math } from "../lib/Math.sol";\ninterface IVault {}');
+    writeFile(rootDir, 'contracts/lib/Math.sol', 'import "solmate/utils/FixedPointMathLib.sol";\nlibrary Math {}');
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  describe('✅ Graph Resolution', () => {
+    it('should collect local files transitively and packages once', () => {
+      const graph = resolveImportGraph(path.join(rootDir, 'contracts/tokens/Vault.sol'));
+
+      expect(graph.localFiles.map(file => path.relative(rootDir, file))).to.deep.equal([
+        path.join('contracts', 'tokens', 'Vault.sol'),
+        path.join('contracts', 'lib', 'Math.sol'),
+        path.join('contracts', 'tokens', 'IVault.sol'),
+      ]);
+      expect(graph.packages).to.deep.equal(['@fhevm/solidity', '@openzeppelin/confidential-contracts', 'solmate']);
+      expect(graph.missing).to.deep.equal([]);
+    });
+
+    it('should report missing local imports', () => {
+      writeFile(rootDir, 'contracts/Broken.sol', 'import "./Nowhere.sol";\ncontract Broken {}');
+
+      const graph = resolveImportGraph(path.join(rootDir, 'contracts/Broken.sol'));
+
+      expect(graph.missing).to.deep.equal(['Broken.sol: ./Nowhere.sol']);
+    });
+
+    it('should derive package names from import paths', () => {
+      expect(getPackageName('@fhevm/solidity/lib/FHE.sol')).to.equal('@fhevm/solidity');
+      expect(getPackageName('fhevm/lib/TFHE.sol')).to.equal('fhevm');
+      expect(getPackageName('./Local.sol')).to.equal(null);
+    });
+  });
+
+  describe('✅ Copying', () => {
+    it('should keep the layout relative to the shared directory', () => {
+      const outputDir = path.join(rootDir, 'output');
+      const graph = resolveImportGraph(path.join(rootDir, 'contracts/tokens/Vault.sol'));
+
+      const copied = copyImportGraph(graph, outputDir);
+
+      expect(copied).to.deep.equal(['tokens/Vault.sol', 'lib/Math.sol', 'tokens/IVault.sol']);
+      expect(fs.existsSync(path.join(outputDir, 'lib', 'Math.sol'))).to.equal(true);
+    });
+
+    it('should resolve versions from declared and known packages, never pinning unknown ones', () => {
+      const result = resolvePackageVersions(['@fhevm/solidity', '@openzeppelin/contracts', 'solmate'], {
+        '@fhevm/solidity': '^0.9.0',
+      });
+
+      expect(result.dependencies).to.deep.equal({
+        '@fhevm/solidity': '^0.9.0',
+        '@openzeppelin/contracts': '^5.1.0',
+      });
+      expect(result.unknown).to.deep.equal(['solmate']);
+    });
+  });
+});
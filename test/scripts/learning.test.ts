@@ -0,0 +1,121 @@
+/**
+ * Learning Path - Test Suite
+ *
+ * Tests prerequisite ordering, chapter grouping, error reporting and the curriculum and navigation blocks
+ */
+
+import { expect } from 'chai';
+import { LearningPathError } from '../../scripts/lib/errors';
+import {
+  buildCurriculumPage,
+  buildLearningPath,
+  buildNavigation,
+  findLearningStep,
+} from '../../scripts/lib/learning';
+import { Difficulty, ExampleConfig } from '../../scripts/lib/registry';
+import { renderPage } from '../../scripts/lib/renderers';
+
+function example(
+  name: string,
+  difficulty: Difficulty,
+  chapter: string,
+  prerequisites: string[] = [],
+): ExampleConfig {
+  return {
+    name,
+    title: name.toUpperCase(),
+    description: '',
+    category: 'basic',
+    contractFile: `contracts/${name}.sol`,
+    testFile: `test/${name}.test.ts`,
+    difficulty,
+    concepts: [],
+    tags: [],
+    chapter,
+    prerequisites,
+    learningObjectives: [`Learn ${name}`],
+  };
+}
+
+function examples(...configs: ExampleConfig[]): Record<string, ExampleConfig> {
+  return Object.fromEntries(configs.map(config => [config.name, config]));
+}
+
+const EXAMPLES = examples(
+  example('vote', 'advanced', 'Apps', ['compare', 'counter']),
+  example('compare', 'intermediate', 'Basics', ['counter']),
+  example('counter', 'beginner', 'Basics'),
+  example('add', 'beginner', 'Arithmetic', ['counter']),
+);
+
+describe('Learning Path', () => {
+  describe('✅ Ordering', () => {
+    it('should put prerequisites first and keep chapters together', () => {
+      const path = buildLearningPath(EXAMPLES);
+
+      expect(path.steps.map(step => step.example.name)).to.deep.equal(['counter', 'compare', 'add', 'vote']);
+      expect(path.chapters.map(chapter => chapter.title)).to.deep.equal(['Basics', 'Arithmetic', 'Apps']);
+      expect(path.steps.map(step => step.position)).to.deep.equal([1, 2, 3, 4]);
+    });
+
+    it('should link each step to its neighbours', () => {
+      const path = buildLearningPath(EXAMPLES);
+      const step = findLearningStep(path, 'compare');
+
+      expect(step && step.previous && step.previous.name).to.equal('counter');
+      expect(step && step.next && step.next.name).to.equal('add');
+      expect(findLearningStep(path, 'counter')?.previous).to.equal(undefined);
+      expect(findLearningStep(path, 'missing')).to.equal(undefined);
+    });
+
+    it('should order the registry examples', () => {
+      const path = buildLearningPath();
+      expect(path.steps[0].example.name).to.equal('fhe-counter');
+    });
+  });
+
+  describe('✅ Documents', () => {
+    it('should render a chapter table with what each example builds on', () => {
+      const page = renderPage(buildCurriculumPage(buildLearningPath(EXAMPLES)), 'gitbook');
+
+      expect(page).to.contain('## Chapter 1: Basics');
+      expect(page).to.contain('| 2 | [COMPARE](compare.md) | intermediate | [COUNTER](counter.md) |');
+      expect(page).to.contain('- Learn compare');
+      expect(page.indexOf('## Chapter 2: Arithmetic')).to.be.lessThan(page.indexOf('## Chapter 3: Apps'));
+    });
+
+    it('should link the previous and next pages and the chapter', () => {
+      const path = buildLearningPath(EXAMPLES);
+      const blocks = buildNavigation(path, path.steps[1], '.mdx');
+      const page = renderPage({ slug: 'compare', title: 'Compare', description: '', blocks }, 'gitbook');
+
+      expect(page).to.contain('**Learning path:** step 2 of 4, [Basics](learning-path.mdx#chapter-1-basics)');
+      expect(page).to.contain('← Previous: [COUNTER](counter.mdx) · Next: [ADD](add.mdx) →');
+    });
+  });
+
+  describe('❌ Error Handling', () => {
+    it('should report unknown prerequisites', () => {
+      const broken = examples(example('counter', 'beginner', 'Basics', ['setup']));
+      expect(() => buildLearningPath(broken)).to.throw(LearningPathError, '"counter" has unknown prerequisite "setup"');
+    });
+
+    it('should report a cycle with its members', () => {
+      const cyclic = examples(
+        example('a', 'beginner', 'Basics', ['b']),
+        example('b', 'beginner', 'Basics', ['a']),
+        example('c', 'beginner', 'Basics'),
+      );
+      expect(() => buildLearningPath(cyclic)).to.throw(LearningPathError, 'Prerequisites form a cycle: a → b → a');
+    });
+
+    it('should report a chapter that needs an example from a later chapter', () => {
+      const split = examples(
+        example('a', 'beginner', 'One'),
+        example('b', 'beginner', 'Two', ['a']),
+        example('c', 'intermediate', 'One', ['b']),
+      );
+      expect(() => buildLearningPath(split)).to.throw(LearningPathError, '"c" (One) needs "b"');
+    });
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Three-Way Merge - Test Suite
+ *
+ * Tests line merging of local edits with regenerated files
+ */
+
+import { expect } from 'chai';
+import { mergeThreeWay } from '../../scripts/lib/merge';
+
+const BASE = ['pragma solidity ^0.8.24;', '', 'contract Counter {', '  uint32 count;', '}', ''].join('\n');
+
+describe('Three-Way Merge', () => {
+  describe('✅ Clean Merges', () => {
+    it('should take whichever side changed when only one did', () => {
+      const changed = BASE.replace('uint32', 'uint64');
+
+      expect(mergeThreeWay(BASE, BASE, changed)).to.deep.equal({ content: changed, conflicts: 0 });
+      expect(mergeThreeWay(BASE, changed, BASE)).to.deep.equal({ content: changed, conflicts: 0 });
+    });
+
+    it('should combine changes to different lines', () => {
+      const local = BASE.replace('}', '  // local note\n}');
+      const generated = BASE.replace('^0.8.24', '^0.8.27');
+
+      const result = mergeThreeWay(BASE, local, generated);
+
+      expect(result.conflicts).to.equal(0);
+      expect(result.content).to.equal(
+        ['pragma solidity ^0.8.27;', '', 'contract Counter {', '  uint32 count;', '  // local note', '}', ''].join('\n'),
+      );
+    });
+
+    it('should accept identical changes on both sides', () => {
+      const changed = BASE.replace('count', 'total');
+      expect(mergeThreeWay(BASE, changed, changed).conflicts).to.equal(0);
+    });
+  });
+
+  describe('❌ Conflicts', () => {
+    it('should mark overlapping changes with both versions', () => {
+      const result = mergeThreeWay(BASE, BASE.replace('count', 'local'), BASE.replace('count', 'generated'));
+
+      expect(result.conflicts).to.equal(1);
+      expect(result.content).to.contain(
+        ['<<<<<<< local', '  uint32 local;', '=======', '  uint32 generated;', '>>>>>>> generated'].join('\n'),
+      );
+    });
+
+    it('should keep CRLF line endings on the markers', () => {
+      const crlf = (text: string) => text.replace(/\n/g, '\r\n');
+      const result = mergeThreeWay(crlf(BASE), crlf(BASE.replace('count', 'a')), crlf(BASE.replace('count', 'b')));
+
+      expect(result.content).to.contain('<<<<<<< local\r\n');
+      expect(result.content.replace(/\r\n/g, '')).not.to.contain('\n');
+    });
+  });
+});
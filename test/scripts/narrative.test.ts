@@ -0,0 +1,93 @@
+/**
+ * Test Narrative - Test Suite
+ *
+ * Tests the describe/it walkthrough extracted from mocha test files
+ */
+
+import { expect } from 'chai';
+import { buildWalkthrough, parseTestNarrative } from '../../scripts/lib/narrative';
+import { renderPage } from '../../scripts/lib/renderers';
+
+const TEST_SOURCE = `import { expect } from 'chai';
+
+describe('Counter', () => {
+  let counter: any;
+
+  beforeEach(async () => {
+    counter = await deploy();
+  });
+
+  describe('Increment', () => {
+    it('should add an encrypted value', async () => {
+      const input = fhevm.createEncryptedInput(address, alice.address);
+      const encrypted = await input.add32(5).encrypt();
+      await counter.increment(encrypted.handles[0], encrypted.inputProof);
+
+      const count = await fhevm.userDecryptEuint(FhevmType.euint32, await counter.getCount(), address, alice);
+      expect(count).to.equal(5);
+    });
+
+    // docs:exclude - gas numbers change with every compiler release
+    it('should stay under the gas budget', async () => {
+      expect(await counter.estimateGas.increment()).to.be.lessThan(100000);
+    });
+  });
+
+  // docs:exclude
+  describe('Internals', () => {
+    it('should not be documented', () => {});
+  });
+});
+`;
+
+describe('Test Narrative', () => {
+  describe('✅ Parsing', () => {
+    it('should keep the describe/it tree, setup hooks and test bodies', () => {
+      const [counter] = parseTestNarrative(TEST_SOURCE).suites;
+
+      expect(counter.title).to.equal('Counter');
+      expect(counter.setup).to.deep.equal(['counter = await deploy();']);
+      expect(counter.suites.map(suite => suite.title)).to.deep.equal(['Increment']);
+
+      const [test] = counter.suites[0].tests;
+      expect(test.title).to.equal('should add an encrypted value');
+      expect(test.code.split('\n')[0]).to.equal('const input = fhevm.createEncryptedInput(address, alice.address);');
+    });
+
+    it('should list each encryption and decryption step once', () => {
+      const [test] = parseTestNarrative(TEST_SOURCE).suites[0].suites[0].tests;
+
+      expect(test.steps.map(step => [step.kind, step.call])).to.deep.equal([
+        ['encrypt', 'createEncryptedInput'],
+        ['encrypt', 'encrypt'],
+        ['decrypt', 'userDecryptEuint'],
+      ]);
+      expect(test.steps[1].code).to.equal('const encrypted = await input.add32(5).encrypt();');
+    });
+
+    it('should skip tests and suites marked docs:exclude', () => {
+      const [counter] = parseTestNarrative(TEST_SOURCE).suites;
+
+      expect(counter.suites[0].tests).to.have.length(1);
+      expect(counter.suites.map(suite => suite.title)).not.to.include('Internals');
+    });
+  });
+
+  describe('✅ Walkthrough', () => {
+    it('should title a section per test and call out its steps', () => {
+      const blocks = buildWalkthrough(parseTestNarrative(TEST_SOURCE));
+      const page = renderPage({ slug: 'counter', title: 'Counter', description: '', blocks });
+
+      expect(page).to.match(/^## Walkthrough\n/);
+      expect(page).to.contain('### Setup\n\n```typescript\ncounter = await deploy();\n```');
+      expect(page).to.contain('### Increment\n\n#### Should add an encrypted value\n\n{% hint style="info" %}');
+      expect(page).to.contain('- 🔐 **Encrypt:** `const encrypted = await input.add32(5).encrypt();`');
+      expect(page).to.contain('- 🔓 **Decrypt:** `const count = await fhevm.userDecryptEuint(');
+      expect(page).not.to.contain('gas budget').and.not.to.contain('Internals');
+    });
+
+    it('should produce nothing for a file without tests', () => {
+      expect(buildWalkthrough(parseTestNarrative('export const helper = 1;\n'))).to.deep.equal([]);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Permission Flow - Test Suite
+ *
+ * Tests the static analysis of FHE.allow* grants and the Mermaid diagrams drawn from it
+ */
+
+import { expect } from 'chai';
+import { analyzePermissions, renderPermissionDiagram } from '../../scripts/lib/permissions';
+import { SolidityParseError } from '../../scripts/lib/solidity';
+
+const AUDIT_SOURCE = `pragma solidity ^0.8.24;
+
+contract Audit {
+    struct Record {
+        euint32 score;
+        ebool passed;
+    }
+
+    mapping(uint32 => Record) public records;
+    euint32 private total;
+    address public auditor;
+
+    function submit(uint32 id, uint32 score) external {
+        euint32 encryptedScore = FHE.asEuint32(score);
+        ebool encryptedPassed = FHE.asEbool(score > 50);
+        records[id] = Record({ score: encryptedScore, passed: encryptedPassed });
+
+        FHE.allowThis(encryptedScore);
+        FHE.allow(encryptedScore, msg.sender);
+        FHE.allow(encryptedPassed, auditor);
+    }
+
+    function share(uint32 id, address to) external {
+        Record storage record = records[id];
+        FHE.allow(record.score, to);
+        FHE.allowTransient(total, address(this));
+    }
+
+    function count() external view returns (uint256) {
+        return 1;
+    }
+}
+`;
+
+describe('Permission Flow', () => {
+  describe('✅ Analysis', () => {
+    it('should list the grants of each function that makes any', () => {
+      const permissions = analyzePermissions(AUDIT_SOURCE);
+
+      expect(permissions.map(fn => fn.function)).to.deep.equal(['submit', 'share']);
+      expect(permissions[0].grants).to.deep.equal([
+        {
+          kind: 'allowThis',
+          value: 'Record.score',
+          expression: 'encryptedScore',
+          grantee: 'address(this)',
+          granteeKind: 'contract',
+        },
+        {
+          kind: 'allow',
+          value: 'Record.score',
+          expression: 'encryptedScore',
+          grantee: 'msg.sender',
+          granteeKind: 'sender',
+        },
+        {
+          kind: 'allow',
+          value: 'Record.passed',
+          expression: 'encryptedPassed',
+          grantee: 'auditor',
+          granteeKind: 'address',
+        },
+      ]);
+    });
+
+    it('should give a shared value the same name in every function', () => {
+      const [, share] = analyzePermissions(AUDIT_SOURCE);
+
+      expect(share.grants.map(grant => [grant.kind, grant.value, grant.grantee])).to.deep.equal([
+        ['allow', 'Record.score', 'to'],
+        ['allowTransient', 'total', 'address(this)'],
+      ]);
+    });
+  });
+
+  describe('✅ Diagrams', () => {
+    it('should draw values, grantees and dotted transient grants', () => {
+      const diagram = renderPermissionDiagram(analyzePermissions(AUDIT_SOURCE)[1]);
+
+      expect(diagram).to.equal(
+        [
+          'flowchart LR',
+          '  v0["🔐 Record.score<br/><small>record.score</small>"]',
+          '  g0(["🏷️ to"])',
+          '  v1["🔐 total"]',
+          '  g1(["📜 address(this)"])',
+          '  v0 -- allow --> g0',
+          '  v1 -. allowTransient .-> g1',
+          '',
+        ].join('\n'),
+      );
+    });
+  });
+
+  describe('❌ Error Handling', () => {
+    it('should throw a SolidityParseError for invalid source', () => {
+      expect(() => analyzePermissions('contract {', 'Broken.sol')).to.throw(SolidityParseError);
+    });
+  });
+});
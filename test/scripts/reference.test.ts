@@ -0,0 +1,116 @@
+/**
+ * API Reference - Test Suite
+ *
+ * Tests compiling a contract with solc-js and turning its ABI and NatSpec into a reference page
+ */
+
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { compileContract } from '../../scripts/lib/compiler';
+import { CompilationError } from '../../scripts/lib/errors';
+import { buildContractReference, isEncryptedHandle, renderContractReference } from '../../scripts/lib/reference';
+import { analyzeSolidity } from '../../scripts/lib/solidity';
+
+// Self-contained stand-ins for the FHE types so the test needs no npm packages
+const VAULT_SOURCE = `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+type euint32 is bytes32;
+type externalEuint32 is bytes32;
+
+/// @title Encrypted Vault
+/// @notice Stores one encrypted balance
+contract Vault {
+    euint32 private balance;
+
+    /// @notice Emitted after a deposit
+    /// @param user Depositor
+    event Deposited(address indexed user);
+
+    modifier onlyUser() { _; }
+
+    /// @notice Deposit an encrypted amount
+    /// @param amount Encrypted amount
+    /// @param proof Input proof
+    function deposit(externalEuint32 amount, bytes calldata proof) external onlyUser {
+        balance = euint32.wrap(externalEuint32.unwrap(amount));
+        emit Deposited(msg.sender);
+    }
+
+    /// @return The encrypted balance
+    function getBalance() external view returns (euint32) {
+        return balance;
+    }
+}
+`;
+
+describe('API Reference', () => {
+  let rootDir: string;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fhevm-reference-'));
+    fs.mkdirSync(path.join(rootDir, 'contracts'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  describe('✅ Encrypted Handles', () => {
+    it('should recognise encrypted and external input types', () => {
+      ['euint32', 'ebool', 'eaddress', 'externalEuint64', 'externalEbool', 'euint8[]'].forEach(type => {
+        expect(isEncryptedHandle(type), type).to.equal(true);
+      });
+      ['uint32', 'bytes32', 'bool', 'address', 'Escrow', 'bytes'].forEach(type => {
+        expect(isEncryptedHandle(type), type).to.equal(false);
+      });
+    });
+  });
+
+  describe('✅ Reference Model', () => {
+    it('should merge ABI, NatSpec, modifiers and emitted events', function () {
+      this.timeout(60000);
+      fs.writeFileSync(path.join(rootDir, 'contracts', 'Vault.sol'), VAULT_SOURCE);
+
+      const [compiled] = compileContract('contracts/Vault.sol', { rootDir });
+      const source = analyzeSolidity(VAULT_SOURCE).contracts[0];
+      const reference = buildContractReference(compiled, source);
+
+      expect(reference).to.include({ name: 'Vault', title: 'Encrypted Vault', notice: 'Stores one encrypted balance' });
+      const [deposit, getBalance] = reference.functions;
+      expect(deposit).to.deep.include({
+        signature: 'deposit(bytes32,bytes)',
+        declaration: 'function deposit(externalEuint32 amount, bytes proof) external',
+        notice: 'Deposit an encrypted amount',
+        modifiers: ['onlyUser'],
+        emits: ['Deposited'],
+      });
+      expect(deposit.parameters.map(p => [p.name, p.encrypted, p.description])).to.deep.equal([
+        ['amount', true, 'Encrypted amount'],
+        ['proof', false, 'Input proof'],
+      ]);
+      expect(getBalance.returns[0]).to.include({
+        type: 'euint32',
+        encrypted: true,
+        description: 'The encrypted balance',
+      });
+      expect(reference.events[0]).to.include({ declaration: 'event Deposited(address indexed user)' });
+
+      const page = renderContractReference(reference);
+      expect(page).to.contain('# Vault API Reference');
+      expect(page).to.contain('| `amount` | `externalEuint32` 🔐 | Encrypted amount |');
+      expect(page).to.contain('**Emits:** [`Deposited`](#deposited)');
+    });
+  });
+
+  describe('❌ Compilation Errors', () => {
+    it('should report solc errors', function () {
+      this.timeout(60000);
+      fs.writeFileSync(path.join(rootDir, 'contracts', 'Broken.sol'), 'pragma solidity ^0.8.24;\ncontract Broken {');
+
+      expect(() => compileContract('contracts/Broken.sol', { rootDir })).to.throw(CompilationError, 'ParserError');
+    });
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Example Registry - Test Suite
+ *
+ * Tests the shared registry used by the scaffolding and docs scripts
+ */
+
+import { expect } from 'chai';
+import {
+  CATEGORIES,
+  EXAMPLES_MAP,
+  buildCategories,
+  getExamplesByCategory,
+  searchExamples,
+  validateRegistry,
+} from '../../scripts/lib/registry';
+
+describe('Example Registry', () => {
+  describe('✅ Committed Registry', () => {
+    it('should reference only existing files and names', () => {
+      expect(validateRegistry()).to.deep.equal([]);
+    });
+
+    it('should list every example in its category', () => {
+      Object.values(EXAMPLES_MAP).forEach(example => {
+        expect(CATEGORIES[example.category].examples).to.include(example.name);
+      });
+    });
+
+    it('should resolve category members and search results', () => {
+      expect(getExamplesByCategory('basic').map(ex => ex.name)).to.include('fhe-counter');
+      expect(searchExamples('COMPLIANCE').map(ex => ex.name)).to.deep.equal(['privacy-compliance-audit']);
+    });
+  });
+
+  describe('✅ Derived Categories', () => {
+    it('should create a category for every @custom:category tag', () => {
+      const categories = buildCategories({
+        'fhe-add': EXAMPLES_MAP['fhe-add'],
+        audit: { ...EXAMPLES_MAP['privacy-compliance-audit'], name: 'audit', category: 'access-control' },
+      });
+
+      expect(categories['access-control']).to.deep.equal({
+        name: 'access-control',
+        title: 'Access Control',
+        description: 'FHEVM examples in the Access Control category',
+        examples: ['audit'],
+        difficulty: 'advanced',
+      });
+      expect(categories.basic.examples).to.deep.equal(['fhe-add']);
+    });
+
+    it('should take titles and difficulties from the category definitions', () => {
+      const categories = buildCategories(
+        { 'fhe-add': EXAMPLES_MAP['fhe-add'] },
+        { basic: { title: 'Basics', difficulty: 'intermediate' } },
+      );
+
+      expect(categories.basic.title).to.equal('Basics');
+      expect(categories.basic.difficulty).to.equal('intermediate');
+    });
+  });
+
+  describe('❌ Validation Errors', () => {
+    it('should report missing files, unknown categories and prerequisites', () => {
+      const problems = validateRegistry(
+        {
+          broken: {
+            ...EXAMPLES_MAP['fhe-add'],
+            name: 'broken',
+            category: 'nowhere',
+            contractFile: 'contracts/DoesNotExist.sol',
+            prerequisites: ['missing-example'],
+            fixedBy: 'missing-fix',
+          },
+        },
+        {},
+      );
+
+      expect(problems).to.deep.equal([
+        'Example "broken" references a missing file: contracts/DoesNotExist.sol',
+        'Example "broken" belongs to unknown category "nowhere"',
+        'Example "broken" has unknown prerequisite "missing-example"',
+        'Example "broken" is fixed by unknown example "missing-fix"',
+      ]);
+    });
+
+    it('should report category members that do not exist', () => {
+      const problems = validateRegistry({}, { basic: { ...CATEGORIES.basic, examples: ['ghost'] } });
+
+      expect(problems).to.deep.equal(['Category "basic" lists unknown example "ghost"']);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Docs Renderers - Test Suite
+ *
+ * Tests that one DocPage renders to every docs target and that the HTML site index is searchable
+ */
+
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { DocPage } from '../../scripts/lib/document';
+import { GeneratorError } from '../../scripts/lib/errors';
+import { getRenderer, renderPage, writeSiteIndex } from '../../scripts/lib/renderers';
+
+const PAGE: DocPage = {
+  slug: 'fhe-counter',
+  title: 'FHE Counter',
+  description: 'An encrypted counter',
+  blocks: [
+    { type: 'heading', level: 1, text: 'FHE Counter' },
+    { type: 'paragraph', text: 'Counts with `euint32` handles, see [the API](api/FHECounter.md) and {braces}.' },
+    { type: 'hint', style: 'warning', blocks: [{ type: 'paragraph', text: 'Grant `FHE.allowThis` first.' }] },
+    {
+      type: 'tabs',
+      tabs: [
+        { title: 'FHECounter.sol', blocks: [{ type: 'code', language: 'solidity', code: 'contract FHECounter {}\n' }] },
+        { title: 'FHECounter.ts', blocks: [{ type: 'code', language: 'typescript', code: 'it("counts");\n' }] },
+      ],
+    },
+  ],
+};
+
+describe('Docs Renderers', () => {
+  describe('✅ Markdown Targets', () => {
+    it('should render GitBook hints and tabs', () => {
+      const page = renderPage(PAGE, 'gitbook');
+
+      expect(page).to.contain('{% hint style="warning" %}\nGrant `FHE.allowThis` first.\n{% endhint %}');
+      expect(page).to.contain('{% tab title="FHECounter.sol" %}\n\n```solidity\ncontract FHECounter {}\n```');
+      expect(page).to.contain('{% endtabs %}');
+    });
+
+    it('should escape GitBook tab titles', () => {
+      const tabs: DocPage = {
+        ...PAGE,
+        blocks: [{ type: 'tabs', tabs: [{ title: 'The "main" %} tab', blocks: [] }] }],
+      };
+
+      expect(renderPage(tabs, 'gitbook')).to.contain('{% tab title="The &quot;main&quot; %&#125; tab" %}');
+    });
+
+    it('should render GitHub alerts and collapsible tabs', () => {
+      const page = renderPage(PAGE, 'gfm');
+
+      expect(page).to.contain('> [!WARNING]\n> Grant `FHE.allowThis` first.');
+      expect(page).to.contain('<details open>\n<summary>FHECounter.sol</summary>');
+      expect(page).not.to.contain('{%');
+    });
+
+    it('should render Docusaurus MDX with escaped braces and Tabs components', () => {
+      const page = renderPage(PAGE, 'docusaurus');
+
+      expect(page).to.match(/^---\nsidebar_label: "FHE Counter"\ndescription: "An encrypted counter"\n---\n/);
+      expect(page).to.contain("import Tabs from '@theme/Tabs';");
+      expect(page).to.contain('and \\{braces\\}.').and.contain('`euint32`');
+      expect(page).to.contain(':::warning');
+      expect(page).to.contain('<TabItem value="fhecounter-sol" label="FHECounter.sol">');
+      expect(page).to.contain('contract FHECounter {}');
+    });
+  });
+
+  describe('✅ HTML Site', () => {
+    let siteDir: string;
+
+    beforeEach(() => {
+      siteDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fhevm-site-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(siteDir, { recursive: true, force: true });
+    });
+
+    it('should render a standalone page with links pointing at HTML pages', () => {
+      const page = renderPage(PAGE, 'html');
+
+      expect(page).to.match(/^<!DOCTYPE html>/);
+      expect(page).to.contain('<a href="api/FHECounter.html">the API</a>');
+      expect(page).to.contain('<code>euint32</code>');
+      expect(page).to.contain('<aside class="hint hint-warning">');
+      expect(page).to.contain('<nav><a href="index.html">');
+    });
+
+    it('should index every page with its text for search', () => {
+      fs.mkdirSync(path.join(siteDir, 'api'));
+      fs.writeFileSync(path.join(siteDir, 'fhe-counter.html'), renderPage(PAGE, 'html'));
+      const apiPage: DocPage = { slug: 'api/FHECounter', title: 'FHECounter API Reference', description: '', blocks: [] };
+      fs.writeFileSync(path.join(siteDir, 'api', 'FHECounter.html'), renderPage(apiPage, 'html'));
+
+      const index = fs.readFileSync(writeSiteIndex(siteDir), 'utf-8');
+
+      expect(index).to.contain('<input id="search"');
+      expect(index).to.contain('<li><a href="api/FHECounter.html">FHECounter API Reference</a>');
+      expect(index).to.contain('"href":"fhe-counter.html"').and.contain('Grant FHE.allowThis first.');
+      expect(index).to.contain('<script src="search.js"></script>');
+      expect(fs.existsSync(path.join(siteDir, 'search.js'))).to.equal(true);
+      expect(fs.readFileSync(path.join(siteDir, 'api', 'FHECounter.html'), 'utf-8')).to.contain('href="../index.html"');
+    });
+  });
+
+  describe('❌ Typed Errors', () => {
+    it('should reject unknown formats', () => {
+      expect(() => getRenderer('latex')).to.throw(GeneratorError, 'Unknown docs format: latex');
+    });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Fuzzy Search - Test Suite
+ *
+ * Tests tokenizing, index building and ranked exact, prefix and typo matches
+ */
+
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as path from 'path';
+import { buildSearchIndex, editDistance, SearchDocument, searchIndex, tokenize } from '../../scripts/lib/search';
+
+const DOCUMENTS: SearchDocument[] = [
+  { id: 'counter', fields: { title: 'FHE Counter', tags: ['permissions', 'arithmetic'] } },
+  { id: 'audit', fields: { title: 'Compliance Audit', description: 'Grants permissions to auditors' } },
+  { id: 'eq', fields: { title: 'FHE Equality', description: 'Compares encrypted values with FHE.eq' } },
+];
+
+const INDEX = buildSearchIndex(DOCUMENTS, { title: 5, tags: 3, description: 1 });
+
+describe('Fuzzy Search', () => {
+  describe('✅ Terms', () => {
+    it('should lowercase words and split camelCase without duplicates', () => {
+      expect(tokenize('FHE.allowThis and allowThis, a x')).to.deep.equal(['fhe', 'allowthis', 'allow', 'this', 'and']);
+    });
+
+    it('should give up once the edit distance exceeds the maximum', () => {
+      expect(editDistance('permision', 'permission', 2)).to.equal(1);
+      expect(editDistance('counter', 'audit', 1)).to.equal(2);
+    });
+  });
+
+  describe('✅ Index', () => {
+    it('should weight each term by the fields it appears in', () => {
+      expect(INDEX.ids).to.deep.equal(['counter', 'audit', 'eq']);
+      expect(INDEX.terms.permissions).to.deep.equal([
+        [0, 3],
+        [1, 1],
+      ]);
+      expect(Object.keys(INDEX.terms)).to.deep.equal([...Object.keys(INDEX.terms)].sort());
+    });
+  });
+
+  describe('✅ Ranking', () => {
+    it('should rank documents by the weight of the fields that matched', () => {
+      expect(searchIndex(INDEX, 'permissions').map(hit => [hit.id, hit.score])).to.deep.equal([
+        ['counter', 3],
+        ['audit', 1],
+      ]);
+    });
+
+    it('should match prefixes and typos below exact matches', () => {
+      expect(searchIndex(INDEX, 'compl').map(hit => [hit.id, hit.score])).to.deep.equal([['audit', 3.75]]);
+      expect(searchIndex(INDEX, 'permisions').map(hit => [hit.id, hit.score, hit.terms])).to.deep.equal([
+        ['counter', 1.5, ['permissions']],
+        ['audit', 0.5, ['permissions']],
+      ]);
+    });
+
+    it('should require every query word and honour the limit', () => {
+      expect(searchIndex(INDEX, 'fhe permissions').map(hit => hit.id)).to.deep.equal(['counter']);
+      expect(searchIndex(INDEX, 'fhe', 1).map(hit => hit.id)).to.deep.equal(['eq']);
+      expect(searchIndex(INDEX, '  ')).to.deep.equal([]);
+    });
+  });
+
+  describe('✅ Browser Script', () => {
+    it('should rank like searchIndex in the static site script', () => {
+      const source = fs.readFileSync(path.join(__dirname, '../../scripts/lib/assets/search.js'), 'utf-8');
+      const run = new Function('index', 'query', `${source}\nreturn searchIndex(index, query);`);
+      ['permision', 'fhe', 'compl audit', 'allowThis', 'nothing'].forEach(query => {
+        expect(run(INDEX, query)).to.deep.equal(searchIndex(INDEX, query));
+      });
+    });
+  });
+});
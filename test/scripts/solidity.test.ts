@@ -0,0 +1,103 @@
+/**
+ * Solidity Analyzer - Test Suite
+ *
+ * Tests the AST-based contract model used by the scaffolding and docs scripts
+ */
+
+import { expect } from 'chai';
+import { analyzeSolidity, findMainContract, SolidityParseError } from '../../scripts/lib/solidity';
+
+const MULTI_CONTRACT_SOURCE = `pragma solidity ^0.8.24;
+
+import { FHE, euint32, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import "./helpers/Math.sol";
+
+interface ICounter {
+    function increment(externalEuint32 value, bytes calldata proof) external;
+}
+
+library CounterMath {
+    function double(uint32 x) internal pure returns (uint32) { return x * 2; }
+}
+
+abstract contract Owned {
+    address public owner;
+    modifier onlyOwner() { _; }
+}
+
+contract Counter is Owned, ICounter {
+    event Incremented(address indexed user, uint256 count);
+
+    constructor(ICounter previous, uint32 start) {}
+
+    function increment(externalEuint32 value, bytes calldata proof) external onlyOwner {
+        emit Incremented(msg.sender, 1);
+    }
+    function count() public view returns (uint256 total) {}
+    function _internal() internal {}
+}
+`;
+
+describe('Solidity Analyzer', () => {
+  describe('✅ File Model', () => {
+    it('should list every declaration with its kind and inheritance', () => {
+      const file = analyzeSolidity(MULTI_CONTRACT_SOURCE, 'contracts/Example.sol');
+
+      expect(file.pragma).to.equal('^0.8.24');
+      expect(file.contracts.map(c => [c.name, c.kind])).to.deep.equal([
+        ['ICounter', 'interface'],
+        ['CounterMath', 'library'],
+        ['Owned', 'abstract'],
+        ['Counter', 'contract'],
+      ]);
+      expect(file.contracts[3].baseContracts).to.deep.equal(['Owned', 'ICounter']);
+    });
+
+    it('should record imports with their symbols', () => {
+      const file = analyzeSolidity(MULTI_CONTRACT_SOURCE);
+
+      expect(file.imports).to.deep.equal([
+        { path: '@fhevm/solidity/lib/FHE.sol', symbols: ['FHE', 'euint32', 'externalEuint32'], unitAlias: null },
+        { path: './helpers/Math.sol', symbols: [], unitAlias: null },
+      ]);
+    });
+
+    it('should describe public and external functions and events', () => {
+      const counter = analyzeSolidity(MULTI_CONTRACT_SOURCE).contracts[3];
+
+      expect(counter.functions.map(fn => fn.signature)).to.deep.equal(['increment(externalEuint32,bytes)', 'count()']);
+      expect(counter.functions[0].modifiers).to.deep.equal(['onlyOwner']);
+      expect(counter.functions[0].emits).to.deep.equal(['Incremented']);
+      expect(counter.functions[1].stateMutability).to.equal('view');
+      expect(counter.functions[1].returns[0]).to.include({ name: 'total', type: 'uint256' });
+      expect(counter.events[0].parameters[0]).to.include({ name: 'user', indexed: true });
+    });
+
+    it('should keep constructor parameters apart from the functions', () => {
+      const [, , owned, counter] = analyzeSolidity(MULTI_CONTRACT_SOURCE).contracts;
+
+      expect(counter.constructorParameters.map(p => [p.name, p.type])).to.deep.equal([
+        ['previous', 'ICounter'],
+        ['start', 'uint32'],
+      ]);
+      expect(owned.constructorParameters).to.deep.equal([]);
+    });
+  });
+
+  describe('✅ Main Contract', () => {
+    it('should skip interfaces, libraries and abstract contracts', () => {
+      expect(findMainContract(analyzeSolidity(MULTI_CONTRACT_SOURCE, 'contracts/Example.sol'))?.name).to.equal('Counter');
+    });
+
+    it('should prefer the contract named after the file', () => {
+      const source = 'contract Helper {}\ncontract Vault {}\ncontract Other {}\n';
+      expect(findMainContract(analyzeSolidity(source, 'contracts/Vault.sol'))?.name).to.equal('Vault');
+    });
+  });
+
+  describe('❌ Error Handling', () => {
+    it('should throw a SolidityParseError for invalid source', () => {
+      expect(() => analyzeSolidity('contract {', 'contracts/Broken.sol')).to.throw(SolidityParseError, 'Broken.sol');
+    });
+  });
+});
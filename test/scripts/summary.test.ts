@@ -0,0 +1,130 @@
+/**
+ * SUMMARY.md Rebuild - Test Suite
+ *
+ * Tests deterministic ordering, preserved manual sections and the up-to-date check
+ */
+
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SummaryFormatError } from '../../scripts/lib/errors';
+import { Difficulty, ExampleConfig } from '../../scripts/lib/registry';
+import { checkSummary, renderSummary, updateSummary } from '../../scripts/lib/summary';
+
+function example(name: string, title: string, difficulty: Difficulty, category: string = 'basic'): ExampleConfig {
+  return {
+    name,
+    title,
+    description: '',
+    category,
+    contractFile: `contracts/${name}.sol`,
+    testFile: `test/${name}.test.ts`,
+    difficulty,
+    concepts: [],
+    tags: [],
+  };
+}
+
+const EXAMPLES = [
+  example('audit', 'Audit', 'advanced', 'compliance'),
+  example('sub', 'FHE Sub', 'intermediate'),
+  example('counter', 'FHE Counter', 'beginner'),
+  example('add', 'FHE Add', 'beginner'),
+  example('extra', 'Extra', 'beginner', 'zz-custom'),
+];
+
+describe('SUMMARY.md Rebuild', () => {
+  describe('✅ Rendering', () => {
+    it('should group by category in registry order and sort by difficulty, then title', () => {
+      expect(renderSummary(EXAMPLES)).to.equal(
+        [
+          '# Summary',
+          '',
+          '<!-- summary:generated:start -->',
+          '## Basic Operations',
+          '',
+          '- [FHE Add](add.md)',
+          '- [FHE Counter](counter.md)',
+          '- [FHE Sub](sub.md)',
+          '',
+          '## Privacy Compliance',
+          '',
+          '- [Audit](audit.md)',
+          '',
+          '## zz-custom',
+          '',
+          '- [Extra](extra.md)',
+          '<!-- summary:generated:end -->',
+          '',
+        ].join('\n'),
+      );
+    });
+
+    it('should keep the title and guarded sections above and below the list and drop everything else', () => {
+      const existing = [
+        '# Old Title',
+        '<!-- summary:manual:start -->',
+        '## Guides',
+        '- [Setup](setup.md)',
+        '<!-- summary:manual:end -->',
+        '- [Stale](removed-example.md)',
+        '<!-- summary:generated:start -->',
+        '<!-- summary:generated:end -->',
+        '<!-- summary:manual:start -->',
+        '## Appendix',
+        '<!-- summary:manual:end -->',
+      ].join('\r\n');
+
+      const summary = renderSummary([EXAMPLES[3]], existing);
+
+      expect(summary.startsWith('# Old Title\n\n<!-- summary:manual:start -->')).to.equal(true);
+      expect(summary).to.not.contain('removed-example.md');
+      expect(summary.indexOf('## Guides')).to.be.lessThan(summary.indexOf('- [FHE Add](add.md)'));
+      expect(summary.indexOf('## Appendix')).to.be.greaterThan(summary.indexOf('- [FHE Add](add.md)'));
+      expect(renderSummary([EXAMPLES[3]], summary)).to.equal(summary);
+    });
+  });
+
+  describe('✅ File', () => {
+    let rootDir: string;
+
+    beforeEach(() => {
+      rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fhevm-summary-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(rootDir, { recursive: true, force: true });
+    });
+
+    it('should only list pages that exist and report when the file is stale', () => {
+      fs.mkdirSync(path.join(rootDir, 'docs'));
+      fs.writeFileSync(path.join(rootDir, 'docs', 'fhe-counter.md'), '# FHE Counter\n');
+
+      expect(checkSummary(rootDir).upToDate).to.equal(false);
+      expect(updateSummary(rootDir)).to.equal(true);
+      expect(checkSummary(rootDir).upToDate).to.equal(true);
+      expect(updateSummary(rootDir)).to.equal(false);
+
+      const summary = fs.readFileSync(path.join(rootDir, 'docs', 'SUMMARY.md'), 'utf-8');
+      expect(summary).to.contain('(fhe-counter.md)').and.not.contain('(fhe-add.md)');
+    });
+
+    it('should keep CRLF line endings', () => {
+      fs.mkdirSync(path.join(rootDir, 'docs'));
+      fs.writeFileSync(path.join(rootDir, 'docs', 'SUMMARY.md'), '# Summary\r\n');
+
+      updateSummary(rootDir);
+
+      expect(fs.readFileSync(path.join(rootDir, 'docs', 'SUMMARY.md'), 'utf-8')).to.match(/^# Summary\r\n\r\n<!--/);
+      expect(checkSummary(rootDir).upToDate).to.equal(true);
+    });
+  });
+
+  describe('❌ Guard Errors', () => {
+    it('should refuse to rebuild around an unclosed manual section', () => {
+      const existing = '# Summary\n<!-- summary:manual:start -->\n## Guides\n';
+      expect(() => renderSummary(EXAMPLES, existing)).to.throw(SummaryFormatError, 'is never closed');
+    });
+  });
+});
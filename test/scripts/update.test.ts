@@ -0,0 +1,108 @@
+/**
+ * Incremental Update - Test Suite
+ *
+ * Tests the generation manifest and how regenerated files are applied
+ */
+
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { UpdateError } from '../../scripts/lib/errors';
+import { applyUpdate, MANIFEST_FILE, readManifest, snapshotFiles, writeManifest } from '../../scripts/lib/update';
+
+function writeFile(rootDir: string, relativePath: string, content: string): void {
+  const filePath = path.join(rootDir, relativePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+}
+
+function readFile(rootDir: string, relativePath: string): string {
+  return fs.readFileSync(path.join(rootDir, relativePath), 'utf-8');
+}
+
+describe('Incremental Update', () => {
+  let outputDir: string;
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fhevm-update-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  describe('✅ Manifest', () => {
+    it('should snapshot generated files and skip build output', () => {
+      writeFile(outputDir, 'contracts/Counter.sol', 'contract Counter {}');
+      writeFile(outputDir, 'node_modules/pkg/index.js', '');
+      writeFile(outputDir, 'artifacts/Counter.json', '{}');
+
+      const files = snapshotFiles(outputDir);
+      writeManifest(outputDir, 'fhe-counter', files);
+
+      expect(files).to.deep.equal({ 'contracts/Counter.sol': 'contract Counter {}' });
+      expect(readManifest(outputDir)).to.include({ version: 1, example: 'fhe-counter' });
+      expect(snapshotFiles(outputDir)).not.to.have.property(MANIFEST_FILE);
+    });
+
+    it('should reject corrupt manifests and unsupported versions with UpdateError', () => {
+      const manifestPath = path.join(outputDir, MANIFEST_FILE);
+      writeFile(outputDir, MANIFEST_FILE, '{ "version": 1,');
+      expect(() => readManifest(outputDir)).to.throw(UpdateError, `${manifestPath} is not valid JSON`);
+
+      writeFile(outputDir, MANIFEST_FILE, JSON.stringify({ version: 99, example: 'fhe-counter', files: {} }));
+      expect(() => readManifest(outputDir)).to.throw(UpdateError, `unsupported manifest version 99 in ${manifestPath}`);
+    });
+  });
+
+  describe('✅ Applying Changes', () => {
+    it('should update, add and remove files the user did not touch', () => {
+      writeFile(outputDir, 'README.md', 'old readme');
+      writeFile(outputDir, 'deploy/old.ts', 'old deploy');
+
+      const report = applyUpdate(
+        outputDir,
+        { 'README.md': 'old readme', 'deploy/old.ts': 'old deploy' },
+        { 'README.md': 'new readme', 'deploy/deploy.ts': 'new deploy' },
+      );
+
+      expect(report).to.deep.include({ updated: ['README.md'], added: ['deploy/deploy.ts'], removed: ['deploy/old.ts'] });
+      expect(readFile(outputDir, 'README.md')).to.equal('new readme');
+      expect(fs.existsSync(path.join(outputDir, 'deploy/old.ts'))).to.equal(false);
+    });
+
+    it('should keep local edits and merge them with upstream changes', () => {
+      writeFile(outputDir, 'hardhat.config.ts', 'local config');
+      writeFile(outputDir, 'test/Counter.ts', 'line 1\nline 2\nlocal line 3\n');
+      writeFile(outputDir, 'notes.md', 'user file');
+
+      const report = applyUpdate(
+        outputDir,
+        { 'hardhat.config.ts': 'config', 'test/Counter.ts': 'line 1\nline 2\nline 3\n' },
+        { 'hardhat.config.ts': 'config', 'test/Counter.ts': 'new line 1\nline 2\nline 3\n' },
+      );
+
+      expect(report).to.deep.include({ kept: ['hardhat.config.ts'], merged: ['test/Counter.ts'], conflicts: [] });
+      expect(readFile(outputDir, 'test/Counter.ts')).to.equal('new line 1\nline 2\nlocal line 3\n');
+      expect(readFile(outputDir, 'notes.md')).to.equal('user file');
+    });
+  });
+
+  describe('❌ Conflicts', () => {
+    it('should report overlapping edits and edits to files removed upstream', () => {
+      writeFile(outputDir, 'README.md', 'local title');
+      writeFile(outputDir, 'deploy/old.ts', 'edited deploy');
+
+      const report = applyUpdate(
+        outputDir,
+        { 'README.md': 'title', 'deploy/old.ts': 'old deploy' },
+        { 'README.md': 'new title' },
+      );
+
+      expect(report.conflicts).to.deep.equal(['README.md', 'deploy/old.ts']);
+      expect(readFile(outputDir, 'README.md')).to.contain('<<<<<<< local');
+      expect(readFile(outputDir, 'deploy/old.ts')).to.equal('edited deploy');
+    });
+  });
+});
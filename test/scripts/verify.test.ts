@@ -0,0 +1,141 @@
+/**
+ * Generated Repo Verification - Test Suite
+ *
+ * Tests how compiler output and test reports become a structured result
+ */
+
+import { expect } from 'chai';
+import {
+  formatCompileError,
+  isVerified,
+  parseCompileErrors,
+  parseGasReport,
+  parseTestReport,
+} from '../../scripts/lib/verify';
+
+const COMPILE_OUTPUT = `Compiling 2 files with Solc 0.8.27
+DeclarationError: Undeclared identifier.
+  --> contracts/FHECounter.sol:21:5:
+   |
+21 |     missing();
+   |     ^^^^^^^
+
+TypeError: Wrong argument count for function call: 1 arguments given but expected 2.
+  --> contracts/lib/Math.sol:8:16:
+   |
+
+Error HH600: Compilation failed
+`;
+
+const TEST_REPORT = JSON.stringify({
+  stats: { passes: 3, failures: 1, pending: 2 },
+  failures: [
+    {
+      fullTitle: 'FHECounter should increment',
+      file: '/repo/test/FHECounter.test.ts',
+      err: { message: 'expected 1 to equal 2' },
+    },
+  ],
+});
+
+// Subset of hardhat-gas-reporter's JSON output
+const GAS_REPORT = JSON.stringify({
+  namespace: 'HardhatGasReporter',
+  data: {
+    methods: {
+      'FHECounter_increment(bytes32,bytes)': {
+        contract: 'FHECounter',
+        method: 'increment',
+        fnSig: 'increment(bytes32,bytes)',
+        gasData: [120000, 150001, 140000],
+        numberOfCalls: 3,
+      },
+      'FHECounter_getCount()': { contract: 'FHECounter', method: 'getCount', fnSig: 'getCount()', gasData: [] },
+    },
+    deployments: [{ name: 'FHECounter', gasData: [800000] }],
+  },
+});
+
+describe('Generated Repo Verification', () => {
+  describe('✅ Compile Errors', () => {
+    it('should extract every solc error with its location', () => {
+      const errors = parseCompileErrors(COMPILE_OUTPUT);
+
+      expect(errors).to.deep.equal([
+        {
+          file: 'contracts/FHECounter.sol',
+          line: 21,
+          column: 5,
+          type: 'DeclarationError',
+          message: 'Undeclared identifier.',
+        },
+        {
+          file: 'contracts/lib/Math.sol',
+          line: 8,
+          column: 16,
+          type: 'TypeError',
+          message: 'Wrong argument count for function call: 1 arguments given but expected 2.',
+        },
+      ]);
+      expect(formatCompileError(errors[0])).to.equal(
+        'contracts/FHECounter.sol:21:5: DeclarationError: Undeclared identifier.',
+      );
+    });
+
+    it('should handle CRLF output', () => {
+      expect(parseCompileErrors(COMPILE_OUTPUT.replace(/\n/g, '\r\n'))).to.have.length(2);
+    });
+  });
+
+  describe('✅ Test Report', () => {
+    it('should read counts and failures from the mocha JSON report', () => {
+      expect(parseTestReport(TEST_REPORT)).to.deep.equal({
+        tests: { passed: 3, failed: 1, pending: 2 },
+        testFailures: [
+          {
+            title: 'FHECounter should increment',
+            file: '/repo/test/FHECounter.test.ts',
+            message: 'expected 1 to equal 2',
+          },
+        ],
+      });
+    });
+  });
+
+  describe('✅ Gas Report', () => {
+    it('should summarize the measured gas of called methods and deployments', () => {
+      expect(parseGasReport(GAS_REPORT)).to.deep.equal({
+        methods: [
+          {
+            contract: 'FHECounter',
+            method: 'increment',
+            signature: 'increment(bytes32,bytes)',
+            min: 120000,
+            max: 150001,
+            avg: 136667,
+            calls: 3,
+          },
+        ],
+        deployments: [{ contract: 'FHECounter', min: 800000, max: 800000, avg: 800000, calls: 1 }],
+      });
+    });
+  });
+
+  describe('❌ Verification Outcome', () => {
+    const passing = {
+      installed: true,
+      compiled: true,
+      compileErrors: [],
+      tests: { passed: 3, failed: 0, pending: 0 },
+      testFailures: [],
+      errors: [],
+    };
+
+    it('should only accept repos whose tests ran and passed', () => {
+      expect(isVerified(passing)).to.equal(true);
+      expect(isVerified({ ...passing, tests: { passed: 0, failed: 0, pending: 0 } })).to.equal(false);
+      expect(isVerified({ ...passing, tests: { passed: 2, failed: 1, pending: 0 } })).to.equal(false);
+      expect(isVerified({ ...passing, compiled: false })).to.equal(false);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Workspace Export - Test Suite
+ *
+ * Tests exporting a category as an npm-workspaces monorepo of standalone example packages
+ */
+
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { OutputExistsError, UnknownCategoryError } from '../../scripts/lib/errors';
+import { getExamplesByCategory } from '../../scripts/lib/registry';
+import { createWorkspace } from '../../scripts/lib/workspace';
+
+function readJson(file: string) {
+  return JSON.parse(fs.readFileSync(file, 'utf-8'));
+}
+
+describe('Workspace Export', () => {
+  let rootDir: string;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fhevm-workspace-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  describe('✅ Generation', () => {
+    it('should write one standalone package per example under a private root', async function () {
+      this.timeout(20000);
+      const outputDir = path.join(rootDir, 'basic');
+
+      const result = await createWorkspace('basic', outputDir);
+
+      const names = getExamplesByCategory('basic').map(example => example.name);
+      expect(result.packages.map(pkg => pkg.directory)).to.deep.equal(names.map(name => `packages/${name}`));
+      result.packages.forEach(pkg => {
+        expect(fs.existsSync(path.join(outputDir, pkg.directory, 'hardhat.config.ts'))).to.equal(true);
+        expect(readJson(path.join(outputDir, pkg.directory, 'package.json')).name).to.equal(pkg.name);
+      });
+
+      const root = readJson(path.join(outputDir, 'package.json'));
+      expect(root).to.include({ name: 'fhevm-workspace-basic', private: true });
+      expect(root.workspaces).to.deep.equal(result.packages.map(pkg => pkg.directory));
+      expect(root.scripts).to.include({ compile: 'npm run compile --workspaces', test: 'npm run test --workspaces' });
+      expect(fs.readFileSync(path.join(outputDir, 'README.md'), 'utf-8')).to.contain(
+        `npm run test -w ${result.packages[0].name}`,
+      );
+    });
+
+    it('should hoist shared dev dependencies and keep runtime dependencies in the packages', async function () {
+      this.timeout(20000);
+      const outputDir = path.join(rootDir, 'basic');
+
+      const result = await createWorkspace('basic', outputDir);
+
+      const root = readJson(path.join(outputDir, 'package.json'));
+      expect(Object.keys(root.devDependencies)).to.deep.equal(result.sharedDevDependencies);
+      expect(root.devDependencies).to.have.property('hardhat');
+      const counter = readJson(path.join(outputDir, 'packages', 'fhe-counter', 'package.json'));
+      expect(counter).not.to.have.property('devDependencies');
+      expect(counter.dependencies).to.have.property('@fhevm/solidity');
+    });
+  });
+
+  describe('❌ Typed Errors', () => {
+    it('should reject unknown categories and existing outputs', async () => {
+      expect(await createWorkspace('nope', path.join(rootDir, 'nope')).catch(e => e)).to.be.instanceOf(
+        UnknownCategoryError,
+      );
+      expect(await createWorkspace('basic', rootDir).catch(e => e)).to.be.instanceOf(OutputExistsError);
+    });
+  });
+});